@@ -0,0 +1,84 @@
+// src/core/accumulator.test.ts
+import { describe, expect, it } from "vitest";
+import { createHistogramAccumulator } from "./accumulator.js";
+import { computeHistogram } from "./engine.js";
+import { binItems } from "./items.js";
+
+const data = Array.from({ length: 400 }, (_, i) => ((i * 37) % 101) / 10 + (i % 7));
+
+describe("createHistogramAccumulator", () => {
+    it("matches computeHistogram on the same points", () => {
+        const acc = createHistogramAccumulator({ data });
+        const a = acc.snapshot(), b = computeHistogram({ data });
+        expect(a.bins.map(x => [x.start, x.end, x.count])).toEqual(b.bins.map(x => [x.start, x.end, x.count]));
+        expect(a.stats.mean).toBeCloseTo(b.stats.mean, 10);
+        expect(a.bins.map(x => x.items)).toEqual(b.bins.map(x => x.items));
+    });
+
+    it("matches computeHistogram after removals and a rebin", () => {
+        const acc = createHistogramAccumulator({ data });
+        acc.snapshot();
+        const kept = data.filter((_, i) => i % 3 !== 0);
+        data.forEach((v, i) => { if (i % 3 === 0) expect(acc.remove(v)).toBe(true); });
+        expect(acc.size).toBe(kept.length);
+        acc.rebin();
+        const a = acc.snapshot(), b = computeHistogram({ data: kept });
+        expect(a.bins.map(x => [x.start, x.end, x.count])).toEqual(b.bins.map(x => [x.start, x.end, x.count]));
+        expect(a.stats.totalWeight).toBeCloseTo(b.stats.totalWeight, 10);
+    });
+
+    it("keeps insertion ids across compaction", () => {
+        const acc = createHistogramAccumulator<number>({ domain: [0, 10], binning: { mode: "binCount", binCount: 10 } });
+        for (let i = 0; i < 100; i++) acc.add(i / 10 + 0.05);
+        acc.snapshot();
+        // Remove the first 90 points; compaction runs once removed points outnumber live ones.
+        for (let i = 0; i < 90; i++) acc.remove(i / 10 + 0.05);
+        expect(acc.remove(42)).toBe(false);
+        const ids = acc.snapshot().bins.flatMap(b => b.items);
+        expect(ids).toEqual(Array.from({ length: 10 }, (_, i) => 90 + i));
+        acc.add(9.5);
+        expect(acc.snapshot().bins[9]!.items).toEqual([...ids, 100]);
+    });
+
+    it("keeps index lists right in a sliding window", () => {
+        const acc = createHistogramAccumulator<number>({ domain: [0, 17], binning: { mode: "binCount", binCount: 17 } });
+        const values = Array.from({ length: 300 }, (_, i) => (i * 7) % 17 + 0.5);
+        values.slice(0, 50).forEach(v => acc.add(v));
+        acc.snapshot();
+        for (let i = 50; i < values.length; i++) {
+            acc.add(values[i]!);
+            acc.remove(values[i - 50]!);
+            if (i % 37 === 0) {
+                // The window holds ids i - 49..i; remove() takes the newest match, so check membership by value.
+                const bins = acc.snapshot().bins;
+                expect(bins.map(b => b.items.length)).toEqual(bins.map(b => b.count));
+                bins.forEach(b => b.items.forEach(id => {
+                    expect(values[id]).toBeGreaterThanOrEqual(b.start);
+                    expect(values[id]).toBeLessThanOrEqual(b.end);
+                }));
+            }
+        }
+        expect(acc.size).toBe(50);
+        expect(acc.snapshot().bins.reduce((n, b) => n + b.items.length, 0)).toBe(50);
+    });
+
+    it("honours items storage", () => {
+        const indices = createHistogramAccumulator({ data }).snapshot();
+        const packed = createHistogramAccumulator({ data, items: "packed" }).snapshot();
+        const none = createHistogramAccumulator({ data, items: "none" }).snapshot();
+        expect(packed.bins.every(b => b.items.length === 0)).toBe(true);
+        expect(indices.bins.map((_, i) => Array.from(binItems(packed, i)))).toEqual(indices.bins.map(b => b.items));
+        expect(none.bins.every(b => b.items.length === 0)).toBe(true);
+        expect(none.packedItems).toBeUndefined();
+        expect(none.bins.map(b => b.count)).toEqual(indices.bins.map(b => b.count));
+    });
+
+    it("routes points outside frozen edges to under/overflow and back out on remove", () => {
+        const acc = createHistogramAccumulator({ data: [1, 2, 3, 4], overflow: true });
+        acc.snapshot();
+        acc.add(100);
+        expect(acc.snapshot().bins.at(-1)!.count).toBe(1);
+        acc.remove(100);
+        expect(acc.snapshot().bins.at(-1)!.count).toBe(0);
+    });
+});
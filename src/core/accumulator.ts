@@ -0,0 +1,333 @@
+// src/core/accumulator.ts
+import { accumulate, locate, slotOf } from "./assign.js";
+import { addDropped, diagnostic, drop, droppedDiagnostic, noDropped, report, valueProblem, weightProblem } from "./diagnostics.js";
+import {
+    buildBins,
+    clippedDiagnostic,
+    clippedOutside,
+    computeBinningPlan,
+    emptyResult,
+    extractValuesAndWeights,
+    isDomainStrategy,
+    resolveDomain,
+    resolveOverflowFlags
+} from "./engine.helpers.js";
+import { packSlots, remapPacked, workingStorage } from "./items.js";
+import { createMoments, pushMoment, removeMoment, summarize, summarizeBinned } from "./stats.js";
+import { resolveUncertainty } from "./uncertainty.js";
+import { checkConfig } from "./validate.js";
+import type {
+    EdgeInclusionRule,
+    HistogramAccumulator,
+    BinningReport,
+    HistogramAccumulatorConfig,
+    HistogramData,
+    HistogramDiagnostic,
+    HistogramResult,
+    RebinOptions
+} from "./types.js";
+
+interface FrozenPlan {
+    d0: number;
+    d1: number;
+    h: number;
+    edges: number[];
+    uniform: boolean;
+    labels: string[] | undefined;
+    counts: number[];
+    sumW2: number[];
+    /** Live points per slot, so emptied slots reset to exactly zero weight. */
+    members: number[];
+    /**
+     * Store positions per slot, kept only for `items: "indices"`. Removed points stay listed (their weight
+     * is zero) until a snapshot or `compact()` filters them, so `remove` is O(1) here.
+     */
+    items: number[][] | null;
+    /** Live points outside the domain with no matching under/overflow slot, and their weight. */
+    outside: number;
+    outsideW: number;
+    warnings: HistogramDiagnostic[];
+    report: BinningReport;
+    /** The domain came from a `DomainStrategy`, so snapshots report `clipped`. */
+    robust: boolean;
+}
+
+/**
+ * Creates a stateful histogram accumulator for streaming data.
+ *
+ * Points are classified against edges that are frozen on the first `snapshot()` (or explicit `rebin()`),
+ * using the same planning as `computeHistogram`. Later points outside the frozen domain go to the
+ * under/overflow slots when enabled. Moments are maintained incrementally (Welford-style add/remove);
+ * the median, quartiles and MAD are estimated from the binned distribution instead of a full sort.
+ *
+ * Item indices in snapshots are insertion ids: the n-th accepted point has id n - 1, and ids are
+ * never reused until `reset()`. Snapshots report rejected points in `dropped`, counted since the last reset.
+ * A robust `domain` is computed from the live points whenever edges are planned, not on every add.
+ * `items` selects how snapshots store indices; per-bin index lists are only kept for "indices".
+ * `sample` is ignored, as only values are kept.
+ *
+ * Only live points are stored: removed points are compacted away once they outnumber the live ones,
+ * so memory and rebin/snapshot scans follow the live size rather than the whole history.
+ *
+ * @throws HistogramConfigError with `strict: true` when the config, or later the `rebin()` options, are invalid.
+ */
+export function createHistogramAccumulator<T = number>(
+    cfg: HistogramAccumulatorConfig<T> = {}
+): HistogramAccumulator<T> {
+    const problems = checkConfig(cfg);
+    const rule: EdgeInclusionRule = cfg.edgeRule ?? "closed-right";
+    let { under, over } = resolveOverflowFlags(cfg.overflow, cfg.domain);
+
+    const storage = workingStorage(cfg.items, false);
+
+    // Point store in insertion order; removed points keep their position with a zero weight until
+    // `compact()`. `ids` holds each position's insertion id.
+    let xs: number[] = [];
+    let ws: number[] = [];
+    let ids: number[] = [];
+    let nextId = 0;
+    let live = 0;
+    let dead = 0;
+    // Positions of live points by value, so `remove` needs no scan.
+    let byValue = new Map<number, number[]>();
+    let dropped = noDropped();
+
+    let moments = createMoments();
+    let min = Number.POSITIVE_INFINITY, max = Number.NEGATIVE_INFINITY;
+    let extremaDirty = false;
+
+    let plan: FrozenPlan | null = null;
+
+    const slotIn = (p: FrozenPlan, value: number) =>
+        slotOf(locate(value, p.edges, rule, p.uniform), p.edges.length - 1, under, over);
+
+    const place = (p: FrozenPlan, pos: number) => {
+        const slot = slotIn(p, xs[pos]!), w = ws[pos]!;
+        if (slot < 0) { p.outside++; p.outsideW += w; return; }
+        p.counts[slot]! += w;
+        p.sumW2[slot]! += w * w;
+        p.members[slot]! += 1;
+        p.items?.[slot]!.push(pos);
+    };
+
+    const unplace = (p: FrozenPlan, pos: number) => {
+        const slot = slotIn(p, xs[pos]!), w = ws[pos]!;
+        // Emptied slots reset to zero to guard against drift from repeated float subtraction.
+        if (slot < 0) {
+            p.outside--;
+            p.outsideW = p.outside === 0 ? 0 : Math.max(0, p.outsideW - w);
+            return;
+        }
+        const n = --p.members[slot]!;
+        p.counts[slot] = n === 0 ? 0 : Math.max(0, p.counts[slot]! - w);
+        p.sumW2[slot] = n === 0 ? 0 : Math.max(0, p.sumW2[slot]! - w * w);
+    };
+
+    /** Live positions of a slot's item list, dropping the removed ones in place. */
+    const liveItems = (list: number[]) => {
+        let k = 0;
+        for (const pos of list) if (ws[pos]! > 0) list[k++] = pos;
+        list.length = k;
+        return list;
+    };
+
+    /** Drops removed points from the store, renumbering positions in the value index and the plan. */
+    const compact = () => {
+        for (const list of plan?.items ?? []) liveItems(list);
+        const moved = new Int32Array(xs.length);
+        let k = 0;
+        for (let pos = 0; pos < xs.length; pos++) {
+            if (!(ws[pos]! > 0)) continue;
+            moved[pos] = k;
+            xs[k] = xs[pos]!; ws[k] = ws[pos]!; ids[k] = ids[pos]!;
+            k++;
+        }
+        xs.length = k; ws.length = k; ids.length = k;
+        dead = 0;
+        for (const list of byValue.values()) for (let j = 0; j < list.length; j++) list[j] = moved[list[j]!]!;
+        for (const list of plan?.items ?? []) for (let j = 0; j < list.length; j++) list[j] = moved[list[j]!]!;
+    };
+
+    const add = (value: number, weight = 1) => {
+        const problem = valueProblem(value) ?? weightProblem(weight);
+        if (problem) { drop(dropped, problem); return false; }
+
+        const pos = xs.length;
+        xs.push(value); ws.push(weight); ids.push(nextId++);
+        live++;
+        const same = byValue.get(value);
+        if (same) same.push(pos); else byValue.set(value, [pos]);
+
+        pushMoment(moments, value, weight);
+        if (value < min) min = value;
+        if (value > max) max = value;
+
+        if (plan) place(plan, pos);
+        return true;
+    };
+
+    const remove = (value: number, weight = 1) => {
+        const same = byValue.get(value);
+        let at = same ? same.length - 1 : -1;
+        while (at >= 0 && ws[same![at]!] !== weight) at--;
+        if (at < 0) return false;
+
+        const pos = same![at]!;
+        same!.splice(at, 1);
+        if (same!.length === 0) byValue.delete(value);
+
+        if (plan) unplace(plan, pos);
+        ws[pos] = 0;
+        live--; dead++;
+
+        if (live === 0) moments = createMoments(); else removeMoment(moments, value, weight);
+        if (value === min || value === max) extremaDirty = true;
+        if (dead > live) compact();
+
+        return true;
+    };
+
+    const reset = () => {
+        xs = []; ws = []; ids = []; nextId = 0; live = 0; dead = 0;
+        byValue = new Map();
+        dropped = noDropped();
+        moments = createMoments();
+        min = Number.POSITIVE_INFINITY; max = Number.NEGATIVE_INFINITY; extremaDirty = false;
+        if (plan) {
+            plan.counts.fill(0);
+            plan.sumW2.fill(0);
+            plan.members.fill(0);
+            if (plan.items) plan.items = plan.items.map(() => []);
+            plan.outside = 0; plan.outsideW = 0;
+        }
+    };
+
+    const rebin = (options: RebinOptions = {}) => {
+        const rebinProblems = checkConfig({ ...options, strict: cfg.strict ?? false });
+        if (dead > 0) compact();
+        const liveXs = xs, liveWs = ws;
+
+        if (liveXs.length === 0) { plan = null; return; }
+
+        const s = summarize(liveXs, liveWs, cfg);
+        const domain = options.domain ?? cfg.domain;
+        const [d0, d1, domainWarnings] = resolveDomain(
+            domain, s.min, s.max, { xs: liveXs, ws: liveWs, ...s, quantileMethod: cfg.quantileMethod }
+        );
+        const { h, edges, uniform, labels, binWarnings, report } = computeBinningPlan(
+            d0, d1, liveXs.length, s.iqr, s.sd, options.binning ?? cfg.binning, { xs: liveXs, ws: liveWs }
+        );
+        ({ under, over } = resolveOverflowFlags(cfg.overflow, domain));
+        // The store is compact, so item indices are store positions. Without index lists, the packed
+        // offsets give the member counts and are then discarded.
+        const { counts, sumW2, items, packed } = accumulate(
+            liveXs, liveWs, edges, rule, under, over, uniform, storage === "indices" ? "indices" : "packed"
+        );
+        const members = counts.map((_, slot) => packed ? packed.offsets[slot + 1]! - packed.offsets[slot]! : items[slot]!.length);
+        const outside = liveXs.length - members.reduce((a, b) => a + b, 0);
+        let outsideW = 0;
+        if (outside > 0) {
+            for (const w of liveWs) outsideW += w;
+            for (const c of counts) outsideW -= c;
+        }
+
+        plan = {
+            d0: edges[0]!, d1: edges[edges.length - 1]!, h, edges, uniform, labels,
+            counts, sumW2, members, items: packed ? null : items, outside, outsideW: Math.max(0, outsideW),
+            warnings: [...rebinProblems, ...domainWarnings, ...binWarnings], report,
+            robust: isDomainStrategy(domain)
+        };
+        min = s.min; max = s.max; extremaDirty = false;
+    };
+
+    const refreshExtrema = () => {
+        min = Number.POSITIVE_INFINITY; max = Number.NEGATIVE_INFINITY;
+        for (let pos = 0; pos < xs.length; pos++) {
+            if (!(ws[pos]! > 0)) continue;
+            const v = xs[pos]!;
+            if (v < min) min = v;
+            if (v > max) max = v;
+        }
+        extremaDirty = false;
+    };
+
+    const withDropped = (result: HistogramResult<T>) => {
+        result.dropped = { ...dropped };
+        return result;
+    };
+
+    const snapshot = (): HistogramResult<T> => {
+        const skipped = droppedDiagnostic(dropped);
+        const leading = skipped ? [...problems, skipped] : [...problems];
+        if (live === 0) return withDropped(emptyResult<T>(leading));
+        if (!plan) rebin();
+        if (extremaDirty) refreshExtrema();
+
+        const p = plan!;
+        const warnings = [...leading, ...p.warnings];
+        const tw = moments.w;
+
+        if (!(tw > 0)) {
+            warnings.push(diagnostic("zero-total-weight", "Total weight is zero after filtering; returning empty histogram.", {}));
+            return withDropped(emptyResult<T>(warnings));
+        }
+
+        let outsideW = p.outsideW;
+        if (under) outsideW += p.counts[0]!;
+        if (over) outsideW += p.counts[p.counts.length - 1]!;
+        const clipped = p.robust ? clippedOutside(xs, ws, p.d0, p.d1) : undefined;
+        if (clipped) {
+            const note = clippedDiagnostic(clipped, p.d0, p.d1);
+            if (note) warnings.push(note);
+        } else if (min < p.d0 || max > p.d1) {
+            const share = (outsideW / tw) * 100;
+            warnings.push(diagnostic(
+                "outside-frozen-domain",
+                `${share.toFixed(1)}% of the weight lies outside the frozen domain [${p.d0}, ${p.d1}]; consider rebin().`,
+                { share, domain: [p.d0, p.d1] }
+            ));
+        }
+
+        const ctx = resolveUncertainty(cfg.uncertainty, live, tw, moments.w2);
+        const bins = buildBins<T>(
+            p.counts.slice(), p.items ? p.items.map(a => liveItems(a).map(pos => ids[pos]!)) : p.counts.map(() => []), p.edges, p.h, under, over, tw,
+            cfg.measure, p.labels, ctx && { sumW2: p.sumW2.slice(), ctx }
+        );
+
+        return withDropped(report<HistogramResult<T>>({
+            bins,
+            domain: [p.d0, p.d1],
+            binWidth: p.h,
+            stats: summarizeBinned(p.counts, p.edges, under, live, min, max, moments, cfg),
+            binning: p.report,
+            ...(clipped ? { clipped } : {}),
+            ...(storage === "packed" ? { packedItems: packedMembers(p) } : {}),
+        }, warnings));
+    };
+
+    /** Packed insertion ids per slot, from the positions of the live points. */
+    const packedMembers = (p: FrozenPlan) => {
+        const slots = new Int32Array(xs.length);
+        for (let pos = 0; pos < xs.length; pos++) slots[pos] = ws[pos]! > 0 ? slotIn(p, xs[pos]!) : -1;
+        return remapPacked(packSlots(slots, p.counts.length), ids);
+    };
+
+    const addMany = (data: HistogramData<T>) => {
+        const { xs: vs, ws: wts, dropped: skipped } = extractValuesAndWeights<T>({ ...cfg, data });
+        dropped = addDropped(dropped, skipped);
+        for (let i = 0; i < vs.length; i++) add(vs[i]!, wts[i]!);
+        return vs.length;
+    };
+
+    if (cfg.data) addMany(cfg.data);
+
+    return {
+        add,
+        addMany,
+        remove,
+        reset,
+        rebin,
+        snapshot,
+        get size() { return live; },
+    };
+}
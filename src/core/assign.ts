@@ -1,66 +1,136 @@
 ﻿import { RIGHT_CLOSED_EPS } from "./constants.js";
-import type { EdgeInclusionRule } from "./types.js";
+import { packSlots } from "./items.js";
+import type { EdgeInclusionRule, ItemStorage, PackedItems } from "./types.js";
 
 /**
  * Classifies a scalar value into a uniform histogram bin index.
  *
  * Bins are assumed to be uniform with width `h`, starting at `start`, for `k` bins:
- * - Default: half-open intervals [start + i*h, start + (i+1)*h) for i = 0..k-1.
- * - If `rule` is `"closed-right"`, the rightmost edge is inclusive, so values x ≈ start + k*h
- *   (within a tolerance of RIGHT_CLOSED_EPS) are placed into the last bin (k - 1) instead of treated as overflow.
+ * - `"closed-right"`: half-open intervals [start + i*h, start + (i+1)*h) for i = 0..k-1; the rightmost edge
+ *   is inclusive, so values x ≈ start + k*h (within RIGHT_CLOSED_EPS) are placed into the last bin (k - 1).
+ * - `"closed-left"`: the mirror, (start + i*h, start + (i+1)*h]; the leftmost edge is inclusive, so values
+ *   x ≈ start (within RIGHT_CLOSED_EPS) are placed into the first bin (0).
  *
  * Return semantics:
- * - Returns -1 if x < start (underflow).
- * - Returns k if x ≥ start + k*h (overflow) and not captured by the `"closed-right"` right-edge rule.
+ * - Returns -1 if x lies below the first bin (underflow).
+ * - Returns k if x lies above the last bin (overflow).
  * - Otherwise returns the in-range zero-based bin index in [0, k-1].
  */
 export function classify(x: number, start: number, h: number, k: number, rule: EdgeInclusionRule) {
+    if (rule === "closed-left") {
+        const idx = Math.ceil((x - start) / h) - 1;
+
+        if (idx < 0) return Math.abs(x - start) < RIGHT_CLOSED_EPS ? 0 : -1;
+
+        return idx >= k ? k : idx;
+    }
+
     let idx = Math.floor((x - start) / h);
 
     if (idx < 0) return -1;
 
-    if (idx >= k) return rule === "closed-right" && Math.abs(x - (start + k * h)) < RIGHT_CLOSED_EPS ? k - 1 : k;
+    if (idx >= k) return Math.abs(x - (start + k * h)) < RIGHT_CLOSED_EPS ? k - 1 : k;
 
     return idx;
 }
 
 /**
- * Accumulates weighted counts and item indices into (optionally extended) uniform bins.
+ * Classifies a scalar value against arbitrary ascending `edges` by binary search.
+ *
+ * Follows the same semantics as `classify`, applied to every edge: `"closed-right"` bins are
+ * [e_i, e_{i+1}) with the last edge inclusive, `"closed-left"` bins are (e_i, e_{i+1}] with the first
+ * edge inclusive. Edges may start at -Infinity or end at +Infinity.
+ *
+ * Returns -1 for underflow, k = edges.length - 1 for overflow, otherwise the bin index in [0, k-1].
+ */
+export function classifyEdges(x: number, edges: ArrayLike<number>, rule: EdgeInclusionRule) {
+    const k = edges.length - 1;
+    const first = edges[0]!, last = edges[k]!;
+
+    if (rule === "closed-left") {
+        if (x <= first) return Math.abs(x - first) < RIGHT_CLOSED_EPS || x === first ? 0 : -1;
+        if (x > last) return k;
+
+        // smallest i with edges[i] >= x
+        let lo = 1, hi = k;
+        while (lo < hi) {
+            const mid = (lo + hi) >>> 1;
+            if (edges[mid]! >= x) hi = mid; else lo = mid + 1;
+        }
+        return lo - 1;
+    }
+
+    if (x < first) return -1;
+    if (x >= last) return Math.abs(x - last) < RIGHT_CLOSED_EPS || x === last ? k - 1 : k;
+
+    // largest i with edges[i] <= x
+    let lo = 0, hi = k - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >>> 1;
+        if (edges[mid]! <= x) lo = mid; else hi = mid - 1;
+    }
+    return lo;
+}
+
+/**
+ * Classifies `x` against `edges`, taking the O(1) uniform path when the edges are evenly spaced
+ * and the binary-search path otherwise.
+ */
+export function locate(x: number, edges: ArrayLike<number>, rule: EdgeInclusionRule, uniform: boolean) {
+    if (!uniform) return classifyEdges(x, edges, rule);
+
+    const k = edges.length - 1;
+    const j = classify(x, edges[0]!, edges[1]! - edges[0]!, k, rule);
+
+    // The last edge is clipped to the domain end, so the final bin can be narrower than the step.
+    return j === k - 1 && x - edges[k]! >= RIGHT_CLOSED_EPS ? k : j;
+}
+
+/**
+ * Maps a bin index returned by `classify` onto its slot in the (optionally extended) counts array.
  *
- * See engine docs for slots layout and behavior.
+ * Slot layout: `[underflow?, bin 0, ..., bin k-1, overflow?]`.
+ * Returns -1 when the value lies outside the domain and the matching under/overflow slot is disabled.
+ */
+export function slotOf(j: number, k: number, withUnder: boolean, withOver: boolean) {
+    if (j < 0) return withUnder ? 0 : -1;
+    if (j >= k) return withOver ? k + (withUnder ? 1 : 0) : -1;
+
+    return j + (withUnder ? 1 : 0);
+}
+
+/**
+ * Accumulates weighted counts, sums of squared weights and item indices into (optionally extended) bins.
+ *
+ * Pass `uniform = false` for variable-width edges so classification uses binary search.
+ * With `storage` "packed" the per-slot `items` stay empty and `packed` holds the indices instead;
+ * with "none" no indices are kept. See engine docs for slots layout and behavior.
  */
 export function accumulate(
-    xs: number[], ws: number[], start: number, h: number, edges: number[],
-    rule: EdgeInclusionRule, withUnder: boolean, withOver: boolean
+    xs: ArrayLike<number>, ws: ArrayLike<number>, edges: number[],
+    rule: EdgeInclusionRule, withUnder: boolean, withOver: boolean, uniform = true, storage: ItemStorage = "indices"
 ) {
     const k = edges.length - 1;
     const extra = (withUnder ? 1 : 0) + (withOver ? 1 : 0);
     const size = k + extra;
     const counts: number[] = Array.from({ length: size }, () => 0);
+    const sumW2: number[] = Array.from({ length: size }, () => 0);
     const items: number[][] = Array.from({ length: size }, () => [] as number[]);
+    const slots = storage === "packed" ? new Int32Array(xs.length) : null;
 
     if (edges.length < 2) throw new Error("edges must contain at least two entries");
-    const edge0 = edges[0]!;
-    const binWidth = edges[1]! - edge0;
 
     for (let i = 0, n = xs.length; i < n; i++) {
         const x = xs[i]!; const w = ws[i]!;
-        const j = classify(x, edge0, binWidth, k, rule);
-
-        let slot: number;
-
-        if (j < 0) {
-            if (!withUnder) continue;
-            slot = 0;
-        } else if (j >= k) {
-            if (!withOver) continue;
-            slot = k + (withUnder ? 1 : 0);
-        } else {
-            slot = j + (withUnder ? 1 : 0);
-        }
+        const slot = slotOf(locate(x, edges, rule, uniform), k, withUnder, withOver);
+
+        if (slots) slots[i] = slot;
+        if (slot < 0) continue;
 
     counts[slot]! += w as number;
-        items[slot]!.push(i);
+        sumW2[slot]! += w * w;
+        if (storage === "indices") items[slot]!.push(i);
     }
-    return { counts, items };
-}
\ No newline at end of file
+    const packed: PackedItems | null = slots && packSlots(slots, size);
+    return { counts, sumW2, items, packed };
+}
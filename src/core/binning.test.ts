@@ -0,0 +1,62 @@
+// src/core/binning.test.ts
+import { describe, expect, it } from "vitest";
+import { alignedBinCount, niceEdges, niceWidth, niceWidthForCount } from "./binning.js";
+import { computeHistogram } from "./engine.js";
+import type { BinningStrategy } from "./types.js";
+
+/** Mantissa of `h` in [1, 10), rounded off float noise. */
+function mantissa(h: number) {
+    return Number((h / 10 ** Math.floor(Math.log10(h) + 1e-9)).toPrecision(12));
+}
+
+describe("nice binning", () => {
+    it("snaps widths to 1, 2, 2.5 or 5 × 10^k", () => {
+        expect(niceWidth(0.37)).toBe(0.5);
+        expect(niceWidth(6.9)).toBe(5);
+        expect(niceWidth(8)).toBe(10);
+        expect(niceWidth(2.2e-7)).toBeCloseTo(2e-7, 20);
+        expect(niceWidthForCount(0, 97, 10)).toBe(10);
+        expect(niceWidthForCount(-0.013, 0.011, 6)).toBeCloseTo(0.005, 15);
+    });
+
+    it("rounds edges to 12 significant digits", () => {
+        expect(niceEdges(0.1, 0.7, 0.1)).toEqual([0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7]);
+        expect(niceEdges(-3.7, -1.2, 0.5)).toEqual([-4, -3.5, -3, -2.5, -2, -1.5, -1]);
+        expect(niceEdges(1.00000012, 1.00000031, 5e-8)).toEqual([1.0000001, 1.00000015, 1.0000002, 1.00000025, 1.0000003, 1.00000035]);
+        expect(alignedBinCount(0, 1, 0.1)).toBe(10);
+    });
+
+    const datasets: Record<string, number[]> = {
+        wide: Array.from({ length: 200 }, (_, i) => ((i * 7919) % 1000) * 0.137 - 20),
+        negative: Array.from({ length: 50 }, (_, i) => -0.0731 - ((i * 37) % 50) * 0.00093),
+        tiny: Array.from({ length: 40 }, (_, i) => 1 + ((i * 13) % 40) * 3e-10),
+        skewed: Array.from({ length: 120 }, (_, i) => Math.exp(((i * 53) % 120) / 30)),
+    };
+    const strategies: BinningStrategy[] = [
+        { mode: "auto", nice: true },
+        { mode: "binCount", binCount: 7, nice: true },
+        { mode: "binWidth", binWidth: 0.25, nice: true },
+    ];
+
+    for (const [name, data] of Object.entries(datasets)) {
+        for (const binning of strategies) {
+            it(`places ${binning.mode} edges on multiples of the width for ${name} data`, () => {
+                const r = computeHistogram({ data, binning });
+                const h = r.binWidth!;
+                const edges = [r.bins[0]!.start, ...r.bins.map(b => b.end)];
+                if (binning.mode === "binWidth") expect(h).toBe(0.25);
+                else expect([1, 2, 2.5, 5]).toContain(mantissa(h));
+
+                expect(edges[0]).toBeLessThanOrEqual(Math.min(...data));
+                expect(edges[edges.length - 1]).toBeGreaterThanOrEqual(Math.max(...data));
+                expect(r.domain).toEqual([edges[0], edges[edges.length - 1]]);
+                for (const e of edges) {
+                    expect(e).toBe(Number(e.toPrecision(12)));
+                    expect(Math.abs(e / h - Math.round(e / h))).toBeLessThan(1e-6);
+                }
+                for (let i = 1; i < edges.length; i++) expect((edges[i]! - edges[i - 1]!) / h).toBeCloseTo(1, 6);
+                expect(r.bins.reduce((s, b) => s + b.count, 0)).toBe(data.length);
+            });
+        }
+    }
+});
@@ -1,16 +1,28 @@
 ﻿// src/core/binning.ts
-import type { BinningStrategy } from "./types.js";
+import { MAX_BINS, MAX_BLOCK_CELLS, MAX_SEARCH_BINS } from "./constants.js";
+import { diagnostic } from "./diagnostics.js";
+import { lnGamma } from "./special.js";
+import { createMoments, describeMoments, pushMoment, sortWeighted, weightedQuantiles, type WeightedSample } from "./stats.js";
+import { NOMINAL_MS } from "./time.js";
+import type { AutoBinningRule, BinningFallback, BinningStrategy, HistogramDiagnostic } from "./types.js";
 
 /**
  * Histogram binning utilities.
  *
  * Provides:
  * - `chooseBinWidth`: Computes an appropriate bin width from summary statistics and a chosen rule.
+ * - `autoBinWidth`: Evaluates an auto-binning rule with fallbacks and reports the candidates.
  * - `buildEdges`: Generates bin edges covering a continuous range with a fixed step.
+ * - `normalizeEdges`: Validates user-supplied explicit edges.
+ * - `niceEdges`: Aligns edges to multiples of a 1/2/2.5/5 × 10^k width (see `niceWidth`).
+ * - `quantileEdges`: Places edges at weighted quantiles for equal-frequency bins.
+ * - `bayesianBlockEdges`: Places variable-width edges where the density changes (Bayesian Blocks).
  *
  * Implementation notes:
  * - All results are clamped to a minimal positive width to avoid degenerate bins.
  * - Auto mode prefers the Freedman–Diaconis rule, falling back to Scott's and then Sturges' when necessary.
+ * - Data-adaptive rules (Knuth, Shimazaki–Shinomoto, Bayesian Blocks) treat weights as frequencies,
+ *   rescaled to the number of observations.
  *
  * @packageDocumentation
  */
@@ -19,21 +31,14 @@ import type { BinningStrategy } from "./types.js";
  * Compute a histogram bin width given the data range and summary statistics.
  *
  * Algorithm (pseudo):
- * 1) If `strat` is undefined or `strat.mode === "auto"`:
- *    a) Determine `rule` = `strat.rule ?? "fd"`.
- *    b) Let `safeN = max(1, n)`, `nRoot = 1 / cbrt(safeN)`.
- *    c) Compute candidate widths:
- *       - Freedman–Diaconis: `fd = 2 * iqr * nRoot`.
- *       - Scott:             `sc = 3.5 * sd * nRoot`.
- *       - Sturges:           `st = range / max(1, ceil(log2(safeN) + 1))`.
- *    d) Choose the first positive finite candidate in an order determined by `rule`:
- *       - "fd"    => try `fd`, then `sc`, then `st`.
- *       - "scott" => try `sc`, then `fd`, then `st`.
- *       - "sturges" => `st`.
- *    e) Fallback to `range || 1` if none were positive and finite.
- *    f) Clamp the result to a minimal positive width.
+ * 1) If `strat` is undefined or `strat.mode === "auto"`, return `autoBinWidth(...).h` for
+ *    `rule` = `strat.rule ?? "fd"`. Without raw values, Doane uses zero skewness and the
+ *    data-adaptive rules fall back.
  * 2) If `strat.mode === "binWidth"`, clamp and return `strat.binWidth`.
+ *    If `strat.mode === "integer"`, round `strat.width` (or the Freedman–Diaconis width) to an integer >= 1.
  * 3) Otherwise treat as fixed bin count: `k = max(1, floor(strat.binCount))`, return `clampWidth(range / k)`.
+ *    Variable-width strategies (`edges`, `quantile`) use their bin count the same way, yielding a nominal width;
+ *    `time` uses the nominal length of its calendar interval.
  *
  * Notes:
  * - The function is robust to edge cases: non-finite inputs, zero IQR/SD, and very small/large `n`.
@@ -55,46 +60,168 @@ export function chooseBinWidth(
     iqr: number,
     sd: number,
     strat: BinningStrategy | undefined
-) {
+): number {
     if (!strat || strat.mode === "auto") {
-        const rule: "sturges" | "scott" | "fd" = strat && strat.mode === "auto" ? (strat.rule ?? "fd") : "fd";
-        const safeN = Math.max(1, n);
-        const nRoot = 1 / Math.cbrt(safeN);
-        const fd = 2 * iqr * nRoot;
-        const sc = 3.5 * sd * nRoot;
-        const stK = Math.max(1, Math.ceil(Math.log2(safeN) + 1));
-        const st = range / stK;
-
-        let h: number;
-
-        const firstPositiveFinite = (...xs: number[]) => {
-            for (const x of xs) {
-                if (Number.isFinite(x) && x > 0) return x;
-            }
-            return NaN;
-        };
-
-        switch (rule) {
-            case "fd":
-                h = firstPositiveFinite(fd, sc, st);
-                break;
-            case "scott":
-                h = firstPositiveFinite(sc, fd, st);
-                break;
-            default:
-                h = st;
-                break;
-        }
-        return clampWidth(h || (range || 1));
+        return autoBinWidth(range, n, iqr, sd, strat?.rule ?? "fd").h;
     }
 
     if (strat.mode === "binWidth") return clampWidth(strat.binWidth);
 
-    const k = Math.max(1, Math.floor(strat.binCount));
+    if (strat.mode === "integer") {
+        const w = strat.width ?? chooseBinWidth(range, n, iqr, sd, { mode: "auto", rule: "fd" });
+        return Math.max(1, Math.round(Number.isFinite(w) ? w : 1));
+    }
+
+    // Variable-width strategies: report the nominal (average) width.
+    if (strat.mode === "bayesianBlocks") return chooseBinWidth(range, n, iqr, sd, { mode: "auto", rule: "fd" });
+
+    if (strat.mode === "time") {
+        return !strat.interval || strat.interval === "auto"
+            ? chooseBinWidth(range, n, iqr, sd, { mode: "auto", rule: "fd" })
+            : clampWidth(NOMINAL_MS[strat.interval] * Math.max(1, Math.round(strat.step ?? 1)));
+    }
+
+    const k = strat.mode === "edges" ? Math.max(1, strat.edges.length - 1)
+        : Math.max(1, Math.floor(strat.mode === "quantile" ? strat.count : strat.binCount));
 
     return clampWidth(range / k);
 }
 
+export interface AutoBinWidth {
+    /** Clamped width of the rule that was used. */
+    h: number;
+    rule: AutoBinningRule;
+    /** Width proposed by each evaluated rule (possibly 0 or NaN when unusable). */
+    candidates: Partial<Record<AutoBinningRule, number>>;
+    fallbacks: BinningFallback[];
+}
+
+/** Rules tried, in order, after the requested one yields no usable width. */
+const FALLBACK_RULES: AutoBinningRule[] = ["fd", "scott", "sturges"];
+
+/**
+ * Evaluates auto-binning `rule` over a domain of width `range`, trying Freedman–Diaconis, Scott and
+ * Sturges in turn when it yields no positive finite width, and finally `range || 1`.
+ *
+ * Widths, with `N = max(1, n)`:
+ * - fd: `2·IQR/∛N`; scott: `3.5·sd/∛N`; numpy: the smaller of fd and sturges (sturges when the IQR is 0).
+ * - sturges, rice, sqrt, doane: `range / k` with `k = ⌈log₂N + 1⌉`, `⌈2∛N⌉`, `⌈√N⌉` and
+ *   `1 + log₂N + log₂(1 + |g1|/σ(g1))`, where `g1` is the sample skewness of `values`.
+ * - knuth, shimazaki: `range / M` for the equal-width bin count `M ≤ MAX_SEARCH_BINS` that maximizes
+ *   Knuth's log posterior or minimizes the Shimazaki–Shinomoto cost `(2·mean − var)/Δ²` of the counts.
+ *
+ * The closed-form candidates are always reported; Doane's only when `values` are given, the optimisers
+ * only when requested, since they need a sort and a search.
+ */
+export function autoBinWidth(
+    range: number,
+    n: number,
+    iqr: number,
+    sd: number,
+    rule: AutoBinningRule,
+    values?: { xs: ArrayLike<number>; ws: ArrayLike<number>; start: number }
+): AutoBinWidth {
+    const safeN = Math.max(1, n);
+    const nRoot = 1 / Math.cbrt(safeN);
+    const fd = 2 * iqr * nRoot;
+    const st = range / Math.max(1, Math.ceil(Math.log2(safeN) + 1));
+
+    const candidates: Partial<Record<AutoBinningRule, number>> = {
+        fd,
+        scott: 3.5 * sd * nRoot,
+        sturges: st,
+        rice: range / Math.max(1, Math.ceil(2 * Math.cbrt(safeN))),
+        sqrt: range / Math.max(1, Math.ceil(Math.sqrt(safeN))),
+        numpy: usable(fd) ? Math.min(fd, st) : st,
+    };
+    if (values || rule === "doane") candidates.doane = range / doaneBins(safeN, values ? sampleSkewness(values.xs, values.ws) : 0);
+
+    const evaluate = (r: AutoBinningRule): number | string => {
+        if (r === "knuth" || r === "shimazaki") {
+            if (!values) return "needs the raw values";
+            if (n < 2) return "needs at least two values";
+            const m = optimalBinCount(values.xs, values.ws, values.start, values.start + range, r);
+            candidates[r] = range / m;
+        }
+        const h = candidates[r]!;
+        if (usable(h)) return h;
+        if (r === "fd" && iqr === 0) return "the IQR is 0";
+        if (r === "scott" && sd === 0) return "the standard deviation is 0";
+        return `width ${h} is not positive and finite`;
+    };
+
+    const fallbacks: BinningFallback[] = [];
+    for (const r of [rule, ...FALLBACK_RULES.filter(f => f !== rule)]) {
+        const h = evaluate(r);
+        if (typeof h === "number") return { h: clampWidth(h), rule: r, candidates, fallbacks };
+        fallbacks.push({ rule: r, reason: h });
+    }
+    return { h: clampWidth(range || 1), rule, candidates, fallbacks };
+}
+
+function usable(h: number | undefined): h is number {
+    return h !== undefined && Number.isFinite(h) && h > 0;
+}
+
+function doaneBins(n: number, g1: number) {
+    const sigma = n > 2 ? Math.sqrt((6 * (n - 2)) / ((n + 1) * (n + 3))) : 1;
+    return Math.max(1, Math.ceil(1 + Math.log2(n) + Math.log2(1 + Math.abs(g1) / sigma)));
+}
+
+function sampleSkewness(xs: ArrayLike<number>, ws: ArrayLike<number>) {
+    const m = createMoments();
+    for (let i = 0; i < xs.length; i++) pushMoment(m, xs[i]!, ws[i]!);
+    return describeMoments(m).skewness;
+}
+
+/**
+ * Equal-width bin count over [`start`, `end`] chosen by Knuth's rule or the Shimazaki–Shinomoto cost,
+ * searching 1..min(MAX_SEARCH_BINS, MAX_BINS, n). Counts come from one weighted sort, so each candidate
+ * costs O(M log n).
+ */
+function optimalBinCount(xs: ArrayLike<number>, ws: ArrayLike<number>, start: number, end: number, rule: "knuth" | "shimazaki") {
+    const s = sortWeighted(xs, ws);
+    const range = end - start;
+    const below = cumulativeAt(s, start, false);
+    const total = cumulativeAt(s, end, true) - below;
+    const limit = Math.max(1, Math.min(MAX_SEARCH_BINS, MAX_BINS, s.n));
+
+    let best = 1, bestScore = Number.NEGATIVE_INFINITY;
+    for (let m = 1; m <= limit; m++) {
+        const counts = new Float64Array(m);
+        let prev = below;
+        for (let j = 0; j < m; j++) {
+            const next = j === m - 1 ? below + total : cumulativeAt(s, start + ((j + 1) * range) / m, false);
+            counts[j] = next - prev;
+            prev = next;
+        }
+
+        let score: number;
+        if (rule === "knuth") {
+            score = total * Math.log(m) + lnGamma(m / 2) - m * lnGamma(0.5) - lnGamma(total + m / 2);
+            for (const c of counts) score += lnGamma(c + 0.5);
+        } else {
+            const mean = total / m;
+            let v = 0;
+            for (const c of counts) v += (c - mean) ** 2;
+            const width = range / m;
+            score = -(2 * mean - v / m) / (width * width);
+        }
+        if (score > bestScore) { bestScore = score; best = m; }
+    }
+    return best;
+}
+
+/** Rescaled cumulative weight of the values below `x` (or at most `x` with `inclusive`). */
+function cumulativeAt(s: WeightedSample, x: number, inclusive: boolean) {
+    let lo = 0, hi = s.n;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (inclusive ? s.values[mid]! <= x : s.values[mid]! < x) lo = mid + 1; else hi = mid;
+    }
+    return lo > 0 ? s.cum[lo - 1]! : 0;
+}
+
 /**
  * Build an array of bin edges spanning [`start`, `end`] using width `h`.
  */
@@ -111,6 +238,182 @@ export function buildEdges(start: number, end: number, h: number) {
     return Array.from(edges);
 }
 
+const NICE_MANTISSAS = [1, 2, 2.5, 5];
+
+/** The 1, 2, 2.5 or 5 × 10^k width nearest to `h` on a log scale. */
+export function niceWidth(h: number) {
+    const e = Math.floor(Math.log10(h));
+    let best = 10 ** e, bestDist = Number.POSITIVE_INFINITY;
+    for (const m of [...NICE_MANTISSAS, 10]) {
+        const w = m * 10 ** e;
+        const dist = Math.abs(Math.log(w / h));
+        if (dist < bestDist) { best = w; bestDist = dist; }
+    }
+    return best;
+}
+
+/** The smallest nice width strictly greater than nice width `h`. */
+export function nextNiceWidth(h: number) {
+    const e = Math.floor(Math.log10(h) + 1e-9);
+    const m = h / 10 ** e;
+    const next = NICE_MANTISSAS.find(n => n > m + 1e-9);
+    return next ? next * 10 ** e : 10 ** (e + 1);
+}
+
+/** Number of width-`h` bins with edges on multiples of `h` needed to cover [`start`, `end`]. */
+export function alignedBinCount(start: number, end: number, h: number) {
+    return Math.max(1, Math.ceil(end / h - 1e-9) - Math.floor(start / h + 1e-9));
+}
+
+/**
+ * The nice width whose aligned bin count over [`start`, `end`] is closest to `k`; ties go to fewer bins.
+ */
+export function niceWidthForCount(start: number, end: number, k: number) {
+    const raw = (end - start) / Math.max(1, k);
+    const e = Math.floor(Math.log10(raw));
+    let best = niceWidth(raw), bestDiff = Number.POSITIVE_INFINITY, bestCount = Number.POSITIVE_INFINITY;
+    for (let p = e - 1; p <= e + 1; p++) {
+        for (const m of NICE_MANTISSAS) {
+            const w = m * 10 ** p;
+            const count = alignedBinCount(start, end, w);
+            const diff = Math.abs(count - k);
+            if (diff < bestDiff || (diff === bestDiff && count < bestCount)) { best = w; bestDiff = diff; bestCount = count; }
+        }
+    }
+    return best;
+}
+
+/**
+ * Edges on multiples of `h` covering [`start`, `end`], extended outward. Each edge is rounded to 12
+ * significant digits so labels read 0.3 rather than 0.30000000000000004.
+ */
+export function niceEdges(start: number, end: number, h: number) {
+    const first = Math.floor(start / h + 1e-9);
+    const k = alignedBinCount(start, end, h);
+    const edges = new Array<number>(k + 1);
+    for (let i = 0; i <= k; i++) edges[i] = Number(((first + i) * h).toPrecision(12));
+    return edges;
+}
+
+/**
+ * Validate explicit edges: drops NaN entries, sorts ascending and removes duplicates.
+ *
+ * `-Infinity` is allowed as the first edge and `+Infinity` as the last (open-ended buckets).
+ * Returns `null` edges when fewer than two distinct edges remain.
+ */
+export function normalizeEdges(input: ReadonlyArray<number>) {
+    const warnings: HistogramDiagnostic[] = [];
+    const clean = input.filter(e => !Number.isNaN(e));
+    if (clean.length !== input.length) {
+        warnings.push(diagnostic("edges-nan-dropped", "Explicit edges contained NaN entries; they were dropped.", { dropped: input.length - clean.length }));
+    }
+
+    let sorted = true;
+    for (let i = 1; i < clean.length; i++) if (!(clean[i]! > clean[i - 1]!)) { sorted = false; break; }
+
+    let edges = clean;
+    if (!sorted) {
+        edges = Array.from(new Set(clean)).sort((a, b) => a - b);
+        warnings.push(diagnostic("edges-unsorted", "Explicit edges were not strictly increasing; they have been sorted and de-duplicated.", {}));
+    }
+
+    return { edges: edges.length >= 2 ? edges : null, warnings };
+}
+
+/**
+ * Build `count` equal-frequency bins over [`start`, `end`] by placing interior edges at weighted quantiles
+ * of the values inside that range.
+ *
+ * Tied values can make neighbouring quantiles coincide; such duplicate edges are merged, so the result
+ * may hold fewer than `count` bins.
+ */
+export function quantileEdges(
+    start: number, end: number, count: number, xs: ArrayLike<number>, ws: ArrayLike<number>
+) {
+    const k = Math.max(1, Math.floor(count));
+    const inX: number[] = [];
+    const inW: number[] = [];
+    for (let i = 0; i < xs.length; i++) {
+        const v = xs[i]!;
+        if (v >= start && v <= end) { inX.push(v); inW.push(ws[i]!); }
+    }
+
+    const ps: number[] = [];
+    for (let i = 1; i < k; i++) ps.push(i / k);
+
+    const qs = inX.length > 0 ? weightedQuantiles(inX, inW, ps) : ps.map(p => start + p * (end - start));
+    const edges = [start];
+    for (const q of qs) if (q > edges[edges.length - 1]! && q < end) edges.push(q);
+    edges.push(end);
+
+    return edges;
+}
+
+/**
+ * Variable-width Bayesian Blocks over [`start`, `end`] (Scargle et al. 2013, event data): the optimal
+ * partition of the values into blocks of constant density, with the prior on the number of blocks
+ * calibrated for false-positive rate `p0`.
+ *
+ * Each distinct value is a cell bounded by the midpoints to its neighbours. More than MAX_BLOCK_CELLS
+ * distinct values are first counted into that many equal-width cells. The dynamic program is O(cells²).
+ */
+export function bayesianBlockEdges(
+    start: number, end: number, xs: ArrayLike<number>, ws: ArrayLike<number>, p0 = 0.05
+) {
+    const inX: number[] = [];
+    const inW: number[] = [];
+    for (let i = 0; i < xs.length; i++) {
+        const v = xs[i]!;
+        if (v >= start && v <= end) { inX.push(v); inW.push(ws[i]!); }
+    }
+    if (inX.length === 0) return [start, end];
+
+    const s = sortWeighted(inX, inW);
+    const cellEdges = [start];
+    const counts: number[] = [];
+    let distinct = 1;
+    for (let i = 1; i < s.n; i++) if (s.values[i] !== s.values[i - 1]) distinct++;
+
+    if (distinct <= MAX_BLOCK_CELLS) {
+        let prev = 0;
+        for (let i = 0; i < s.n; i++) {
+            if (i + 1 < s.n && s.values[i + 1] === s.values[i]) continue;
+            counts.push(s.cum[i]! - prev);
+            prev = s.cum[i]!;
+            cellEdges.push(i + 1 < s.n ? (s.values[i]! + s.values[i + 1]!) / 2 : end);
+        }
+    } else {
+        const h = (end - start) / MAX_BLOCK_CELLS;
+        for (let j = 1; j <= MAX_BLOCK_CELLS; j++) {
+            const edge = j === MAX_BLOCK_CELLS ? end : start + j * h;
+            counts.push(cumulativeAt(s, edge, j === MAX_BLOCK_CELLS) - cumulativeAt(s, cellEdges[j - 1]!, false));
+            cellEdges.push(edge);
+        }
+    }
+
+    const k = counts.length;
+    const prior = 4 - Math.log(73.53 * p0 * Math.pow(k, -0.478));
+    const best = new Float64Array(k);
+    const last = new Int32Array(k);
+
+    for (let r = 0; r < k; r++) {
+        // Block [l, r]: count accumulated leftwards from r.
+        let count = 0;
+        best[r] = Number.NEGATIVE_INFINITY;
+        for (let l = r; l >= 0; l--) {
+            count += counts[l]!;
+            const width = cellEdges[r + 1]! - cellEdges[l]!;
+            const fit = count > 0 && width > 0 ? count * Math.log(count / width) : 0;
+            const score = fit - prior + (l > 0 ? best[l - 1]! : 0);
+            if (score > best[r]!) { best[r] = score; last[r] = l; }
+        }
+    }
+
+    const edges = [end];
+    for (let r = k - 1; r >= 0; r = last[r]! - 1) edges.push(cellEdges[last[r]!]!);
+    return edges.reverse();
+}
+
 /**
  * Clamp a proposed bin width to a safe, strictly positive finite value.
  */
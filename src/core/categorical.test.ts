@@ -0,0 +1,42 @@
+// src/core/categorical.test.ts
+import { describe, expect, it } from "vitest";
+import { computeCategoricalHistogram } from "./categorical.js";
+import { HistogramConfigError } from "./errors.js";
+
+describe("computeCategoricalHistogram", () => {
+    const rows = [
+        { c: "a", w: 1 }, { c: "b", w: 2 }, { c: "a", w: 1 }, { c: null, w: 1 },
+        { c: "c", w: 0 }, { c: "d", w: Number.NaN }, { c: "e", w: 1 },
+    ];
+
+    it("counts skipped items by reason", () => {
+        const res = computeCategoricalHistogram({ data: rows, x: r => r.c, weight: r => r.w });
+        expect(res.categories).toEqual(["a", "b", "e"]);
+        expect(res.totalWeight).toBe(5);
+        expect(res.dropped).toMatchObject({ total: 3, null: 1, nonPositiveWeight: 1, invalidWeight: 1 });
+        expect(res.diagnostics).toContainEqual(expect.objectContaining({ code: "values-dropped", severity: "info" }));
+    });
+
+    it("skips items whose accessor throws", () => {
+        const res = computeCategoricalHistogram({
+            data: rows,
+            x: r => { if (r.c === "b") throw new Error("boom"); return r.c; },
+        });
+        expect(res.categories).toEqual(["a", "c", "d", "e"]);
+        expect(res.dropped).toMatchObject({ accessorError: 1, null: 1, total: 2 });
+    });
+
+    it("reports no data and a colliding other label as diagnostics", () => {
+        expect(computeCategoricalHistogram({ data: [null, undefined] }).diagnostics?.map(d => d.code)).toContain("no-data");
+
+        const res = computeCategoricalHistogram({ data: ["Other", "a", "a", "b", "c"], top: 1 });
+        expect(res.diagnostics).toContainEqual(expect.objectContaining({ code: "category-label-collision", details: { label: "Other" } }));
+        expect(res.warnings).toEqual(res.diagnostics?.map(d => d.message));
+    });
+
+    it("validates options and throws in strict mode", () => {
+        const res = computeCategoricalHistogram({ data: ["a"], top: -1 });
+        expect(res.diagnostics).toContainEqual(expect.objectContaining({ code: "invalid-option", details: expect.objectContaining({ path: "top" }) }));
+        expect(() => computeCategoricalHistogram({ data: ["a"], top: -1, strict: true })).toThrow(HistogramConfigError);
+    });
+});
@@ -0,0 +1,138 @@
+// src/core/categorical.ts
+import { diagnostic, drop, droppedDiagnostic, noDropped, report, weightProblem } from "./diagnostics.js";
+import { noData } from "./engine.helpers.js";
+import { checkCategoricalConfig } from "./validate.js";
+import type {
+    CategoricalHistogramConfig,
+    CategoricalHistogramResult,
+    CategoryBin,
+    CategoryOrder,
+    HistogramDiagnostic
+} from "./types.js";
+
+interface Category {
+    key: string;
+    count: number;
+    items: number[];
+    first: number;
+}
+
+/**
+ * Counts weighted occurrences of discrete categories (strings, or numbers/booleans used as labels).
+ *
+ * Bins are ordered by `order` and, with `top`, the remaining categories are folded into a trailing
+ * "other" bin. Bin `i` occupies the unit slot [i, i + 1], so `count`, `percent` and the cumulative
+ * fields read exactly like numeric bins; `density` is the weight share per slot.
+ *
+ * Items with a null/undefined or NaN category, an invalid weight, or a throwing accessor are skipped
+ * and counted in `dropped`, as in `computeHistogram`.
+ *
+ * @throws HistogramConfigError with `strict: true` when the config is invalid.
+ */
+export function computeCategoricalHistogram<T>(cfg: CategoricalHistogramConfig<T>): CategoricalHistogramResult<T> {
+    const problems = checkCategoricalConfig(cfg);
+    const { data, x, weight, order = "count", top, otherLabel = "Other", measure } = cfg;
+    const byKey = new Map<string, Category>();
+    const dropped = noDropped();
+    let n = 0, totalW = 0;
+
+    for (let i = 0, len = data.length; i < len; i++) {
+        const d = data[i] as T;
+        let v: string | number | boolean | null | undefined, w: unknown;
+        try {
+            v = x ? x(d, i) : (d as unknown as string | number | boolean | null | undefined);
+            if (v == null) { drop(dropped, "null"); continue; }
+            if (typeof v === "number" && Number.isNaN(v)) { drop(dropped, "nan"); continue; }
+
+            w = typeof weight === "number" ? weight : weight ? weight(d, i) : 1;
+            const wp = weightProblem(w);
+            if (wp) { drop(dropped, wp); continue; }
+        } catch {
+            drop(dropped, "accessorError");
+            continue;
+        }
+
+        const key = String(v);
+        let c = byKey.get(key);
+        if (!c) byKey.set(key, c = { key, count: 0, items: [], first: i });
+        c.count += w as number;
+        c.items.push(n);
+        n++;
+        totalW += w as number;
+    }
+
+    const skipped = droppedDiagnostic(dropped);
+    const warnings: HistogramDiagnostic[] = skipped ? [...problems, skipped] : [...problems];
+    if (n === 0) {
+        return report<CategoricalHistogramResult<T>>({ bins: [], categories: [], n: 0, totalWeight: 0, dropped }, [noData(), ...warnings]);
+    }
+
+    const sorted = Array.from(byKey.values()).sort(comparator(order));
+    let kept = sorted;
+    let folded: Category[] = [];
+
+    if (top != null) {
+        const k = Math.max(0, Math.floor(top));
+        if (k < sorted.length) {
+            kept = sorted.slice(0, k);
+            folded = sorted.slice(k);
+        }
+        if (folded.length > 0 && byKey.has(otherLabel)) {
+            warnings.push(diagnostic(
+                "category-label-collision",
+                `Category "${otherLabel}" collides with the other-bucket label; both are reported separately.`,
+                { label: otherLabel }
+            ));
+        }
+    }
+
+    const slots: Array<{ key: string; count: number; items: number[]; other: boolean }> = kept.map(c => ({ ...c, other: false }));
+    if (folded.length > 0) {
+        slots.push({
+            key: otherLabel,
+            count: folded.reduce((s, c) => s + c.count, 0),
+            items: folded.flatMap(c => c.items).sort((a, b) => a - b),
+            other: true,
+        });
+    }
+
+    let cum = 0;
+    const bins = slots.map((c, i): CategoryBin<T> => {
+        cum += c.count;
+        const b: CategoryBin<T> = {
+            index: i,
+            key: c.key,
+            start: i,
+            end: i + 1,
+            center: i + 0.5,
+            width: 1,
+            count: c.count,
+            percent: (c.count / totalW) * 100,
+            density: c.count / totalW,
+            items: c.items,
+        };
+        if (c.other) b.other = true;
+        if (measure?.startsWith("cumulative")) {
+            b.cumulativeCount = cum;
+            b.cumulativePercent = (cum / totalW) * 100;
+            b.cumulativeDensity = cum / totalW;
+        }
+        return b;
+    });
+
+    return report<CategoricalHistogramResult<T>>({ bins, categories: sorted.map(c => c.key), n, totalWeight: totalW, dropped }, warnings);
+}
+
+function comparator(order: CategoryOrder): (a: Category, b: Category) => number {
+    if (typeof order === "function") return (a, b) => order(a, b) || a.first - b.first;
+    switch (order) {
+        case "key": return (a, b) => compareKeys(a.key, b.key);
+        case "input": return (a, b) => a.first - b.first;
+        default: return (a, b) => b.count - a.count || a.first - b.first;
+    }
+}
+
+/** Numeric-aware key order, so "2" sorts before "10" (HTTP status codes, retry counts). */
+function compareKeys(a: string, b: string) {
+    return a.localeCompare(b, undefined, { numeric: true });
+}
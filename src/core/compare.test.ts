@@ -0,0 +1,39 @@
+// src/core/compare.test.ts
+import { describe, expect, it } from "vitest";
+import { compareHistograms } from "./compare.js";
+import { computeHistogram } from "./engine.js";
+
+describe("compareHistograms", () => {
+    const data = Array.from({ length: 200 }, (_, i) => (i * 37) % 100);
+
+    it("reports no drift between identical histograms", () => {
+        const h = computeHistogram({ data, binning: { mode: "binCount", binCount: 10 } });
+        const drift = compareHistograms(h, h);
+        expect(drift.psi).toBeCloseTo(0, 12);
+        expect(drift.jsDivergence).toBeCloseTo(0, 12);
+        expect(drift.wasserstein).toBeCloseTo(0, 12);
+        expect(drift.bins.every(b => b.delta === 0)).toBe(true);
+        expect(drift.diagnostics).toEqual([]);
+    });
+
+    it("redistributes counts onto the baseline bins by overlap", () => {
+        const baseline = computeHistogram({ data, domain: [0, 100], binning: { mode: "binCount", binCount: 4 } });
+        const current = computeHistogram({ data, domain: [0, 100], binning: { mode: "binCount", binCount: 2 } });
+        const drift = compareHistograms(baseline, current);
+        expect(drift.bins.map(b => b.current)).toEqual([50, 50, 50, 50]);
+        expect(drift.psi).toBeCloseTo(0, 12);
+    });
+
+    it("splits a bin straddling both ends of the targets between the outermost bins", () => {
+        const baseline = computeHistogram({ data: [20, 40, 60, 80], domain: [20, 80], binning: { mode: "binCount", binCount: 3 } });
+        // One bin [0, 120] holding 120: 20 below the targets, 40 above, 60 inside.
+        const current = computeHistogram({ data: Array.from({ length: 120 }, (_, i) => i), domain: [0, 120], binning: { mode: "binCount", binCount: 1 } });
+        const drift = compareHistograms(baseline, current);
+
+        expect(drift.bins.map(b => b.current)).toEqual([40, 20, 60]);
+        expect(drift.diagnostics).toEqual([expect.objectContaining({
+            code: "compare-weight-clamped",
+            details: { histogram: "current", weight: 60 },
+        })]);
+    });
+});
@@ -0,0 +1,206 @@
+// src/core/compare.ts
+import { diagnostic, report } from "./diagnostics.js";
+import { chiSquarePValue, ksPValue } from "./special.js";
+import type {
+    CompareOptions,
+    HistogramBin,
+    HistogramDiagnostic,
+    HistogramComparison,
+    HistogramComparisonBin,
+    HistogramResult
+} from "./types.js";
+
+type Interval = Pick<HistogramBin, "start" | "end">;
+
+/**
+ * Compares two histograms (typically a training baseline and a current window) bin by bin and with
+ * summary drift metrics.
+ *
+ * Both histograms are first aligned onto common bins: the baseline's bins by default, the union of both
+ * edge sets with `align: "union"`, or explicit edges. When edges differ, counts are redistributed assuming
+ * a uniform spread within each source bin; unbounded tail bins move as a whole with their finite edge.
+ *
+ * Metrics use proportions of each histogram's binned weight. PSI, KL and the ratios add `smoothing` to every
+ * proportion (then renormalize) so empty bins stay finite; Jensen–Shannon needs no smoothing. All logarithms
+ * are natural. Chi-square and KS treat weights as frequencies and, being computed from bins, the KS distance
+ * is evaluated at the edges only.
+ */
+export function compareHistograms<T, U>(
+    baseline: HistogramResult<T>,
+    current: HistogramResult<U>,
+    options: CompareOptions = {}
+): HistogramComparison {
+    const warnings: HistogramDiagnostic[] = [];
+    const eps = options.smoothing ?? 1e-4;
+
+    const targets = alignment(baseline.bins, current.bins, options.align ?? "baseline");
+    const a = sameIntervals(baseline.bins, targets) ? baseline.bins.map(b => b.count) : redistribute(baseline.bins, targets, "baseline", warnings);
+    const b = sameIntervals(current.bins, targets) ? current.bins.map(b => b.count) : redistribute(current.bins, targets, "current", warnings);
+
+    const k = targets.length;
+    const totalA = sum(a), totalB = sum(b);
+    if (k === 0 || !(totalA > 0) || !(totalB > 0)) {
+        throw new RangeError("Cannot compare histograms without binned weight.");
+    }
+
+    const p = a.map(v => v / totalA);
+    const q = b.map(v => v / totalB);
+    const ps = smooth(p, eps);
+    const qs = smooth(q, eps);
+
+    const bins: HistogramComparisonBin[] = targets.map((t, i) => ({
+        index: i,
+        start: t.start,
+        end: t.end,
+        baseline: a[i]!,
+        current: b[i]!,
+        baselinePercent: p[i]! * 100,
+        currentPercent: q[i]! * 100,
+        delta: (q[i]! - p[i]!) * 100,
+        ratio: qs[i]! / ps[i]!,
+    }));
+
+    let psi = 0, kl = 0, js = 0;
+    for (let i = 0; i < k; i++) {
+        psi += (qs[i]! - ps[i]!) * Math.log(qs[i]! / ps[i]!);
+        kl += qs[i]! * Math.log(qs[i]! / ps[i]!);
+        const m = (p[i]! + q[i]!) / 2;
+        if (p[i]! > 0) js += 0.5 * p[i]! * Math.log(p[i]! / m);
+        if (q[i]! > 0) js += 0.5 * q[i]! * Math.log(q[i]! / m);
+    }
+
+    return report<HistogramComparison>({
+        bins,
+        psi,
+        klDivergence: kl,
+        jsDivergence: Math.max(0, js),
+        wasserstein: wasserstein(targets, p, q),
+        chiSquare: homogeneity(a, b),
+        ks: twoSampleKs(p, q, baseline.stats.n, current.stats.n),
+        warnings: [],
+        diagnostics: [],
+    }, warnings);
+}
+
+function alignment(a: ReadonlyArray<Interval>, b: ReadonlyArray<Interval>, align: NonNullable<CompareOptions["align"]>): Interval[] {
+    if (align === "baseline" && a.length > 0) return a.map(({ start, end }) => ({ start, end }));
+
+    const finite = new Set<number>();
+    const source = Array.isArray(align) ? [] : align === "union" ? [...a, ...b] : b;
+    for (const t of source) {
+        if (Number.isFinite(t.start)) finite.add(t.start);
+        if (Number.isFinite(t.end)) finite.add(t.end);
+    }
+    if (Array.isArray(align)) for (const e of align) if (Number.isFinite(e)) finite.add(e);
+
+    const edges = Array.from(finite).sort((x, y) => x - y);
+    const out: Interval[] = [];
+    const lowerTail = [...a, ...b].some(t => t.start === Number.NEGATIVE_INFINITY);
+    const upperTail = [...a, ...b].some(t => t.end === Number.POSITIVE_INFINITY);
+    if (lowerTail && edges.length > 0) out.push({ start: Number.NEGATIVE_INFINITY, end: edges[0]! });
+    for (let i = 1; i < edges.length; i++) out.push({ start: edges[i - 1]!, end: edges[i]! });
+    if (upperTail && edges.length > 0) out.push({ start: edges[edges.length - 1]!, end: Number.POSITIVE_INFINITY });
+    return out;
+}
+
+function sameIntervals(bins: ReadonlyArray<Interval>, targets: ReadonlyArray<Interval>) {
+    return bins.length === targets.length && bins.every((b, i) => b.start === targets[i]!.start && b.end === targets[i]!.end);
+}
+
+/**
+ * Spreads each source bin's count over the target intervals in proportion to overlap. Mass that falls
+ * outside every target is clamped into the outermost target on its side and reported once.
+ */
+function redistribute(bins: ReadonlyArray<HistogramBin<unknown>>, targets: Interval[], name: "baseline" | "current", warnings: HistogramDiagnostic[]) {
+    const out = new Array<number>(targets.length).fill(0);
+    const lo = targets[0]!.start, hi = targets[targets.length - 1]!.end;
+    let clamped = 0;
+
+    const place = (x: number, c: number) => {
+        let i = targets.findIndex(t => x >= t.start && x < t.end);
+        if (i < 0) { i = x < lo ? 0 : targets.length - 1; if (x < lo || x > hi) clamped += c; }
+        out[i]! += c;
+    };
+
+    for (const b of bins) {
+        if (!(b.count > 0)) continue;
+        const width = b.end - b.start;
+        if (!Number.isFinite(width) || !(width > 0)) {
+            // Unbounded (or degenerate) bins move with their finite edge; an upper tail sits just past it.
+            place(Number.isFinite(b.start) ? b.start : b.end - Number.EPSILON * Math.max(1, Math.abs(b.end)), b.count);
+            continue;
+        }
+        let assigned = 0;
+        targets.forEach((t, i) => {
+            const overlap = Math.min(b.end, t.end) - Math.max(b.start, t.start);
+            if (overlap > 0) { const c = b.count * overlap / width; out[i]! += c; assigned += c; }
+        });
+        const rest = b.count - assigned;
+        if (rest > b.count * 1e-12) {
+            // Part of the bin lies outside every target: clamp each side's share into the nearer end.
+            const below = Math.max(0, Math.min(b.end, lo) - b.start), above = Math.max(0, b.end - Math.max(b.start, hi));
+            const under = below + above > 0 ? rest * below / (below + above) : 0;
+            if (under > 0) place(lo - 1, under);
+            if (rest - under > 0) place(hi + 1, rest - under);
+        }
+    }
+
+    if (clamped > 0) {
+        warnings.push(diagnostic(
+            "compare-weight-clamped",
+            `${name}: weight ${clamped} outside the common bins was clamped into the outermost bins.`,
+            { histogram: name, weight: clamped }
+        ));
+    }
+    return out;
+}
+
+function smooth(p: number[], eps: number) {
+    const z = 1 + eps * p.length;
+    return p.map(v => (v + eps) / z);
+}
+
+/** Earth mover's distance between the two binned distributions, with uniform mass inside finite bins. */
+function wasserstein(targets: Interval[], p: number[], q: number[]) {
+    let fp = 0, fq = 0, w = 0;
+    for (let i = 0; i < targets.length; i++) {
+        const d0 = fp - fq;
+        fp += p[i]!; fq += q[i]!;
+        const d1 = fp - fq;
+        const width = targets[i]!.end - targets[i]!.start;
+        if (!Number.isFinite(width)) continue;
+        // ∫|linear from d0 to d1| over the bin, splitting at the zero crossing.
+        w += d0 * d1 >= 0 ? width * (Math.abs(d0) + Math.abs(d1)) / 2
+            : width * (d0 * d0 + d1 * d1) / (2 * (Math.abs(d0) + Math.abs(d1)));
+    }
+    return w;
+}
+
+function homogeneity(a: number[], b: number[]) {
+    const ta = sum(a), tb = sum(b), total = ta + tb;
+    let statistic = 0, used = 0;
+    for (let i = 0; i < a.length; i++) {
+        const row = a[i]! + b[i]!;
+        if (!(row > 0)) continue;
+        used++;
+        const ea = row * ta / total, eb = row * tb / total;
+        statistic += (a[i]! - ea) ** 2 / ea + (b[i]! - eb) ** 2 / eb;
+    }
+    const df = used - 1;
+    return { statistic, pValue: df > 0 ? chiSquarePValue(statistic, df) : Number.NaN, df };
+}
+
+function twoSampleKs(p: number[], q: number[], n: number, m: number) {
+    let fp = 0, fq = 0, d = 0;
+    for (let i = 0; i < p.length; i++) {
+        fp += p[i]!; fq += q[i]!;
+        d = Math.max(d, Math.abs(fp - fq));
+    }
+    return { statistic: d, pValue: n > 0 && m > 0 ? ksPValue(d, (n * m) / (n + m)) : Number.NaN };
+}
+
+function sum(xs: number[]) {
+    let s = 0;
+    for (const x of xs) s += x;
+    return s;
+}
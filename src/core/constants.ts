@@ -4,3 +4,7 @@
 export const RIGHT_CLOSED_EPS = 1e-12; // tolerance for right-closed edge inclusion
 export const WIDTH_EPS = Number.EPSILON; // minimal safe bin width
 export const MAX_BINS = 10_000; // defensive upper bound on number of bins
+export const MAX_CELLS_2D = 1_000_000; // defensive upper bound on the number of 2-D histogram cells
+export const MAX_SEARCH_BINS = 1_000; // largest bin count tried by the Knuth and Shimazaki–Shinomoto searches
+export const MAX_BLOCK_CELLS = 4_000; // Bayesian Blocks cells; more distinct values are pre-binned to this many
+export const MAD_TO_SD = 1.4826; // scales the MAD to estimate σ for normal data
@@ -0,0 +1,52 @@
+// src/core/csv.test.ts
+import { describe, expect, it } from "vitest";
+import { binFieldValues, histogramToCSV } from "./csv.js";
+import { computeHistogram } from "./engine.js";
+
+describe("histogramToCSV", () => {
+    const data = [1, 2, 2, 3, 3, 3, 4];
+    const binning = { mode: "binWidth", binWidth: 1 } as const;
+
+    it("writes index, edges and the default fields", () => {
+        const r = computeHistogram({ data, domain: [1, 4], binning });
+        expect(histogramToCSV(r)).toBe(
+            "index,start,end,count,percent,density\n"
+            + `0,1,2,1,${(1 / 7) * 100},${1 / 7}\n`
+            + `1,2,3,2,${(2 / 7) * 100},${2 / 7}\n`
+            + `2,3,4,4,${(4 / 7) * 100},${4 / 7}\n`
+        );
+    });
+
+    it("derives cumulative columns the way a cumulative measure computes them", () => {
+        const fields = ["cumulativeCount", "cumulativePercent", "cumulativeDensity"] as const;
+        const plain = computeHistogram({ data, weight: (_, i) => i + 1, binning });
+        const measured = (m: "cumulative-count" | "cumulative-percent" | "cumulative-density") =>
+            computeHistogram({ data, weight: (_, i) => i + 1, binning, measure: m }).bins;
+
+        const derived = fields.map(f => binFieldValues(plain.bins, f, plain.stats.totalWeight));
+        expect(derived[0]).toEqual(measured("cumulative-count").map(b => b.cumulativeCount));
+        derived[1]!.forEach((v, i) => expect(v).toBeCloseTo(measured("cumulative-percent")[i]!.cumulativePercent!, 12));
+        derived[2]!.forEach((v, i) => expect(v).toBeCloseTo(measured("cumulative-density")[i]!.cumulativeDensity!, 12));
+        expect(derived[1]![derived[1]!.length - 1]).toBeCloseTo(100, 12);
+
+        const csv = histogramToCSV(plain, { fields: ["count", "cumulativeCount"], delimiter: ";" });
+        expect(csv.split("\n").slice(0, 2)).toEqual(["index;start;end;count;cumulativeCount", `0;1;${plain.bins[0]!.end};${plain.bins[0]!.count};${plain.bins[0]!.count}`]);
+    });
+
+    it("quotes group keys holding the delimiter, quotes or line breaks and writes open edges", () => {
+        const keys = ["a,b", 'say "hi"', "two\nlines"];
+        const r = computeHistogram({
+            data: [0, 1, 2, 5],
+            domain: [0.5, 1.5],
+            overflow: true,
+            groupBy: (_, i) => keys[i % 3],
+            binning: { mode: "binCount", binCount: 1 },
+        });
+        expect(histogramToCSV(r, { groups: true, fields: ["count"] })).toBe(
+            "group,index,start,end,count\n"
+            + '"a,b",0,-Infinity,0.5,1\n"a,b",1,0.5,1.5,0\n"a,b",2,1.5,Infinity,1\n'
+            + '"say ""hi""",0,-Infinity,0.5,0\n"say ""hi""",1,0.5,1.5,1\n"say ""hi""",2,1.5,Infinity,0\n'
+            + '"two\nlines",0,-Infinity,0.5,0\n"two\nlines",1,0.5,1.5,0\n"two\nlines",2,1.5,Infinity,1\n'
+        );
+    });
+});
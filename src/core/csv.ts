@@ -0,0 +1,63 @@
+// src/core/csv.ts
+import type { BinField, CsvOptions, HistogramBin, HistogramResult } from "./types.js";
+
+const DEFAULT_FIELDS: BinField[] = ["count", "percent", "density"];
+
+/**
+ * Values of `field` for each bin. Cumulative fields are taken from the bins when the result was
+ * computed with a cumulative measure, otherwise derived with the same definitions (running count,
+ * its percent of `totalWeight`, and its fraction of `totalWeight`).
+ */
+export function binFieldValues(bins: ReadonlyArray<HistogramBin<unknown>>, field: BinField, totalWeight: number): number[] {
+    if (bins.every(b => b[field] !== undefined)) return bins.map(b => b[field]!);
+
+    let cum = 0;
+    return bins.map(b => {
+        cum += b.count;
+        if (field === "cumulativeCount") return cum;
+        if (field === "cumulativePercent") return totalWeight > 0 ? (cum / totalWeight) * 100 : 0;
+        return totalWeight > 0 ? cum / totalWeight : 0;
+    });
+}
+
+/**
+ * Writes the bins as CSV: `index,start,end`, then `labelStart,labelEnd` under time binning, then one
+ * column per field. Open edges are written as `-Infinity`/`Infinity`. Rows end with "\n"; text cells are
+ * quoted when they contain the delimiter, a quote or a line break.
+ */
+export function histogramToCSV<T>(result: HistogramResult<T>, options: CsvOptions = {}): string {
+    const fields = options.fields ?? DEFAULT_FIELDS;
+    const sep = options.delimiter ?? ",";
+    const sets = options.groups
+        ? (result.groups ?? []).map(g => ({ key: g.key, bins: g.bins, total: g.stats.totalWeight }))
+        : [{ key: null, bins: result.bins, total: result.stats.totalWeight }];
+    const labelled = sets.some(s => s.bins.some(b => b.labels));
+
+    const cell = (v: string | number) => {
+        const s = String(v);
+        return /["\r\n]/.test(s) || s.includes(sep) ? `"${s.replace(/"/g, '""')}"` : s;
+    };
+
+    const header = [
+        ...(options.groups ? ["group"] : []),
+        "index", "start", "end",
+        ...(labelled ? ["labelStart", "labelEnd"] : []),
+        ...fields,
+    ];
+    const lines = [header.map(cell).join(sep)];
+
+    for (const { key, bins, total } of sets) {
+        const columns = fields.map(f => binFieldValues(bins, f, total));
+        bins.forEach((b, i) => {
+            const row: (string | number)[] = [
+                ...(key !== null ? [key] : []),
+                b.index, b.start, b.end,
+                ...(labelled ? [b.labels?.start ?? "", b.labels?.end ?? ""] : []),
+                ...columns.map(c => c[i]!),
+            ];
+            lines.push(row.map(cell).join(sep));
+        });
+    }
+
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,86 @@
+// src/core/diagnostics.ts
+import type {
+    DiagnosticCode,
+    DiagnosticDetailsMap,
+    DiagnosticSeverity,
+    DroppedCounts,
+    HistogramDiagnostic
+} from "./types.js";
+
+/** Builds a diagnostic; most codes are warnings, so that is the default severity. */
+export function diagnostic<C extends DiagnosticCode>(
+    code: C,
+    message: string,
+    details: DiagnosticDetailsMap[C],
+    severity: DiagnosticSeverity = "warning"
+): HistogramDiagnostic {
+    return { code, severity, message, details } as HistogramDiagnostic;
+}
+
+/**
+ * Sets `diagnostics` and the derived `warnings` messages on a result. Call again after appending,
+ * since `warnings` is a snapshot.
+ */
+export function report<R extends { warnings?: ReadonlyArray<string>; diagnostics?: ReadonlyArray<HistogramDiagnostic> }>(
+    result: R,
+    diagnostics: HistogramDiagnostic[]
+): R {
+    result.diagnostics = diagnostics;
+    result.warnings = diagnostics.map(d => d.message);
+    return result;
+}
+
+/** Keeps the first of each code/message pair, preserving order. */
+export function uniqueDiagnostics(...lists: ReadonlyArray<HistogramDiagnostic>[]) {
+    const seen = new Set<string>();
+    const out: HistogramDiagnostic[] = [];
+    for (const list of lists) {
+        for (const d of list) {
+            const key = `${d.code}\u0000${d.message}`;
+            if (!seen.has(key)) { seen.add(key); out.push(d); }
+        }
+    }
+    return out;
+}
+
+export function noDropped(): DroppedCounts {
+    return { total: 0, null: 0, nonNumeric: 0, nan: 0, infinite: 0, invalidWeight: 0, nonPositiveWeight: 0, accessorError: 0 };
+}
+
+export function addDropped(a: DroppedCounts, b: DroppedCounts): DroppedCounts {
+    const out = noDropped();
+    for (const k of Object.keys(out) as (keyof DroppedCounts)[]) out[k] = a[k] + b[k];
+    return out;
+}
+
+/** Counts one skipped item under `reason`. */
+export function drop(counts: DroppedCounts, reason: Exclude<keyof DroppedCounts, "total">) {
+    counts[reason]++;
+    counts.total++;
+}
+
+/** Reason a value is rejected, or null when it is a finite number. */
+export function valueProblem(v: unknown): "null" | "nonNumeric" | "nan" | "infinite" | null {
+    if (v == null) return "null";
+    if (typeof v !== "number") return "nonNumeric";
+    if (Number.isNaN(v)) return "nan";
+    return Number.isFinite(v) ? null : "infinite";
+}
+
+/** Reason a weight is rejected, or null when it is finite and positive. */
+export function weightProblem(w: unknown): "invalidWeight" | "nonPositiveWeight" | null {
+    if (typeof w !== "number" || !Number.isFinite(w)) return "invalidWeight";
+    return w > 0 ? null : "nonPositiveWeight";
+}
+
+const REASONS: [Exclude<keyof DroppedCounts, "total">, string][] = [
+    ["null", "null"], ["nonNumeric", "non-numeric"], ["nan", "NaN"], ["infinite", "infinite"],
+    ["invalidWeight", "invalid weight"], ["nonPositiveWeight", "non-positive weight"], ["accessorError", "accessor threw"],
+];
+
+/** An info diagnostic summarizing skipped items, or null when nothing was skipped. */
+export function droppedDiagnostic(counts: DroppedCounts): HistogramDiagnostic | null {
+    if (counts.total === 0) return null;
+    const parts = REASONS.filter(([k]) => counts[k] > 0).map(([k, label]) => `${counts[k]} ${label}`);
+    return diagnostic("values-dropped", `Skipped ${counts.total} item(s): ${parts.join(", ")}.`, { ...counts }, "info");
+}
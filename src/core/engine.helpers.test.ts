@@ -0,0 +1,120 @@
+// src/core/engine.helpers.test.ts
+import { describe, expect, it } from "vitest";
+import { MAD_TO_SD } from "./constants.js";
+import { computeHistogram } from "./engine.js";
+import { extractValuesAndWeights, resolveDomain } from "./engine.helpers.js";
+import type { DomainStrategy } from "./types.js";
+
+const codes = (ds: ReadonlyArray<{ code: string }> | undefined) => (ds ?? []).map(d => d.code);
+
+describe("resolveDomain with a DomainStrategy", () => {
+    // 1..20 between one low and one doubly weighted high outlier; median 11.5, MAD 6, Q1 6.25, Q3 16.75
+    const data = [-50, ...Array.from({ length: 20 }, (_, i) => i + 1), 200];
+    const weight = (v: number) => v === 200 ? 2 : 1;
+    const run = (domain: DomainStrategy) => computeHistogram({ data, weight, domain, binning: { mode: "binCount", binCount: 4 } });
+
+    it("trims to weighted quantiles", () => {
+        const r = run({ mode: "quantile", lower: 0.05, upper: 0.95 });
+        expect(r.domain[0]).toBeCloseTo(2.05, 9);
+        expect(r.domain[1]).toBeCloseTo(191, 9);
+        expect(r.clipped).toEqual({ below: { count: 3, weight: 3 }, above: { count: 1, weight: 2 } });
+    });
+
+    it("trims to median ± k·MAD and Tukey's fences", () => {
+        const mad = run({ mode: "mad" });
+        expect(mad.domain[0]).toBeCloseTo(11.5 - 3 * MAD_TO_SD * 6, 9);
+        expect(mad.domain[1]).toBeCloseTo(11.5 + 3 * MAD_TO_SD * 6, 9);
+        expect(run({ mode: "tukey" }).domain).toEqual([-9.5, 32.5]);
+        expect(run({ mode: "tukey", k: 0 }).domain).toEqual([6.25, 16.75]);
+        for (const r of [mad, run({ mode: "tukey" })]) {
+            expect(r.clipped).toEqual({ below: { count: 1, weight: 1 }, above: { count: 1, weight: 2 } });
+        }
+    });
+
+    it("routes clipped points to the under/overflow bins and reports them as info", () => {
+        const r = run({ mode: "tukey" });
+        expect(r.bins).toHaveLength(6);
+        expect(r.bins[0]!.count).toBe(1);
+        expect(r.bins[5]!.count).toBe(2);
+        expect(r.diagnostics).toEqual([{
+            code: "domain-clipped",
+            severity: "info",
+            message: "Robust domain [-9.5, 32.5] clipped 1 point(s) below and 1 above.",
+            details: { below: { count: 1, weight: 1 }, above: { count: 1, weight: 2 } },
+        }]);
+    });
+
+    it("keeps the observed range when nothing lies outside the bounds", () => {
+        const r = computeHistogram({ data: [1, 2, 3, 4, 5], domain: { mode: "mad", k: 10 } });
+        expect(r.domain).toEqual([1, 5]);
+        expect(r.clipped).toEqual({ below: { count: 0, weight: 0 }, above: { count: 0, weight: 0 } });
+        expect(r.diagnostics).toEqual([]);
+        expect(computeHistogram({ data: [1, 2, 3, 4, 5], domain: [0, 4] }).clipped).toBeUndefined();
+    });
+
+    it("falls back to the observed range when the strategy has no spread", () => {
+        const r = computeHistogram({ data: [1, 5, 5, 5, 5, 5, 9], domain: { mode: "mad" }, binning: { mode: "binCount", binCount: 4 } });
+        expect(r.domain).toEqual([1, 9]);
+        expect(r.diagnostics!.map(d => [d.code, d.details])).toEqual([
+            ["domain-robust-fallback", { mode: "mad", domain: [1, 9] }],
+        ]);
+        expect(resolveDomain({ mode: "tukey" }, 2, 8)).toEqual([2, 8, []]);
+    });
+});
+
+describe("extractValuesAndWeights with typed columns", () => {
+    it("drops NaN and infinite values and counts them", () => {
+        const values = new Float64Array([1, NaN, 2, Infinity, -Infinity, 3]);
+        const e = extractValuesAndWeights({ data: values });
+        expect(Array.from(e.xs)).toEqual([1, 2, 3]);
+        expect(Array.from(e.ws)).toEqual([1, 1, 1]);
+        expect(e.borrowed).toBe(false);
+        expect(e.dropped).toMatchObject({ total: 3, nan: 1, infinite: 2 });
+
+        const r = computeHistogram({ data: values });
+        expect(r.dropped).toEqual(e.dropped);
+        expect(codes(r.diagnostics)).toContain("values-dropped");
+    });
+
+    it("borrows clean columns without copying", () => {
+        const values = new Float32Array([1, 2, 3]);
+        const weights = new Float64Array([0.5, 1, 2]);
+        const e = extractValuesAndWeights({ data: { values, weights } });
+        expect(e.borrowed).toBe(true);
+        expect(e.xs).toBe(values);
+        expect(e.ws).toBe(weights);
+    });
+
+    it("ignores the extra entries when the weights have the wrong length", () => {
+        const values = new Float64Array([1, 2, 3, 4]);
+        const short = extractValuesAndWeights({ data: { values, weights: new Float64Array([1, 2]) } });
+        expect(Array.from(short.xs)).toEqual([1, 2]);
+        expect(Array.from(short.ws)).toEqual([1, 2]);
+        expect(short.borrowed).toBe(false);
+        expect(short.warnings.map(w => [w.code, w.details])).toEqual([["weights-length-mismatch", { values: 4, weights: 2 }]]);
+
+        const long = extractValuesAndWeights({ data: { values, weights: new Float64Array([1, 0, 2, 3, 9, 9]) } });
+        expect(Array.from(long.xs)).toEqual([1, 3, 4]);
+        expect(Array.from(long.ws)).toEqual([1, 2, 3]);
+        expect(long.dropped).toMatchObject({ total: 1, nonPositiveWeight: 1 });
+        expect(long.warnings[0]!.details).toEqual({ values: 4, weights: 6 });
+    });
+
+    it("bins columns like the equivalent objects with accessors", () => {
+        const rows = Array.from({ length: 60 }, (_, i) => ({ v: ((i * 37) % 60) / 6 - 2, w: i % 4 === 3 ? 0 : 1 + (i % 5) / 2 }));
+        rows[7]!.v = NaN; // weight 0 too; the value problem is the one counted
+        const binning = { mode: "binCount", binCount: 8 } as const;
+        const columns = computeHistogram({
+            data: { values: Float64Array.from(rows, r => r.v), weights: Float64Array.from(rows, r => r.w) },
+            binning,
+            uncertainty: true,
+        });
+        const objects = computeHistogram({ data: rows, x: r => r.v, weight: r => r.w, binning, uncertainty: true });
+
+        expect(columns.domain).toEqual(objects.domain);
+        expect(columns.bins).toEqual(objects.bins);
+        expect(columns.stats).toEqual(objects.stats);
+        expect(columns.dropped).toEqual(objects.dropped);
+        expect(columns.dropped).toMatchObject({ total: 15, nan: 1, nonPositiveWeight: 14 });
+    });
+});
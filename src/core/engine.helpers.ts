@@ -1,54 +1,270 @@
 // src/core/engine.helpers.ts
-import { buildEdges, chooseBinWidth } from "./binning.js";
-import { MAX_BINS, WIDTH_EPS } from "./constants.js";
-import type { HistogramBin, HistogramLogicConfig } from "./types.js";
+import {
+  alignedBinCount,
+  autoBinWidth,
+  bayesianBlockEdges,
+  buildEdges,
+  chooseBinWidth,
+  nextNiceWidth,
+  niceEdges,
+  niceWidth,
+  niceWidthForCount,
+  normalizeEdges,
+  quantileEdges
+} from "./binning.js";
+import { MAD_TO_SD, MAX_BINS, WIDTH_EPS } from "./constants.js";
+import { diagnostic, drop, droppedDiagnostic, noDropped, report, valueProblem, weightProblem } from "./diagnostics.js";
+import { weightedQuantiles } from "./stats.js";
+import { floorTime, formatTime, isValidTimeZone, nextTime, NOMINAL_MS, pickTimeInterval } from "./time.js";
+import { binUncertainty, type UncertaintyContext } from "./uncertainty.js";
+import type {
+  BinningReport,
+  DomainClipping,
+  DomainStrategy,
+  DroppedCounts,
+  HistogramBin,
+  HistogramDiagnostic,
+  HistogramColumns,
+  HistogramLogicConfig,
+  HistogramResult,
+  NumericAccessor,
+  NumericTypedArray,
+  QuantileMethod,
+  TimeInterval
+} from "./types.js";
 
 export interface Extracted {
-  xs: number[];
-  ws: number[];
-  warnings: string[];
+  xs: ArrayLike<number>;
+  ws: ArrayLike<number>;
+  warnings: HistogramDiagnostic[];
+  /** True when `xs`/`ws` alias caller-owned typed arrays (zero-copy path); they must not be mutated or transferred. */
+  borrowed: boolean;
+  /** Group key per extracted value when `groupBy` is set; null for values outside every group. */
+  groups?: (string | null)[];
+  /** Profile variable per extracted value when `profile` is set; NaN where y is missing or non-finite. */
+  ys?: number[];
+  /** Original item per extracted value when `sample` is set (array input only; typed arrays are their own rows). */
+  rows?: unknown[];
+  /** Items skipped, by reason. */
+  dropped: DroppedCounts;
 }
 
 export function extractValuesAndWeights<T>(cfg: HistogramLogicConfig<T>): Extracted {
-  const { data, x, weight } = cfg;
+  const { data, x, weight, groupBy, profile, sample } = cfg;
+
+  if (isNumericTypedArray(data)) return extractColumns(data, undefined, cfg);
+  if (isColumns(data)) return extractColumns(data.values, data.weights, cfg);
+
   const xs: number[] = [];
   const ws: number[] = [];
-  const warnings: string[] = [];
+  const groups: (string | null)[] | undefined = groupBy ? [] : undefined;
+  const ys: number[] | undefined = profile ? [] : undefined;
+  const rows: unknown[] | undefined = sample ? [] : undefined;
+  const warnings: HistogramDiagnostic[] = [];
+  const dropped = noDropped();
+  const items = (Array.isArray(data) ? data : []) as ReadonlyArray<unknown>;
 
-  const isNum = typeof (data as any)[0] === "number";
-  if (!isNum && !x) warnings.push("Non-numeric data provided without an accessor 'x'. All items will be ignored.");
+  if (!x) {
+      let first: unknown;
+      for (let i = 0; i < items.length && first == null; i++) first = items[i];
+      if (first != null && typeof first !== "number" && !(first instanceof Date)) {
+          warnings.push(diagnostic("non-numeric-data", "Non-numeric data provided without an accessor 'x'. All items will be ignored.", {}));
+      }
+  }
 
-  for (let i = 0, len = data.length; i < len; i++) {
-      const v = isNum ? (data as unknown as number[])[i] : x?.(data[i] as T, i);
-      if (v == null || !isFinite(v)) continue;
+  for (let i = 0, len = items.length; i < len; i++) {
+      const d = items[i];
+      let v: unknown, w: unknown, key: string | null = null;
+      try {
+          v = toNumber((x ? x(d as T, i) : d) as number | Date | null | undefined);
+          const vp = valueProblem(v);
+          if (vp) { drop(dropped, vp); continue; }
 
-      const w = typeof weight === "number" ? weight : weight ? weight(data[i] as T, i) : 1;
-      if (!isFinite(w as number) || (w as number) <= 0) continue;
+          w = typeof weight === "number" ? weight : weight ? weight(d as T, i) : 1;
+          const wp = weightProblem(w);
+          if (wp) { drop(dropped, wp); continue; }
+
+          if (groups) key = groupKey(groupBy!(d as T, i));
+      } catch {
+          drop(dropped, "accessorError");
+          continue;
+      }
 
       xs.push(v as number);
-      ws.push(Number(w));
+      ws.push(w as number);
+      if (groups) groups.push(key);
+      if (ys) ys.push(profileValue(profile!.y, d as T, i));
+      if (rows) rows.push(d);
   }
 
-  return { xs, ws, warnings };
+  const out = withExtras({ xs, ws, warnings, borrowed: false, dropped }, groups, ys);
+  if (rows) out.rows = rows;
+  return out;
+}
+
+function groupKey(g: string | number | boolean | null | undefined) {
+  return g == null ? null : String(g);
+}
+
+/** Profile y, or NaN when it is missing, non-finite or the accessor throws (those items keep counting in the bins). */
+function profileValue<T>(y: NumericAccessor<T>, d: T, i: number) {
+  try {
+      const v = toNumber(y(d, i));
+      return typeof v === "number" && isFinite(v) ? v : NaN;
+  } catch {
+      return NaN;
+  }
+}
+
+function withExtras(out: Extracted, groups: (string | null)[] | undefined, ys: number[] | undefined): Extracted {
+  const summary = droppedDiagnostic(out.dropped);
+  if (summary) out.warnings.push(summary);
+  if (groups) out.groups = groups;
+  if (ys) out.ys = ys;
+  return out;
 }
 
+/**
+ * Typed-array path: no per-element accessor calls for values. When every value (and weight) is valid,
+ * the caller's arrays are used as-is; otherwise valid entries are compacted into one pair of `Float64Array`s.
+ */
+function extractColumns<T>(
+  values: NumericTypedArray,
+  weights: NumericTypedArray | undefined,
+  cfg: HistogramLogicConfig<T>
+): Extracted {
+  const warnings: HistogramDiagnostic[] = [];
+  const dropped = noDropped();
+  const { weight, groupBy, profile } = cfg;
+  let n = values.length;
+
+  if (cfg.x) warnings.push(diagnostic("accessor-ignored", "Accessor 'x' is ignored for typed-array input.", { accessor: "x" }));
+  if (weights && weights.length !== n) {
+      warnings.push(diagnostic(
+          "weights-length-mismatch",
+          `Weights length (${weights.length}) differs from values length (${n}); extra entries are ignored.`,
+          { values: n, weights: weights.length }
+      ));
+      n = Math.min(n, weights.length);
+  }
+
+  // Accessors receive the value as the datum. Weight and group accessors are resolved up front;
+  // entries whose accessor threw are dropped.
+  const threw = new Set<number>();
+  const guard = <R>(i: number, f: () => R, fallback: R) => {
+      try { return f(); } catch { threw.add(i); return fallback; }
+  };
+
+  let ws: ArrayLike<number> | null = weights ?? null;
+  if (!ws && typeof weight === "function") {
+      const computed = new Float64Array(n);
+      for (let i = 0; i < n; i++) computed[i] = guard(i, () => Number(weight(values[i] as unknown as T, i) ?? NaN), NaN);
+      ws = computed;
+  }
+  const constW = typeof weight === "number" ? weight : 1;
+
+  let keys: (string | null)[] | undefined;
+  if (groupBy) {
+      keys = new Array<string | null>(n);
+      for (let i = 0; i < n; i++) keys[i] = guard(i, () => groupKey(groupBy(values[i] as unknown as T, i)), null);
+  }
+
+  let valid = 0;
+  for (let i = 0; i < n; i++) {
+      const reason = valueProblem(values[i]) ?? (threw.has(i) ? "accessorError" : weightProblem(ws ? ws[i] : constW));
+      if (reason) drop(dropped, reason); else valid++;
+  }
+
+  const ys: number[] | undefined = profile ? [] : undefined;
+
+  if (valid === n && n === values.length && (!weights || n === weights.length)) {
+      if (ys) for (let i = 0; i < n; i++) ys.push(profileValue(profile!.y, values[i] as unknown as T, i));
+      return withExtras(
+          { xs: values, ws: ws ?? new Float64Array(n).fill(constW), warnings, borrowed: true, dropped }, keys, ys
+      );
+  }
+
+  const xs = new Float64Array(valid);
+  const out = new Float64Array(valid);
+  const groups: (string | null)[] | undefined = keys ? [] : undefined;
+  for (let i = 0, j = 0; i < n; i++) {
+      const v = values[i]!;
+      const w = ws ? ws[i]! : constW;
+      if (!isFinite(v) || !isFinite(w) || w <= 0 || threw.has(i)) continue;
+      xs[j] = v; out[j] = w; j++;
+      if (groups) groups.push(keys![i]!);
+      if (ys) ys.push(profileValue(profile!.y, v as unknown as T, i));
+  }
+
+  return withExtras({ xs, ws: out, warnings, borrowed: false, dropped }, groups, ys);
+}
+
+/** Reads accessor output as a number; dates become epoch milliseconds. */
+export function toNumber(v: number | Date | null | undefined): number | null | undefined {
+  return v instanceof Date ? v.getTime() : v;
+}
+
+export function isNumericTypedArray(data: unknown): data is NumericTypedArray {
+  return ArrayBuffer.isView(data) && !(data instanceof DataView)
+      && !(data instanceof BigInt64Array) && !(data instanceof BigUint64Array);
+}
+
+export function isColumns(data: unknown): data is HistogramColumns {
+  return !!data && typeof data === "object" && !Array.isArray(data)
+      && isNumericTypedArray((data as HistogramColumns).values);
+}
+
+/** The values and summary a robust `DomainStrategy` is computed from. */
+export interface DomainSample {
+  xs: ArrayLike<number>;
+  ws: ArrayLike<number>;
+  median: number;
+  q1: number;
+  q3: number;
+  mad: number;
+  quantileMethod?: QuantileMethod | undefined;
+}
+
+export function isDomainStrategy(domain: HistogramLogicConfig["domain"]): domain is DomainStrategy {
+  return !!domain && !Array.isArray(domain);
+}
+
+/**
+ * Resolves the configured domain against the observed extrema. A `DomainStrategy` needs `sample`;
+ * without one, or when the strategy has no spread, it falls back to the observed min/max.
+ */
 export function resolveDomain(
   domain: HistogramLogicConfig["domain"],
   observedMin: number,
-  observedMax: number
-): [number, number, string[]] {
-  const warnings: string[] = [];
+  observedMax: number,
+  sample?: DomainSample
+): [number, number, HistogramDiagnostic[]] {
+  const warnings: HistogramDiagnostic[] = [];
   let d0: number, d1: number;
 
-  if (domain) {
+  if (isDomainStrategy(domain)) {
+      [d0, d1] = sample ? robustBounds(domain, sample) : [observedMin, observedMax];
+      d0 = Math.max(d0, observedMin);
+      d1 = Math.min(d1, observedMax);
+      if (!(d1 > d0) && observedMax > observedMin) {
+          warnings.push(diagnostic(
+              "domain-robust-fallback",
+              `The ${domain.mode} domain has no spread; falling back to observed min/max.`,
+              { mode: domain.mode, domain: [observedMin, observedMax] }
+          ));
+      }
+      if (!(d1 > d0)) { d0 = observedMin; d1 = observedMax; }
+  } else if (domain) {
       d0 = domain[0];
       d1 = domain[1];
       if (!Number.isFinite(d0) || !Number.isFinite(d1)) {
-          warnings.push("Provided domain contains non-finite values; falling back to observed min/max.");
+          warnings.push(diagnostic(
+              "domain-non-finite", "Provided domain contains non-finite values; falling back to observed min/max.", { domain: [d0, d1] }
+          ));
           d0 = observedMin; d1 = observedMax;
       }
       if (d0 > d1) {
-          warnings.push("Provided domain was reversed; it has been normalized to [min, max].");
+          warnings.push(diagnostic("domain-reversed", "Provided domain was reversed; it has been normalized to [min, max].", { domain: [d0, d1] }));
           const tmp = d0; d0 = d1; d1 = tmp;
       }
   } else {
@@ -57,40 +273,257 @@ export function resolveDomain(
 
   if (d0 === d1) {
       const eps = d0 === 0 ? 1 : Math.abs(d0) * 1e-6;
-      warnings.push("Zero-width domain encountered; expanded symmetrically by a small epsilon.");
+      warnings.push(diagnostic(
+          "domain-degenerate", "Zero-width domain encountered; expanded symmetrically by a small epsilon.", { value: d0, epsilon: eps }
+      ));
       d0 -= eps; d1 += eps;
   }
 
   return [d0, d1, warnings];
 }
 
+/** Unclipped bounds of a robust strategy; invalid options yield NaN so the caller falls back. */
+function robustBounds(strategy: DomainStrategy, s: DomainSample): [number, number] {
+  switch (strategy.mode) {
+      case "quantile": {
+          const [lo, hi] = weightedQuantiles(s.xs, s.ws, [strategy.lower ?? 0.01, strategy.upper ?? 0.99], s.quantileMethod ?? 7);
+          return [lo!, hi!];
+      }
+      case "mad": {
+          const r = (strategy.k ?? 3) * MAD_TO_SD * s.mad;
+          return [s.median - r, s.median + r];
+      }
+      case "tukey": {
+          const r = (strategy.k ?? 1.5) * (s.q3 - s.q1);
+          return [s.q1 - r, s.q3 + r];
+      }
+      default:
+          return [NaN, NaN];
+  }
+}
+
+/** Count and weight of the values strictly below `d0` and strictly above `d1`. */
+export function clippedOutside(xs: ArrayLike<number>, ws: ArrayLike<number>, d0: number, d1: number): DomainClipping {
+  const below = { count: 0, weight: 0 };
+  const above = { count: 0, weight: 0 };
+  for (let i = 0; i < xs.length; i++) {
+      const v = xs[i]!;
+      const w = ws[i]!;
+      if (!(w > 0)) continue;
+      if (v < d0) { below.count++; below.weight += w; }
+      else if (v > d1) { above.count++; above.weight += w; }
+  }
+  return { below, above };
+}
+
+/** The info diagnostic for points outside a robust domain, or null when nothing was clipped. */
+export function clippedDiagnostic(clipped: DomainClipping, d0: number, d1: number): HistogramDiagnostic | null {
+  const { below, above } = clipped;
+  if (below.count === 0 && above.count === 0) return null;
+  return diagnostic(
+      "domain-clipped",
+      `Robust domain [${d0}, ${d1}] clipped ${below.count} point(s) below and ${above.count} above.`,
+      clipped,
+      "info"
+  );
+}
+
+export interface BinningPlan {
+  h: number;
+  edges: number[];
+  uniform: boolean;
+  binWarnings: HistogramDiagnostic[];
+  /** Per-edge labels (time binning only). */
+  labels?: string[];
+  report: BinningReport;
+}
+
 export function computeBinningPlan(
   d0: number,
   d1: number,
   n: number,
   iqr: number,
   sd: number,
-  binning: HistogramLogicConfig["binning"]
-) {
-  const warnings: string[] = [];
+  binning: HistogramLogicConfig["binning"],
+  values?: { xs: ArrayLike<number>; ws: ArrayLike<number> }
+): BinningPlan {
+  const warnings: HistogramDiagnostic[] = [];
   const range = d1 - d0;
 
-  let h = chooseBinWidth(range, n, iqr, sd, binning ?? { mode: "auto", rule: "fd" });
+  if (binning?.mode === "time") {
+      let timeZone = binning.timeZone ?? "UTC";
+      if (!isValidTimeZone(timeZone)) {
+          warnings.push(diagnostic("unknown-time-zone", `Unknown time zone "${timeZone}"; using UTC.`, { timeZone }));
+          timeZone = "UTC";
+      }
+
+      let interval: TimeInterval, step: number;
+      if (!binning.interval || binning.interval === "auto") {
+          ({ interval, step } = pickTimeInterval(chooseBinWidth(range, n, iqr, sd, { mode: "auto", rule: "fd" })));
+      } else {
+          interval = binning.interval;
+          step = Math.max(1, Math.round(binning.step ?? 1));
+      }
+
+      const estimate = Math.ceil(range / (step * NOMINAL_MS[interval])) + 1;
+      if (estimate > MAX_BINS) {
+          const adjusted = step * Math.ceil(estimate / MAX_BINS);
+          warnings.push(diagnostic(
+              "max-bins-exceeded",
+              `Bin count (~${estimate}) exceeds MAX_BINS (${MAX_BINS}); increasing ${interval} step from ${step} to ${adjusted}.`,
+              { bins: estimate, limit: MAX_BINS, step: adjusted }
+          ));
+          step = adjusted;
+      }
+
+      // Half-open calendar periods: the last edge lies strictly after the domain end.
+      const edges = [floorTime(d0, interval, step, timeZone)];
+      while (edges[edges.length - 1]! <= d1) edges.push(nextTime(edges[edges.length - 1]!, interval, step, timeZone));
+
+      const labels = edges.map(t => formatTime(t, interval, timeZone));
+      return planOf(edges, narrowestWidth(edges), false, warnings, { mode: "time" }, labels);
+  }
+
+  if (binning?.mode === "edges") {
+      const { edges, warnings: edgeWarnings } = normalizeEdges(binning.edges);
+      warnings.push(...edgeWarnings);
+      if (edges) {
+          if (edges.length - 1 > MAX_BINS) {
+              warnings.push(diagnostic(
+                  "max-bins-exceeded",
+                  `Explicit edges define ${edges.length - 1} bins, exceeding MAX_BINS (${MAX_BINS}); rendering may be slow.`,
+                  { bins: edges.length - 1, limit: MAX_BINS }
+              ));
+          }
+          return planOf(edges, narrowestWidth(edges), false, warnings, { mode: "edges" });
+      }
+      warnings.push(diagnostic("edges-insufficient", "Explicit edges need at least two distinct values; falling back to auto binning.", {}));
+      binning = { mode: "auto" };
+  }
+
+  if (binning?.mode === "quantile") {
+      let k = Math.max(1, Math.floor(binning.count));
+      if (!Number.isFinite(k) || k > MAX_BINS) {
+          warnings.push(diagnostic(
+              "max-bins-exceeded", `Quantile bin count (${binning.count}) exceeds MAX_BINS (${MAX_BINS}); clamping.`,
+              { bins: binning.count, limit: MAX_BINS }
+          ));
+          k = MAX_BINS;
+      }
+      const edges = quantileEdges(d0, d1, k, values?.xs ?? [], values?.ws ?? []);
+      if (edges.length - 1 < k) {
+          warnings.push(diagnostic(
+              "quantile-ties", `Quantile binning merged tied edges; produced ${edges.length - 1} of ${k} requested bins.`,
+              { requested: k, produced: edges.length - 1 }
+          ));
+      }
+      return planOf(edges, narrowestWidth(edges), false, warnings, { mode: "quantile" });
+  }
+
+  if (binning?.mode === "bayesianBlocks") {
+      const edges = bayesianBlockEdges(d0, d1, values?.xs ?? [], values?.ws ?? [], binning.p0);
+      return planOf(edges, narrowestWidth(edges), false, warnings, { mode: "bayesianBlocks" });
+  }
+
+  if (binning?.mode === "integer") {
+      if (binning.width != null && !(Number.isInteger(binning.width) && binning.width >= 1)) {
+          warnings.push(diagnostic("integer-width-rounded", `Integer bin width ${binning.width} is not a positive integer; rounding.`, { width: binning.width }));
+      }
+      let h = chooseBinWidth(range, n, iqr, sd, binning);
+      // Edges sit halfway between integers, so whole numbers never land on an edge.
+      const start = Math.round(d0) - 0.5;
+      let k = Math.max(1, Math.ceil((d1 - start) / h));
+      if (k > MAX_BINS) {
+          const adjustedH = Math.ceil((d1 - start) / MAX_BINS);
+          warnings.push(diagnostic(
+              "max-bins-exceeded", `Bin count (${k}) exceeds MAX_BINS (${MAX_BINS}); increasing bin width from ${h} to ${adjustedH}.`,
+              { bins: k, limit: MAX_BINS, binWidth: adjustedH }
+          ));
+          h = adjustedH;
+          k = Math.max(1, Math.ceil((d1 - start) / h));
+      }
+      return planOf(buildEdges(start, start + k * h, h), h, true, warnings, { mode: "integer" });
+  }
+
+  let detail: Partial<BinningReport> = {};
+  let h: number;
+  if (!binning || binning.mode === "auto") {
+      const requested = binning?.rule ?? "fd";
+      const auto = autoBinWidth(range, n, iqr, sd, requested, values && { ...values, start: d0 });
+      h = auto.h;
+      detail = { requestedRule: requested, rule: auto.rule, candidates: auto.candidates, fallbacks: auto.fallbacks };
+      if (auto.fallbacks.length > 0) {
+          const reasons = auto.fallbacks.map(f => `"${f.rule}": ${f.reason}`).join("; ");
+          warnings.push(diagnostic(
+              "bin-rule-fallback", `Binning rule fallback (${reasons}); using "${auto.rule}".`,
+              { requested, used: auto.rule, fallbacks: auto.fallbacks }, "info"
+          ));
+      }
+  } else {
+      h = chooseBinWidth(range, n, iqr, sd, binning);
+  }
   h = Math.max(WIDTH_EPS, h);
 
+  if (binning?.nice) {
+      if (binning.mode === "binCount") h = niceWidthForCount(d0, d1, binning.binCount);
+      else if (binning.mode === "auto") h = niceWidth(h);
+
+      const k = alignedBinCount(d0, d1, h);
+      if (k > MAX_BINS) {
+          const from = h;
+          h = niceWidth(range / MAX_BINS);
+          while (alignedBinCount(d0, d1, h) > MAX_BINS) h = nextNiceWidth(h);
+          warnings.push(diagnostic(
+              "max-bins-exceeded", `Bin count (${k}) exceeds MAX_BINS (${MAX_BINS}); increasing bin width from ${from} to ${h}.`,
+              { bins: k, limit: MAX_BINS, binWidth: h }
+          ));
+      }
+
+      // Rounded edges are not exactly evenly spaced in floating point; binary search keeps values on an
+      // edge in the bin the printed edges say.
+      return planOf(niceEdges(d0, d1, h), h, false, warnings, { mode: binning.mode, ...detail });
+  }
+
   let k = Math.max(1, Math.ceil(range / h));
   if (k > MAX_BINS) {
       const adjustedH = range / MAX_BINS;
-      warnings.push(`Bin count (${k}) exceeds MAX_BINS (${MAX_BINS}); increasing bin width from ${h} to ${adjustedH}.`);
+      warnings.push(diagnostic(
+          "max-bins-exceeded", `Bin count (${k}) exceeds MAX_BINS (${MAX_BINS}); increasing bin width from ${h} to ${adjustedH}.`,
+          { bins: k, limit: MAX_BINS, binWidth: adjustedH }
+      ));
       h = Math.max(WIDTH_EPS, adjustedH);
       k = MAX_BINS;
   }
 
   const edges = buildEdges(d0, d1, h);
-  return { h, edges, binWarnings: warnings };
+  return planOf(edges, h, true, warnings, { mode: binning?.mode ?? "auto", ...detail });
+}
+
+function planOf(
+  edges: number[],
+  h: number,
+  uniform: boolean,
+  warnings: HistogramDiagnostic[],
+  report: Omit<BinningReport, "binWidth" | "bins">,
+  labels?: string[]
+): BinningPlan {
+  const plan: BinningPlan = { h, edges, uniform, binWarnings: warnings, report: { ...report, binWidth: h, bins: edges.length - 1 } };
+  if (labels) plan.labels = labels;
+  return plan;
 }
 
-export function resolveOverflowFlags(overflow: HistogramLogicConfig["overflow"]) {
+function narrowestWidth(edges: number[]) {
+  let h = Number.POSITIVE_INFINITY;
+  for (let i = 1; i < edges.length; i++) {
+      const w = edges[i]! - edges[i - 1]!;
+      if (Number.isFinite(w) && w < h) h = w;
+  }
+  return Number.isFinite(h) ? Math.max(WIDTH_EPS, h) : 1;
+}
+
+/** Resolves the under/overflow slots; a robust domain enables both unless `overflow` is set. */
+export function resolveOverflowFlags(overflow: HistogramLogicConfig["overflow"], domain?: HistogramLogicConfig["domain"]) {
+  if (overflow === undefined && isDomainStrategy(domain)) return { under: true, over: true };
   return {
       under: typeof overflow === "boolean" ? overflow : !!overflow?.underflow,
       over: typeof overflow === "boolean" ? overflow : !!overflow?.overflow,
@@ -105,26 +538,35 @@ export function buildBins<T>(
   under: boolean,
   over: boolean,
   totalW: number,
-  measure: HistogramLogicConfig["measure"]
+  measure: HistogramLogicConfig["measure"],
+  labels?: string[],
+  errors?: { sumW2: number[]; ctx: UncertaintyContext } | null
 ): HistogramBin<T>[] {
   const k = counts.length;
   const bins: HistogramBin<T>[] = new Array(k);
+  const last = edges.length - 1;
+  const offset = under ? 1 : 0;
 
-  const widths: number[] = new Array(k);
-  for (let i = 0, elen = edges.length; i < k; i++) {
-    widths[i] = i < elen - 1 ? (edges[i + 1]! - edges[i]!) : h;
-  }
+  // Regular bins use their own width (possibly unequal or infinite); tail slots use the nominal width `h`.
+  const tailWidth = Math.max(h, WIDTH_EPS);
+  const regularWidth = (j: number) => {
+    const w = edges[j + 1]! - edges[j]!;
+    return w > 0 ? w : tailWidth;
+  };
 
   let cum = 0;
   for (let i = 0; i < k; i++) {
-  const start = i === 0 && under ? Number.NEGATIVE_INFINITY : edges[Math.max(0, i - (under ? 1 : 0))]!;
-  const end = i === k - 1 && over ? Number.POSITIVE_INFINITY : edges[Math.min(edges.length - 1, i + 1 - (under ? 1 : 0))]!;
-  const w = widths[Math.max(0, i - (under ? 1 : 0))]!;
-      const widthEff = isFinite(w) && w > 0 ? w : Math.max(h, WIDTH_EPS);
+      const j = i - offset;
+      const isUnder = under && i === 0;
+      const isOver = over && i === k - 1;
+
+      const start = isUnder ? Number.NEGATIVE_INFINITY : edges[Math.min(j, last)]!;
+      const end = isOver ? Number.POSITIVE_INFINITY : edges[Math.min(j + 1, last)]!;
+      const widthEff = isUnder || isOver ? tailWidth : regularWidth(j);
 
-  const count = counts[i]!;
+      const count = counts[i]!;
       const percent = (count / totalW) * 100;
-      const density = count / (totalW * widthEff);
+      const density = Number.isFinite(widthEff) ? count / (totalW * widthEff) : 0;
 
       cum += count;
 
@@ -132,14 +574,21 @@ export function buildBins<T>(
           index: i,
           start,
           end,
-      center: isFinite(start) && isFinite(end) ? (start + end) / 2 : (isFinite(start) ? start : end),
+          center: isFinite(start) && isFinite(end) ? (start + end) / 2 : (isFinite(start) ? start : end),
           width: widthEff,
           count,
           percent,
           density,
-      items: items[i]!,
+          items: items[i]!,
       };
 
+      if (labels && !isUnder && !isOver) b.labels = { start: labels[j]!, end: labels[j + 1]! };
+
+      if (errors) {
+          b.sumW2 = errors.sumW2[i]!;
+          b.uncertainty = binUncertainty(count, b.sumW2, widthEff, errors.ctx);
+      }
+
       if (measure?.startsWith("cumulative")) {
           b.cumulativeCount = cum;
           b.cumulativePercent = (cum / totalW) * 100;
@@ -151,3 +600,17 @@ export function buildBins<T>(
 
   return bins;
 }
+
+export function emptyResult<T>(extraWarnings?: HistogramDiagnostic[]): HistogramResult<T> {
+  return report<HistogramResult<T>>({
+      bins: [], domain: [0, 1], binWidth: 1,
+      stats: {
+          n: 0, totalWeight: 0, min: 0, max: 1, mean: 0, variance: 0, sd: 0, iqr: 0,
+          median: 0, q1: 0, q3: 0, mad: 0, skewness: 0, kurtosis: 0, effectiveN: 0
+      },
+  }, [noData(), ...(extraWarnings ?? [])]);
+}
+
+export function noData() {
+  return diagnostic("no-data", "No valid data", {});
+}
@@ -1,64 +1,210 @@
 // src/core/engine.ts
 import { accumulate } from "./assign.js";
+import { diagnostic, report } from "./diagnostics.js";
 import {
     buildBins,
+    clippedDiagnostic,
+    clippedOutside,
     computeBinningPlan,
+    emptyResult,
     extractValuesAndWeights,
+    isDomainStrategy,
     resolveDomain,
     resolveOverflowFlags
 } from "./engine.helpers.js";
-import { summarize } from "./stats.js";
-import type { HistogramLogicConfig, HistogramResult } from "./types.js";
+import { attachSamples, dropPackedItems, remapPacked, workingStorage } from "./items.js";
+import { estimateDensity } from "./kde.js";
+import { attachProfiles, type ProfileInput } from "./profile.js";
+import { effectiveSize, summarize } from "./stats.js";
+import { resolveUncertainty } from "./uncertainty.js";
+import { checkConfig } from "./validate.js";
+import type { HistogramDiagnostic, HistogramGroup, HistogramLogicConfig, HistogramResult } from "./types.js";
 
 /**
  * Orchestrator: computes a weighted histogram using pure helper functions.
+ *
+ * @throws HistogramConfigError with `strict: true` when the config has invalid options.
  */
 export function computeHistogram<T>(cfg: HistogramLogicConfig<T>): HistogramResult<T> {
-    const { xs, ws, warnings } = extractValuesAndWeights(cfg);
+    const problems = checkConfig(cfg);
+    const { xs, ws, warnings, groups, ys, rows, dropped } = extractValuesAndWeights(cfg);
 
-    if (xs.length === 0) return empty(warnings) as HistogramResult<T>;
+    const result = computeFromValues<T>(
+        xs, ws, cfg, [...problems, ...warnings], groups, profileInput(cfg, ys), (rows ?? xs) as ArrayLike<T>
+    );
+    result.dropped = dropped;
+    return result;
+}
+
+/**
+ * Runs the numeric pipeline on already extracted finite values and positive weights.
+ *
+ * Only the non-accessor fields of `cfg` are read, so this is the entry point for worker threads,
+ * which receive plain columns (and extracted group keys and profile values) instead of the original items.
+ * `sample` needs the original items as `rows`; without them bins keep the membership the caller
+ * needs to sample later.
+ */
+export function computeFromValues<T>(
+    xs: ArrayLike<number>,
+    ws: ArrayLike<number>,
+    cfg: NumericHistogramOptions,
+    warnings: HistogramDiagnostic[] = [],
+    groups?: ReadonlyArray<string | null>,
+    profile?: ProfileInput,
+    rows?: ArrayLike<T>
+): HistogramResult<T> {
+    if (xs.length === 0) return emptyResult<T>(warnings);
+
+    const items = workingStorage(cfg.items, !!profile || !!cfg.sample);
+    const options = { ...cfg, items };
 
-    const s = summarize(xs, ws);
-    const [d0, d1, domainWarnings] = resolveDomain(cfg.domain, s.min!, s.max!);
+    const plan = planHistogram(xs, ws, cfg, warnings);
+    const result = binWithPlan<T>(plan, xs, ws, options, warnings);
+    if (result.bins.length === 0) return result;
+
+    if (groups) result.groups = binGroups<T>(plan, xs, ws, groups, options);
+
+    if (profile) {
+        let missing = 0;
+        for (let i = 0; i < profile.ys.length; i++) if (!Number.isFinite(profile.ys[i]!)) missing++;
+        if (missing > 0) {
+            warnings.push(diagnostic(
+                "profile-missing-y",
+                `${missing} value(s) have no finite profile y; they count in the bins but not in the profiles.`,
+                { count: missing }
+            ));
+        }
+
+        attachProfiles(result, profile, ws, cfg);
+        for (const g of result.groups ?? []) attachProfiles(g, profile, ws, cfg);
+    }
+
+    if (cfg.sample && rows) attachSamples(result, rows, ws, cfg.sample);
+    if (cfg.items === "none" && (rows || !cfg.sample)) dropPackedItems(result);
+
+    if (cfg.kde) {
+        result.kde = estimateDensity(xs, ws, plan.s, result.domain, cfg.kde === true ? {} : cfg.kde, warnings);
+    }
+
+    return report(result, warnings);
+}
+
+/** Config fields read by the numeric pipeline (everything except data and accessors). */
+export type NumericHistogramOptions = Omit<HistogramLogicConfig, "data" | "x" | "weight" | "groupBy" | "profile">;
+
+/** Pairs extracted profile values with the config's `profile.median` flag. */
+export function profileInput<T>(cfg: HistogramLogicConfig<T>, ys: ArrayLike<number> | undefined): ProfileInput | undefined {
+    return cfg.profile && ys ? { ys, median: cfg.profile.median ?? false } : undefined;
+}
+
+export type HistogramPlan = ReturnType<typeof planHistogram>;
+
+/**
+ * Summarizes non-empty values and resolves domain, edges and overflow slots; warnings are appended to `warnings`.
+ */
+export function planHistogram(
+    xs: ArrayLike<number>,
+    ws: ArrayLike<number>,
+    cfg: NumericHistogramOptions,
+    warnings: HistogramDiagnostic[]
+) {
+    const s = summarize(xs, ws, cfg);
+    const [d0, d1, domainWarnings] = resolveDomain(cfg.domain, s.min, s.max, { xs, ws, ...s, quantileMethod: cfg.quantileMethod });
     warnings.push(...domainWarnings);
 
-    const { h, edges, binWarnings } = computeBinningPlan(d0, d1, xs.length, s.iqr, s.sd, cfg.binning);
+    const { h, edges, uniform, binWarnings, labels, report } = computeBinningPlan(d0, d1, xs.length, s.iqr, s.sd, cfg.binning, { xs, ws });
     warnings.push(...binWarnings);
 
-    const { under, over } = resolveOverflowFlags(cfg.overflow);
+    const { under, over } = resolveOverflowFlags(cfg.overflow, cfg.domain);
+    const robust = isDomainStrategy(cfg.domain);
+
+    return { s, h, edges, uniform, labels, under, over, rule: cfg.edgeRule ?? "closed-right", binning: report, robust };
+}
+
+/**
+ * Accumulates values into a resolved plan and assembles the result.
+ */
+export function binWithPlan<T>(
+    plan: HistogramPlan,
+    xs: ArrayLike<number>,
+    ws: ArrayLike<number>,
+    options: Pick<NumericHistogramOptions, "measure" | "uncertainty" | "items">,
+    warnings: HistogramDiagnostic[]
+): HistogramResult<T> {
+    const { s, h, edges, uniform, labels, under, over, rule, binning, robust } = plan;
 
-    const { counts, items } = accumulate(xs, ws, edges[0]!, h, edges, cfg.edgeRule ?? "closed-right", under, over);
+    const { counts, sumW2, items, packed } = accumulate(xs, ws, edges, rule, under, over, uniform, options.items);
     const totalW = s.totalWeight;
 
     if (!(totalW > 0)) {
-        warnings.push("Total weight is zero after filtering; returning empty histogram.");
-        return empty(warnings) as HistogramResult<T>;
+        warnings.push(diagnostic("zero-total-weight", "Total weight is zero after filtering; returning empty histogram.", {}));
+        return emptyResult<T>(warnings);
     }
 
-    const bins = buildBins<T>(counts, items, edges, h, under, over, totalW, cfg.measure);
+    const ctx = resolveUncertainty(options.uncertainty, xs.length, totalW, s.moments.w2);
+    const bins = buildBins<T>(counts, items, edges, h, under, over, totalW, options.measure, labels, ctx && { sumW2, ctx });
+
+    const d0 = edges[0]!, d1 = edges[edges.length - 1]!;
+    const clipped = robust ? clippedOutside(xs, ws, d0, d1) : undefined;
+    const note = clipped && clippedDiagnostic(clipped, d0, d1);
+    if (note) warnings.push(note);
 
-    return {
+    return report<HistogramResult<T>>({
         bins,
         domain: [d0, d1],
         binWidth: h,
         stats: {
             n: xs.length,
             totalWeight: totalW,
-            min: s.min!,
-            max: s.max!,
+            min: s.min,
+            max: s.max,
             mean: s.mean,
             variance: s.variance,
             sd: s.sd,
-            iqr: s.iqr
+            iqr: s.iqr,
+            median: s.median,
+            q1: s.q1,
+            q3: s.q3,
+            mad: s.mad,
+            skewness: s.skewness,
+            kurtosis: s.kurtosis,
+            effectiveN: effectiveSize(s.moments),
+            ...(s.quantiles ? { quantiles: s.quantiles } : {})
         },
-        warnings,
-    };
+        binning,
+        ...(clipped ? { clipped } : {}),
+        ...(packed ? { packedItems: packed } : {}),
+    }, warnings);
 }
 
-function empty(extraWarnings?: string[]): HistogramResult<unknown> {
-    return {
-        bins: [], domain: [0, 1], binWidth: 1,
-        stats: { n: 0, totalWeight: 0, min: 0, max: 1, mean: 0, variance: 0, sd: 0, iqr: 0 },
-        warnings: ["No valid data", ...(extraWarnings ?? [])],
-    };
+/**
+ * Bins each group's values with the shared plan. Group stats are summarized from the group's own values;
+ * item indices refer to the overall (filtered) values, like the overall bins.
+ */
+function binGroups<T>(
+    plan: HistogramPlan,
+    xs: ArrayLike<number>,
+    ws: ArrayLike<number>,
+    groups: ReadonlyArray<string | null>,
+    cfg: NumericHistogramOptions
+): HistogramGroup<T>[] {
+    const members = new Map<string, number[]>();
+    for (let i = 0; i < groups.length; i++) {
+        const key = groups[i];
+        if (key == null) continue;
+        let ids = members.get(key);
+        if (!ids) members.set(key, ids = []);
+        ids.push(i);
+    }
+
+    return Array.from(members, ([key, ids]) => {
+        const gx = new Float64Array(ids.length);
+        const gw = new Float64Array(ids.length);
+        ids.forEach((id, j) => { gx[j] = xs[id]!; gw[j] = ws[id]!; });
+
+        const r = binWithPlan<T>({ ...plan, s: summarize(gx, gw, cfg) }, gx, gw, cfg, []);
+        const bins = r.bins.map(b => ({ ...b, items: b.items.map(j => ids[j]!) }));
+
+        return { key, bins, stats: r.stats, ...(r.packedItems ? { packedItems: remapPacked(r.packedItems, ids) } : {}) };
+    });
 }
@@ -0,0 +1,144 @@
+// src/core/engine2d.ts
+import { locate, slotOf } from "./assign.js";
+import { MAX_CELLS_2D } from "./constants.js";
+import { diagnostic, drop, droppedDiagnostic, noDropped, report, valueProblem, weightProblem } from "./diagnostics.js";
+import { binWithPlan, planHistogram, type HistogramPlan } from "./engine.js";
+import { emptyResult, noData, toNumber } from "./engine.helpers.js";
+import { HistogramConfigError } from "./errors.js";
+import { validateConfig } from "./validate.js";
+import type {
+    Histogram2DConfig,
+    Histogram2DResult,
+    HistogramAxisConfig,
+    HistogramCell,
+    HistogramDiagnostic
+} from "./types.js";
+
+/**
+ * Computes a weighted two-dimensional histogram (heatmap binning).
+ *
+ * Each axis is planned independently with the same rules as `computeHistogram` (binning, domain,
+ * edge rule, under/overflow). Items with a non-finite `x` or `y`, or an invalid weight, are skipped
+ * and counted in `dropped`. The marginal histograms use the same edges as the grid, so `x.bins[ix]`
+ * and `y.bins[iy]` describe the column and row of `cells[iy * nx + ix]`.
+ *
+ * @throws HistogramConfigError with `strict: true` when an axis config is invalid.
+ */
+export function computeHistogram2D<T>(cfg: Histogram2DConfig<T>): Histogram2DResult<T> {
+    const { data, x, y, weight } = cfg;
+    const xs: number[] = [];
+    const ys: number[] = [];
+    const ws: number[] = [];
+    const dropped = noDropped();
+
+    const warnings: HistogramDiagnostic[] = [
+        ...validateConfig(cfg.xAxis ?? {}).map(d => ({ ...d, axis: "x" as const })),
+        ...validateConfig(cfg.yAxis ?? {}).map(d => ({ ...d, axis: "y" as const })),
+    ];
+    if (cfg.strict && warnings.length > 0) throw new HistogramConfigError(warnings);
+
+    for (let i = 0, len = data.length; i < len; i++) {
+        const d = data[i] as T;
+        let vx: unknown, vy: unknown, w: unknown;
+        try {
+            vx = toNumber(x(d, i));
+            vy = toNumber(y(d, i));
+            w = typeof weight === "number" ? weight : weight ? weight(d, i) : 1;
+        } catch {
+            drop(dropped, "accessorError");
+            continue;
+        }
+
+        const problem = valueProblem(vx) ?? valueProblem(vy) ?? weightProblem(w);
+        if (problem) { drop(dropped, problem); continue; }
+
+        xs.push(vx as number); ys.push(vy as number); ws.push(w as number);
+    }
+
+    const skipped = droppedDiagnostic(dropped);
+    if (skipped) warnings.push(skipped);
+
+    if (xs.length === 0) {
+        return report<Histogram2DResult<T>>(
+            { cells: [], nx: 0, ny: 0, x: emptyResult<T>(), y: emptyResult<T>(), dropped },
+            [noData(), ...warnings]
+        );
+    }
+
+    const xWarnings: HistogramDiagnostic[] = [];
+    const yWarnings: HistogramDiagnostic[] = [];
+    let px = planHistogram(xs, ws, cfg.xAxis ?? {}, xWarnings);
+    let py = planHistogram(ys, ws, cfg.yAxis ?? {}, yWarnings);
+
+    if (slotCount(px) * slotCount(py) > MAX_CELLS_2D) {
+        const limit = Math.floor(Math.sqrt(MAX_CELLS_2D)) - 2;
+        warnings.push(diagnostic(
+            "grid-coarsened",
+            `Grid of ${slotCount(px)}x${slotCount(py)} cells exceeds MAX_CELLS_2D (${MAX_CELLS_2D}); axes were coarsened to at most ${limit} bins.`,
+            { nx: slotCount(px), ny: slotCount(py), limit: MAX_CELLS_2D, bins: limit }
+        ));
+        if (px.edges.length - 1 > limit) px = planHistogram(xs, ws, coarsen(cfg.xAxis, limit), xWarnings);
+        if (py.edges.length - 1 > limit) py = planHistogram(ys, ws, coarsen(cfg.yAxis, limit), yWarnings);
+    }
+
+    const mx = binWithPlan<T>(px, xs, ws, {}, xWarnings);
+    const my = binWithPlan<T>(py, ys, ws, {}, yWarnings);
+
+    const nx = slotCount(px), ny = slotCount(py);
+    const kx = px.edges.length - 1, ky = py.edges.length - 1;
+    const counts = new Float64Array(nx * ny);
+    const items: (number[] | undefined)[] = new Array(nx * ny);
+
+    for (let i = 0; i < xs.length; i++) {
+        const sx = slotOf(locate(xs[i]!, px.edges, px.rule, px.uniform), kx, px.under, px.over);
+        if (sx < 0) continue;
+        const sy = slotOf(locate(ys[i]!, py.edges, py.rule, py.uniform), ky, py.under, py.over);
+        if (sy < 0) continue;
+
+        const c = sy * nx + sx;
+        counts[c]! += ws[i]!;
+        (items[c] ??= []).push(i);
+    }
+
+    const totalW = px.s.totalWeight;
+    const cells: HistogramCell[] = new Array(nx * ny);
+    for (let iy = 0; iy < ny; iy++) {
+        const by = my.bins[iy]!;
+        for (let ix = 0; ix < nx; ix++) {
+            const bx = mx.bins[ix]!;
+            const index = iy * nx + ix;
+            const count = counts[index]!;
+            const area = bx.width * by.width;
+
+            cells[index] = {
+                index,
+                ix,
+                iy,
+                xStart: bx.start,
+                xEnd: bx.end,
+                yStart: by.start,
+                yEnd: by.end,
+                count,
+                percent: (count / totalW) * 100,
+                density: Number.isFinite(area) && area > 0 ? count / (totalW * area) : 0,
+                items: items[index] ?? [],
+            };
+        }
+    }
+
+    warnings.push(...onAxis(xWarnings, "x"), ...onAxis(yWarnings, "y"));
+
+    return report<Histogram2DResult<T>>({ cells, nx, ny, x: mx, y: my, dropped }, warnings);
+}
+
+function onAxis(list: HistogramDiagnostic[], axis: "x" | "y"): HistogramDiagnostic[] {
+    return list.map(d => ({ ...d, axis, message: `${axis}: ${d.message}` }));
+}
+
+function slotCount(p: HistogramPlan) {
+    return p.edges.length - 1 + (p.under ? 1 : 0) + (p.over ? 1 : 0);
+}
+
+function coarsen(axis: HistogramAxisConfig | undefined, limit: number): HistogramAxisConfig {
+    return { ...axis, binning: { mode: "binCount", binCount: limit } };
+}
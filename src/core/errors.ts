@@ -0,0 +1,45 @@
+// src/core/errors.ts
+// Typed errors thrown by the histogram engine.
+import type { HistogramDiagnostic } from "./types.js";
+
+export type HistogramMergeErrorReason = "version" | "edges" | "edge-rule";
+
+/**
+ * Thrown by `mergeHistograms` when two partials cannot be combined.
+ */
+export class HistogramMergeError extends Error {
+    readonly reason: HistogramMergeErrorReason;
+
+    constructor(reason: HistogramMergeErrorReason, message: string) {
+        super(message);
+        this.name = "HistogramMergeError";
+        this.reason = reason;
+    }
+}
+
+/**
+ * Thrown in `strict` mode when the config has invalid options; `diagnostics` lists every problem found.
+ */
+export class HistogramConfigError extends Error {
+    readonly diagnostics: ReadonlyArray<HistogramDiagnostic>;
+
+    constructor(diagnostics: ReadonlyArray<HistogramDiagnostic>) {
+        super(`Invalid histogram config: ${diagnostics.map(d => d.message).join(" ")}`);
+        this.name = "HistogramConfigError";
+        this.diagnostics = diagnostics;
+    }
+}
+
+/**
+ * Thrown by `deserializeHistogram` when the input is not a serialized histogram; `path` locates the
+ * offending field (e.g. "bins[3].start").
+ */
+export class HistogramFormatError extends Error {
+    readonly path: string;
+
+    constructor(path: string, message: string) {
+        super(path ? `${path}: ${message}` : message);
+        this.name = "HistogramFormatError";
+        this.path = path;
+    }
+}
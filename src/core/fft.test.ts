@@ -0,0 +1,25 @@
+// src/core/fft.test.ts
+import { describe, expect, it } from "vitest";
+import { convolve, fft, nextPow2 } from "./fft.js";
+
+describe("fft", () => {
+    it("inverts with the inverse transform", () => {
+        const x = Array.from({ length: 16 }, (_, i) => Math.sin(i) + i / 7);
+        const re = Float64Array.from(x), im = new Float64Array(16);
+        fft(re, im);
+        expect(re[0]).toBeCloseTo(x.reduce((a, b) => a + b, 0), 10);
+        fft(re, im, true);
+        re.forEach((v, i) => expect(v / 16).toBeCloseTo(x[i]!, 12));
+    });
+
+    it("convolves like the direct sum", () => {
+        const a = [1, 2, 3, 0.5, -1], b = [0.25, 0.5, 0.25];
+        const direct = Array.from({ length: a.length + b.length - 1 }, (_, k) =>
+            a.reduce((s, v, i) => s + v * (b[k - i] ?? 0), 0));
+        Array.from(convolve(a, b)).forEach((v, i) => expect(v).toBeCloseTo(direct[i]!, 12));
+    });
+
+    it("rounds up to powers of two", () => {
+        expect([1, 2, 3, 1000, 1024].map(nextPow2)).toEqual([1, 2, 4, 1024, 1024]);
+    });
+});
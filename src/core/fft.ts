@@ -0,0 +1,68 @@
+// src/core/fft.ts
+
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must have the same power-of-two length.
+ * With `inverse`, computes the unscaled inverse transform (divide by the length afterwards).
+ */
+export function fft(re: Float64Array, im: Float64Array, inverse = false) {
+    const n = re.length;
+
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            let t = re[i]!; re[i] = re[j]!; re[j] = t;
+            t = im[i]!; im[i] = im[j]!; im[j] = t;
+        }
+    }
+
+    for (let len = 2; len <= n; len <<= 1) {
+        const ang = (inverse ? 2 : -2) * Math.PI / len;
+        const wr = Math.cos(ang), wi = Math.sin(ang);
+        for (let i = 0; i < n; i += len) {
+            let cr = 1, ci = 0;
+            for (let k = 0; k < len / 2; k++) {
+                const a = i + k, b = a + len / 2;
+                const xr = re[b]! * cr - im[b]! * ci;
+                const xi = re[b]! * ci + im[b]! * cr;
+                re[b] = re[a]! - xr; im[b] = im[a]! - xi;
+                re[a] = re[a]! + xr; im[a] = im[a]! + xi;
+                const t = cr * wr - ci * wi;
+                ci = cr * wi + ci * wr;
+                cr = t;
+            }
+        }
+    }
+}
+
+/**
+ * Linear convolution of `a` and `b` via zero-padded FFTs; the result has length `a.length + b.length - 1`.
+ */
+export function convolve(a: ArrayLike<number>, b: ArrayLike<number>): Float64Array {
+    const m = a.length + b.length - 1;
+    const n = nextPow2(m);
+    const ar = new Float64Array(n), ai = new Float64Array(n);
+    const br = new Float64Array(n), bi = new Float64Array(n);
+    for (let i = 0; i < a.length; i++) ar[i] = a[i]!;
+    for (let i = 0; i < b.length; i++) br[i] = b[i]!;
+
+    fft(ar, ai);
+    fft(br, bi);
+    for (let i = 0; i < n; i++) {
+        const r = ar[i]! * br[i]! - ai[i]! * bi[i]!;
+        ai[i] = ar[i]! * bi[i]! + ai[i]! * br[i]!;
+        ar[i] = r;
+    }
+    fft(ar, ai, true);
+
+    const out = new Float64Array(m);
+    for (let i = 0; i < m; i++) out[i] = ar[i]! / n;
+    return out;
+}
+
+export function nextPow2(n: number) {
+    let p = 1;
+    while (p < n) p <<= 1;
+    return p;
+}
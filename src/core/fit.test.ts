@@ -0,0 +1,52 @@
+// src/core/fit.test.ts
+import { describe, expect, it } from "vitest";
+import { computeHistogram } from "./engine.js";
+import { fitDistribution } from "./fit.js";
+
+/** Deterministic lognormal(1, 0.6) sample. */
+function lognormalSample(n: number) {
+    let s = 1;
+    const rnd = () => (s = (s * 16807) % 2147483647) / 2147483647;
+    return Array.from({ length: n }, () => Math.exp(1 + 0.6 * Math.sqrt(-2 * Math.log(rnd())) * Math.cos(2 * Math.PI * rnd())));
+}
+
+describe("fitDistribution", () => {
+    const data = lognormalSample(2000);
+
+    it("recovers normal parameters by MLE", () => {
+        const fit = fitDistribution({ data: data.map(Math.log) }, "normal");
+        expect(fit.method).toBe("mle");
+        expect(fit.params).toMatchObject({ mu: expect.closeTo(1, 1), sigma: expect.closeTo(0.6, 1) });
+        expect(fit.chiSquare.pValue).toBeGreaterThan(0.01);
+    });
+
+    it("gives lognormal under/overflow bins finite expected mass", () => {
+        const fit = fitDistribution({ data, domain: [1, 8], overflow: true }, "lognormal");
+        expect(fit.expected.every(Number.isFinite)).toBe(true);
+        expect(fit.expected[0]).toBeGreaterThan(0);
+        expect(fit.chiSquare.df).toBeGreaterThan(0);
+        expect(fit.chiSquare.pValue).toBeGreaterThan(0.01);
+    });
+
+    it("fits lognormal from binned counts with an underflow bin starting at -Infinity", () => {
+        const fit = fitDistribution(computeHistogram({ data, domain: [1, 8], overflow: true }), "lognormal");
+        expect(fit.method).toBe("binned-mle");
+        expect(fit.params).toMatchObject({ mu: expect.closeTo(1, 1), sigma: expect.closeTo(0.6, 1) });
+        expect(Number.isFinite(fit.logLikelihood)).toBe(true);
+    });
+
+    it("reports tail mass when values fall outside the bins without overflow slots", () => {
+        const fit = fitDistribution({ data, domain: [2, 6] }, "lognormal");
+        expect(fit.tailExpected.under).toBeGreaterThan(0);
+        expect(fit.tailExpected.over).toBeGreaterThan(0);
+    });
+
+    it("reports values outside the support as a diagnostic", () => {
+        const fit = fitDistribution({ data: [-1, 0, ...data] }, "lognormal");
+        expect(fit.diagnostics).toContainEqual(expect.objectContaining({
+            code: "fit-outside-support",
+            details: { family: "lognormal", ignored: 2 },
+        }));
+        expect(fit.warnings).toEqual(fit.diagnostics.map(d => d.message));
+    });
+});
@@ -0,0 +1,429 @@
+// src/core/fit.ts
+import { diagnostic, report } from "./diagnostics.js";
+import { computeFromValues } from "./engine.js";
+import { extractValuesAndWeights } from "./engine.helpers.js";
+import { chiSquarePValue, clamp01, ksPValue, normalCdf } from "./special.js";
+import { sortWeighted } from "./stats.js";
+import { checkConfig } from "./validate.js";
+import type {
+    DistributionFamily,
+    DistributionFit,
+    DistributionParams,
+    FitOptions,
+    GoodnessOfFit,
+    HistogramBin,
+    HistogramDiagnostic,
+    HistogramLogicConfig,
+    HistogramResult
+} from "./types.js";
+
+interface Family {
+    /** Number of estimated parameters (for chi-square degrees of freedom). */
+    k: number;
+    params(theta: number[]): DistributionParams;
+    cdf(x: number, theta: number[]): number;
+    logPdf(x: number, theta: number[]): number;
+    /** Weighted MLE on raw values inside the support; null when there are none. */
+    mle(xs: number[], ws: number[]): number[] | null;
+    inSupport(x: number): boolean;
+    adPValue(a2: number, n: number): number;
+}
+
+const LOG_SQRT_2PI = 0.5 * Math.log(2 * Math.PI);
+
+/** Normal on `transform(x)`; a transform of -Infinity marks x below the support (cdf 0, density 0). */
+const normalFamily = (transform: (x: number) => number, logJacobian: (x: number) => number): Family => ({
+    k: 2,
+    params: ([mu, logSigma]) => ({ mu: mu!, sigma: Math.exp(logSigma!) }),
+    cdf: (x, [mu, logSigma]) => normalCdf((transform(x) - mu!) / Math.exp(logSigma!)),
+    logPdf: (x, [mu, logSigma]) => {
+        const t = transform(x);
+        if (t === Number.NEGATIVE_INFINITY) return Number.NEGATIVE_INFINITY;
+        const z = (t - mu!) / Math.exp(logSigma!);
+        return -0.5 * z * z - logSigma! - LOG_SQRT_2PI - logJacobian(x);
+    },
+    mle: (xs, ws) => {
+        let sw = 0, mean = 0, m2 = 0;
+        for (let i = 0; i < xs.length; i++) {
+            const v = transform(xs[i]!), w = ws[i]!;
+            sw += w;
+            const d = v - mean;
+            mean += (w / sw) * d;
+            m2 += w * d * (v - mean);
+        }
+        if (!(sw > 0)) return null;
+        const sigma = Math.sqrt(m2 / sw);
+        return [mean, Math.log(sigma > 0 ? sigma : Math.abs(mean) * 1e-9 || 1e-9)];
+    },
+    inSupport: x => Number.isFinite(transform(x)),
+    adPValue: adNormalPValue,
+});
+
+const FAMILIES: Record<DistributionFamily, Family> = {
+    normal: normalFamily(x => x, () => 0),
+    lognormal: normalFamily(x => x > 0 ? Math.log(x) : Number.NEGATIVE_INFINITY, x => Math.log(x)),
+    exponential: {
+        k: 1,
+        params: ([logRate]) => ({ rate: Math.exp(logRate!) }),
+        cdf: (x, [logRate]) => x <= 0 ? 0 : x === Number.POSITIVE_INFINITY ? 1 : -Math.expm1(-Math.exp(logRate!) * x),
+        logPdf: (x, [logRate]) => logRate! - Math.exp(logRate!) * x,
+        mle: (xs, ws) => {
+            let sw = 0, sxw = 0;
+            for (let i = 0; i < xs.length; i++) { sw += ws[i]!; sxw += xs[i]! * ws[i]!; }
+            return sw > 0 && sxw > 0 ? [Math.log(sw / sxw)] : null;
+        },
+        inSupport: x => x >= 0,
+        adPValue: adExponentialPValue,
+    },
+};
+
+interface Cell { observed: number; expected: number }
+
+/**
+ * Fits a parametric distribution to histogram data and tests the fit.
+ *
+ * Given a config, parameters are weighted maximum-likelihood estimates on the raw values, and the KS and
+ * Anderson–Darling statistics use the exact weighted empirical CDF. Given only a `HistogramResult`,
+ * parameters maximize the multinomial likelihood of the bin counts (binned MLE), and KS/AD are
+ * approximated from the bins (KS at the edges, AD with the empirical CDF interpolated within bins).
+ *
+ * `expected` holds the expected weight per bin, aligned with `result.bins` (the bins of
+ * `computeHistogram(config)` for config input). Mass beyond the first/last edge that has no underflow/
+ * overflow bin is reported in `tailExpected` and enters the chi-square test as tail cells; cells with
+ * expected weight below `minExpected` are merged with their neighbours first.
+ *
+ * P-values treat weights as frequencies and ignore that parameters were estimated for KS (conservative);
+ * the AD p-values use the D'Agostino–Stephens estimated-parameter formulas.
+ */
+export function fitDistribution<T>(
+    input: HistogramResult<T> | HistogramLogicConfig<T>,
+    family: DistributionFamily,
+    options: FitOptions = {}
+): DistributionFit {
+    const f = FAMILIES[family];
+    if (!f) throw new TypeError(`Unknown distribution family "${family}".`);
+    const warnings: HistogramDiagnostic[] = [];
+    const minExpected = options.minExpected ?? 5;
+
+    let result: HistogramResult<T>;
+    let raw: { xs: number[]; ws: number[] } | null = null;
+
+    if ("bins" in input) {
+        result = input;
+    } else {
+        const problems = checkConfig(input);
+        const extracted = extractValuesAndWeights(input);
+        result = computeFromValues<T>(extracted.xs, extracted.ws, input, [...problems, ...extracted.warnings]);
+        raw = { xs: Array.from(extracted.xs), ws: Array.from(extracted.ws) };
+    }
+
+    const bins = result.bins;
+    const N = result.stats.totalWeight;
+    if (bins.length === 0 || !(N > 0)) {
+        throw new RangeError("Cannot fit a distribution to an empty histogram.");
+    }
+
+    // Observed weight beyond the bins (dropped because no underflow/overflow bin was requested).
+    const lo = bins[0]!.start, hi = bins[bins.length - 1]!.end;
+    const binned = bins.reduce((s, b) => s + b.count, 0);
+    let outUnder = 0, outOver = 0;
+    if (raw) {
+        for (let i = 0; i < raw.xs.length; i++) {
+            if (raw.xs[i]! < lo) outUnder += raw.ws[i]!;
+            else if (raw.xs[i]! > hi) outOver += raw.ws[i]!;
+        }
+    }
+    const outside = raw ? outUnder + outOver : Math.max(0, N - binned);
+
+    let theta: number[] | null = null;
+    let method: DistributionFit["method"] = "binned-mle";
+
+    if (raw) {
+        const xs: number[] = [], ws: number[] = [];
+        for (let i = 0; i < raw.xs.length; i++) if (f.inSupport(raw.xs[i]!)) { xs.push(raw.xs[i]!); ws.push(raw.ws[i]!); }
+        if (xs.length < raw.xs.length) {
+            const ignored = raw.xs.length - xs.length;
+            warnings.push(diagnostic(
+                "fit-outside-support",
+                `${ignored} value(s) outside the ${family} support were ignored for estimation.`,
+                { family, ignored }
+            ));
+        }
+        raw = { xs, ws };
+        theta = f.mle(xs, ws);
+        if (theta) method = "mle";
+    }
+
+    if (!theta) {
+        theta = binnedMle(f, bins, outside);
+        if (!theta) throw new RangeError(`No data in the support of the ${family} distribution.`);
+    }
+
+    const prob = (b: Pick<HistogramBin, "start" | "end">) => Math.max(0, f.cdf(b.end, theta!) - f.cdf(b.start, theta!));
+    const expected = bins.map(b => N * prob(b));
+    const tailExpected = {
+        under: Number.isFinite(lo) ? N * f.cdf(lo, theta) : 0,
+        over: Number.isFinite(hi) ? N * (1 - f.cdf(hi, theta)) : 0,
+    };
+
+    if (!raw && outside > 0) {
+        // Without raw values the dropped weight cannot be split between the tails; apportion it by expectation.
+        const te = tailExpected.under + tailExpected.over;
+        outUnder = te > 0 ? outside * tailExpected.under / te : outside / 2;
+        outOver = outside - outUnder;
+        warnings.push(diagnostic(
+            "fit-tails-apportioned",
+            "Weight outside the bins was split between the tails in proportion to the fitted distribution.",
+            { weight: outside }
+        ));
+    }
+
+    const cells: Cell[] = [];
+    if (tailExpected.under > 0 || outUnder > 0) cells.push({ observed: outUnder, expected: tailExpected.under });
+    bins.forEach((b, i) => cells.push({ observed: b.count, expected: expected[i]! }));
+    if (tailExpected.over > 0 || outOver > 0) cells.push({ observed: outOver, expected: tailExpected.over });
+
+    const chiSquare = chiSquareTest(cells, f.k, minExpected, warnings);
+
+    let logLikelihood = 0;
+    let ks: GoodnessOfFit, andersonDarling: GoodnessOfFit;
+    const n = result.stats.n;
+
+    if (raw && raw.xs.length > 0) {
+        for (let i = 0; i < raw.xs.length; i++) logLikelihood += raw.ws[i]! * f.logPdf(raw.xs[i]!, theta);
+        const sorted = sortWeighted(raw.xs, raw.ws);
+        const us = Array.from(sorted.values, v => f.cdf(v, theta!));
+        const weights = Array.from(sorted.cum, (c, i) => c - (i > 0 ? sorted.cum[i - 1]! : 0));
+        const nEff = effectiveN(raw.ws);
+        ks = ksFromSorted(us, weights, nEff);
+        const a2 = andersonDarlingStatistic(us, weights, nEff);
+        andersonDarling = { statistic: a2, pValue: f.adPValue(a2, nEff) };
+    } else {
+        for (const c of cells) if (c.observed > 0) logLikelihood += c.observed * Math.log(Math.max(c.expected / N, 1e-300));
+
+        // KS at the finite edges of the binned empirical CDF.
+        let cum = outUnder, d = 0;
+        for (const b of bins) {
+            if (Number.isFinite(b.start)) d = Math.max(d, Math.abs(cum / N - f.cdf(b.start, theta)));
+            cum += b.count;
+            if (Number.isFinite(b.end)) d = Math.max(d, Math.abs(cum / N - f.cdf(b.end, theta)));
+        }
+        ks = { statistic: d, pValue: ksPValue(d, n) };
+
+        // AD with the empirical CDF interpolated linearly (in F) across each bin and tail.
+        const knots: Array<[number, number]> = [[0, 0]];
+        cum = outUnder;
+        for (const b of bins) {
+            if (Number.isFinite(b.start)) knots.push([f.cdf(b.start, theta), cum / N]);
+            cum += b.count;
+            if (Number.isFinite(b.end)) knots.push([f.cdf(b.end, theta), cum / N]);
+        }
+        knots.push([1, 1]);
+        const a2 = andersonDarlingBinned(knots, n);
+        andersonDarling = { statistic: a2, pValue: f.adPValue(a2, n) };
+    }
+
+    return report<DistributionFit>({
+        family,
+        params: f.params(theta),
+        method,
+        logLikelihood,
+        expected,
+        tailExpected,
+        chiSquare,
+        ks,
+        andersonDarling,
+        warnings: [],
+        diagnostics: [],
+    }, warnings);
+}
+
+/**
+ * Maximizes the multinomial log-likelihood of the bin counts (plus the weight outside the bins,
+ * when some was dropped) with Nelder–Mead, starting from moments of the bin centres.
+ */
+function binnedMle(f: Family, bins: ReadonlyArray<HistogramBin>, outside: number): number[] | null {
+    const xs: number[] = [], ws: number[] = [];
+    for (const b of bins) {
+        const x = Number.isFinite(b.center) ? b.center : Number.isFinite(b.start) ? b.start : b.end;
+        if (b.count > 0 && f.inSupport(x)) { xs.push(x); ws.push(b.count); }
+    }
+    const start = f.mle(xs, ws);
+    if (!start) return null;
+
+    const nll = (theta: number[]) => {
+        let ll = 0, inside = 0;
+        for (const b of bins) {
+            const p = Math.max(0, f.cdf(b.end, theta) - f.cdf(b.start, theta));
+            inside += p;
+            if (b.count > 0) ll += b.count * Math.log(Math.max(p, 1e-300));
+        }
+        if (outside > 0) ll += outside * Math.log(Math.max(1 - inside, 1e-300));
+        return Number.isFinite(ll) ? -ll : Number.POSITIVE_INFINITY;
+    };
+
+    return nelderMead(nll, start);
+}
+
+function nelderMead(fn: (x: number[]) => number, start: number[], maxIter = 500): number[] {
+    const dim = start.length;
+    let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + (Math.abs(v) > 1e-3 ? 0.1 * Math.abs(v) : 0.1) : v)))];
+    let values = simplex.map(fn);
+
+    for (let iter = 0; iter < maxIter; iter++) {
+        const order = values.map((v, i) => i).sort((a, b) => values[a]! - values[b]!);
+        simplex = order.map(i => simplex[i]!);
+        values = order.map(i => values[i]!);
+        if (Math.abs(values[dim]! - values[0]!) <= 1e-10 * (Math.abs(values[0]!) + 1e-10)) break;
+
+        const centroid = new Array<number>(dim).fill(0);
+        for (let i = 0; i < dim; i++) for (let j = 0; j < dim; j++) centroid[j]! += simplex[i]![j]! / dim;
+        const towards = (t: number) => centroid.map((c, j) => c + t * (simplex[dim]![j]! - c));
+
+        const reflected = towards(-1), fr = fn(reflected);
+        if (fr < values[0]!) {
+            const expanded = towards(-2), fe = fn(expanded);
+            if (fe < fr) { simplex[dim] = expanded; values[dim] = fe; } else { simplex[dim] = reflected; values[dim] = fr; }
+        } else if (fr < values[dim - 1]!) {
+            simplex[dim] = reflected; values[dim] = fr;
+        } else {
+            const contracted = fr < values[dim]! ? towards(-0.5) : towards(0.5), fc = fn(contracted);
+            if (fc < Math.min(fr, values[dim]!)) {
+                simplex[dim] = contracted; values[dim] = fc;
+            } else {
+                for (let i = 1; i <= dim; i++) {
+                    simplex[i] = simplex[i]!.map((v, j) => simplex[0]![j]! + 0.5 * (v - simplex[0]![j]!));
+                    values[i] = fn(simplex[i]!);
+                }
+            }
+        }
+    }
+
+    let best = 0;
+    for (let i = 1; i < values.length; i++) if (values[i]! < values[best]!) best = i;
+    return simplex[best]!;
+}
+
+/**
+ * Pearson chi-square over ordered cells, merging neighbours until each merged cell expects at least `minExpected`.
+ */
+function chiSquareTest(cells: Cell[], k: number, minExpected: number, warnings: HistogramDiagnostic[]): GoodnessOfFit & { df: number; cells: number } {
+    const merged: Cell[] = [];
+    let acc: Cell = { observed: 0, expected: 0 };
+    for (const c of cells) {
+        acc = { observed: acc.observed + c.observed, expected: acc.expected + c.expected };
+        if (acc.expected >= minExpected) { merged.push(acc); acc = { observed: 0, expected: 0 }; }
+    }
+    if (acc.observed > 0 || acc.expected > 0) {
+        if (merged.length > 0) {
+            const last = merged[merged.length - 1]!;
+            merged[merged.length - 1] = { observed: last.observed + acc.observed, expected: last.expected + acc.expected };
+        } else {
+            merged.push(acc);
+        }
+    }
+
+    let statistic = 0;
+    for (const c of merged) if (c.expected > 0) statistic += (c.observed - c.expected) ** 2 / c.expected;
+
+    const df = merged.length - 1 - k;
+    if (df <= 0) {
+        warnings.push(diagnostic(
+            "chi-square-too-few-cells",
+            `Too few cells (${merged.length}) after merging for a chi-square test with ${k} estimated parameter(s).`,
+            { cells: merged.length, parameters: k }
+        ));
+    }
+
+    return { statistic, pValue: df > 0 ? chiSquarePValue(statistic, df) : Number.NaN, df, cells: merged.length };
+}
+
+/** KS distance between the weighted ECDF of sorted points (as CDF values `us`) and the uniform CDF. */
+function ksFromSorted(us: ArrayLike<number>, ws: ArrayLike<number>, nEff: number): GoodnessOfFit {
+    let total = 0;
+    for (let i = 0; i < ws.length; i++) total += ws[i]!;
+    let cum = 0, d = 0;
+    for (let i = 0; i < us.length; i++) {
+        const u = us[i]!;
+        d = Math.max(d, Math.abs(u - cum / total));
+        cum += ws[i]!;
+        d = Math.max(d, Math.abs(cum / total - u));
+    }
+    return { statistic: d, pValue: ksPValue(d, nEff) };
+}
+
+/**
+ * Anderson–Darling A² = n ∫ (Fₙ − F)² / (F(1 − F)) dF, integrated exactly between the sorted points
+ * (`us` are CDF values in ascending order). Equal weights give the textbook formula.
+ */
+function andersonDarlingStatistic(us: ArrayLike<number>, ws: ArrayLike<number>, n: number): number {
+    let total = 0;
+    for (let i = 0; i < ws.length; i++) total += ws[i]!;
+    if (!(total > 0)) return Number.NaN;
+
+    const eps = 1e-12;
+    // Antiderivative of (c − u)² / (u(1 − u)) = c²/u + (1 − c)²/(1 − u) − 1.
+    const G = (c: number, u: number) =>
+        -u + (c > 0 ? c * c * Math.log(u) : 0) - (c < 1 ? (1 - c) * (1 - c) * Math.log(1 - u) : 0);
+
+    // Segments [0, u₁], [u₁, u₂], …, [uₙ, 1] with the ECDF constant (c) on each; ends clamped to stay finite.
+    let sum = 0, c = 0, from = eps;
+    for (let i = 0; i <= us.length; i++) {
+        const to = i < us.length ? Math.min(1 - eps, Math.max(eps, us[i]!)) : 1 - eps;
+        if (to > from) sum += G(c, to) - G(c, from);
+        if (i < us.length) { c = Math.min(1, c + ws[i]! / total); from = Math.max(from, to); }
+    }
+    return n * Math.max(0, sum);
+}
+
+/**
+ * A² for a piecewise-linear empirical CDF given as (F, Fₙ) knots from (0, 0) to (1, 1), integrated with
+ * composite Simpson's rule on each piece.
+ */
+function andersonDarlingBinned(knots: Array<[number, number]>, n: number): number {
+    const eps = 1e-12, steps = 16;
+    let sum = 0;
+    for (let i = 1; i < knots.length; i++) {
+        const [u0, c0] = knots[i - 1]!, [u1, c1] = knots[i]!;
+        if (!(u1 > u0)) continue;
+        const g = (u: number) => {
+            const c = c0 + (c1 - c0) * (u - u0) / (u1 - u0);
+            const v = Math.min(1 - eps, Math.max(eps, u));
+            return (c - u) * (c - u) / (v * (1 - v));
+        };
+        const h = (u1 - u0) / steps;
+        let acc = g(u0) + g(u1);
+        for (let k = 1; k < steps; k++) acc += (k % 2 ? 4 : 2) * g(u0 + k * h);
+        sum += acc * h / 3;
+    }
+    return n * sum;
+}
+
+function effectiveN(ws: ArrayLike<number>) {
+    let s = 0, s2 = 0;
+    for (let i = 0; i < ws.length; i++) { s += ws[i]!; s2 += ws[i]! * ws[i]!; }
+    return s2 > 0 ? (s * s) / s2 : 0;
+}
+
+/** D'Agostino & Stephens (1986), normal with estimated mean and variance. */
+function adNormalPValue(a2: number, n: number) {
+    if (!Number.isFinite(a2) || !(n > 0)) return Number.NaN;
+    const a = a2 * (1 + 0.75 / n + 2.25 / (n * n));
+    // The fitted quadratics are valid up to their turning points; beyond, the p-value is negligible.
+    const p = a >= 153 ? 0 : a >= 0.6 ? Math.exp(1.2937 - 5.709 * a + 0.0186 * a * a)
+        : a > 0.34 ? Math.exp(0.9177 - 4.279 * a - 1.38 * a * a)
+            : a > 0.2 ? 1 - Math.exp(-8.318 + 42.796 * a - 59.938 * a * a)
+                : 1 - Math.exp(-13.436 + 101.14 * a - 223.73 * a * a);
+    return clamp01(p);
+}
+
+/** D'Agostino & Stephens (1986), exponential with estimated rate. */
+function adExponentialPValue(a2: number, n: number) {
+    if (!Number.isFinite(a2) || !(n > 0)) return Number.NaN;
+    const a = a2 * (1 + 0.6 / n);
+    const p = a >= 10 ? 0 : a >= 0.95 ? Math.exp(0.731 - 3.009 * a + 0.15 * a * a)
+        : a >= 0.51 ? Math.exp(0.9209 - 3.353 * a + 0.3 * a * a)
+            : a >= 0.26 ? 1 - Math.exp(-6.1327 + 20.218 * a - 18.663 * a * a)
+                : 1 - Math.exp(-12.2204 + 67.459 * a - 110.3 * a * a);
+    return clamp01(p);
+}
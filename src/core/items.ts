@@ -0,0 +1,104 @@
+// src/core/items.ts
+import type { HistogramBin, HistogramResult, ItemStorage, PackedItems, SampleOptions } from "./types.js";
+
+/** A result or one of its groups: bins plus, when packed, their item indices. */
+interface Binned<T> {
+    bins: ReadonlyArray<HistogramBin<T>>;
+    packedItems?: PackedItems;
+}
+
+/**
+ * Item indices of the bin at position `i` of `source.bins`, whichever `items` storage produced it.
+ * Packed results return a view into `packedItems.indices`, so nothing is copied.
+ */
+export function binItems(source: Binned<unknown>, i: number): ArrayLike<number> {
+    const p = source.packedItems;
+    return p ? p.indices.subarray(p.offsets[i]!, p.offsets[i + 1]!) : source.bins[i]?.items ?? [];
+}
+
+/** Packs the slot of every item (-1 for none) into CSR form over `size` slots, keeping item order. */
+export function packSlots(slots: Int32Array, size: number): PackedItems {
+    const offsets = new Int32Array(size + 1);
+    for (let i = 0; i < slots.length; i++) if (slots[i]! >= 0) offsets[slots[i]! + 1]! += 1;
+    for (let s = 0; s < size; s++) offsets[s + 1]! += offsets[s]!;
+
+    const indices = new Int32Array(offsets[size]!);
+    const cursor = offsets.slice(0, size);
+    for (let i = 0; i < slots.length; i++) {
+        const s = slots[i]!;
+        if (s >= 0) indices[cursor[s]!++] = i;
+    }
+    return { indices, offsets };
+}
+
+/** Maps packed indices through `ids`, e.g. from a group's own values to the overall values. */
+export function remapPacked(p: PackedItems, ids: ArrayLike<number>): PackedItems {
+    return { indices: p.indices.map(j => ids[j]!), offsets: p.offsets };
+}
+
+/**
+ * Storage to bin with; unknown values mean "indices". Profiles and samples read bin membership after
+ * binning, so "none" packs it until they are attached; `dropPackedItems` then removes it.
+ */
+export function workingStorage(storage: ItemStorage | undefined, needsMembership: boolean): ItemStorage {
+    const s = storage === "none" || storage === "packed" ? storage : "indices";
+    return s === "none" && needsMembership ? "packed" : s;
+}
+
+/** Removes the packed indices of a result and its groups once nothing else reads them. */
+export function dropPackedItems<T>(result: HistogramResult<T>) {
+    delete result.packedItems;
+    if (result.groups) result.groups = result.groups.map(({ packedItems: _packed, ...g }) => g);
+}
+
+/**
+ * Sets `sample` on the bins of `result` and its groups to at most `size` rows each, by weighted
+ * reservoir sampling (Efraimidis–Spirakis A-Res). Item i draws the key u^(1/w_i) from one stream
+ * seeded by `seed`, in item order, and each bin keeps its largest keys; heavier items are likelier
+ * picks and group samples reuse the same draws. Rows are listed in item order.
+ */
+export function attachSamples<T>(result: HistogramResult<T>, rows: ArrayLike<T>, ws: ArrayLike<number>, options: SampleOptions) {
+    const size = Number.isFinite(options.size) ? Math.max(0, Math.floor(options.size)) : 0;
+    const next = mulberry32(options.seed ?? 0);
+
+    // log(u^(1/w)) orders the same as u^(1/w) without underflowing for large weights.
+    const keys = new Float64Array(ws.length);
+    for (let i = 0; i < ws.length; i++) keys[i] = Math.log(1 - next()) / ws[i]!;
+
+    const fill = (source: Binned<T>) => source.bins.forEach((b, i) => {
+        b.sample = reservoir(binItems(source, i), keys, size).map(j => rows[j]!);
+    });
+    fill(result);
+    for (const g of result.groups ?? []) fill(g);
+}
+
+/** The `size` items with the largest keys, in item order. */
+function reservoir(items: ArrayLike<number>, keys: Float64Array, size: number): number[] {
+    if (items.length <= size) return Array.from(items);
+
+    // Chosen items sorted by ascending key; the first one is the next to be replaced.
+    const chosen: number[] = [];
+    for (let n = 0; n < items.length; n++) {
+        const id = items[n]!;
+        const key = keys[id]!;
+        if (chosen.length === size) {
+            if (size === 0 || key <= keys[chosen[0]!]!) continue;
+            chosen.shift();
+        }
+        let at = chosen.length;
+        while (at > 0 && keys[chosen[at - 1]!]! > key) at--;
+        chosen.splice(at, 0, id);
+    }
+    return chosen.sort((a, b) => a - b);
+}
+
+/** Mulberry32, a small 32-bit generator of floats in [0, 1). */
+function mulberry32(seed: number) {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = Math.imul(a ^ (a >>> 15), a | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -0,0 +1,71 @@
+// src/core/kde.test.ts
+import { describe, expect, it } from "vitest";
+import { computeKDE } from "./kde.js";
+import type { KernelType } from "./types.js";
+
+/** Deterministic standard normal sample. */
+function normalSample(n: number, seed = 1) {
+    let s = seed;
+    const rnd = () => (s = (s * 16807) % 2147483647) / 2147483647;
+    return Array.from({ length: n }, () => Math.sqrt(-2 * Math.log(rnd())) * Math.cos(2 * Math.PI * rnd()));
+}
+
+/** Trapezoidal integral of the density over the grid. */
+function integral(x: number[], y: number[]) {
+    let s = 0;
+    for (let i = 1; i < x.length; i++) s += (x[i]! - x[i - 1]!) * (y[i]! + y[i - 1]!) / 2;
+    return s;
+}
+
+const KERNELS: KernelType[] = ["gaussian", "epanechnikov", "uniform", "triangular", "biweight", "cosine"];
+
+describe("computeKDE", () => {
+    const data = normalSample(2000);
+    const cfg = { data, domain: [-8, 8] as [number, number] };
+
+    it.each(KERNELS)("integrates to 1 with the %s kernel", kernel => {
+        for (const method of ["exact", "fft"] as const) {
+            const kde = computeKDE(cfg, { kernel, method, points: 1024 });
+            expect(kde.method).toBe(method);
+            expect(integral(kde.x, kde.density)).toBeCloseTo(1, 2);
+        }
+    });
+
+    it.each(KERNELS)("agrees between the exact and FFT paths with the %s kernel", kernel => {
+        const exact = computeKDE(cfg, { kernel, method: "exact" });
+        const binned = computeKDE(cfg, { kernel, method: "fft" });
+        expect(binned.bandwidth).toBe(exact.bandwidth);
+        const peak = Math.max(...exact.density);
+        const worst = Math.max(...exact.density.map((d, i) => Math.abs(d - binned.density[i]!)));
+        expect(worst / peak).toBeLessThan(0.02);
+    });
+
+    it("treats integer weights like duplicated values", () => {
+        const xs = [0.5, -1, 2, 0, 1.25], ws = [3, 1, 2, 1, 4];
+        const dup = xs.flatMap((x, i) => Array.from({ length: ws[i]! }, () => x));
+        const options = { bandwidth: 0.4, points: 200 };
+        const domain: [number, number] = [-4, 5];
+        for (const method of ["exact", "fft"] as const) {
+            const weighted = computeKDE({ data: xs.map((x, i) => ({ x, w: ws[i]! })), x: d => d.x, weight: d => d.w, domain }, { ...options, method });
+            const plain = computeKDE({ data: dup, domain }, { ...options, method });
+            weighted.density.forEach((d, i) => expect(d).toBeCloseTo(plain.density[i]!, 12));
+        }
+    });
+
+    it("chooses an ISJ bandwidth near Silverman's for normal data and narrower for bimodal data", () => {
+        const silverman = computeKDE({ data }).bandwidth;
+        const isj = computeKDE({ data }, { bandwidth: "isj" });
+        expect(isj.diagnostics?.map(d => d.code)).not.toContain("kde-isj-failed");
+        expect(isj.bandwidth / silverman).toBeGreaterThan(0.6);
+        expect(isj.bandwidth / silverman).toBeLessThan(1.5);
+
+        const bimodal = [...data.map(v => v * 0.3 - 3), ...data.map(v => v * 0.3 + 3)];
+        expect(computeKDE({ data: bimodal }, { bandwidth: "isj" }).bandwidth)
+            .toBeLessThan(computeKDE({ data: bimodal }).bandwidth);
+    });
+
+    it("picks the FFT path automatically for large inputs", () => {
+        expect(computeKDE({ data: normalSample(10_000) }).method).toBe("fft");
+        expect(computeKDE({ data: data.slice(0, 100) }).method).toBe("exact");
+    });
+});
@@ -0,0 +1,244 @@
+// src/core/kde.ts
+import { diagnostic, report } from "./diagnostics.js";
+import { convolve, nextPow2 } from "./fft.js";
+import { extractValuesAndWeights, noData } from "./engine.helpers.js";
+import { planHistogram } from "./engine.js";
+import type { summarize } from "./stats.js";
+import { checkConfig } from "./validate.js";
+import type {
+    HistogramDiagnostic,
+    HistogramLogicConfig,
+    KDEOptions,
+    KDEResult,
+    KernelType
+} from "./types.js";
+
+/**
+ * Kernel density estimation on an evenly spaced grid.
+ *
+ * Kernels are scaled to unit standard deviation (as in R's `density()`), so a bandwidth means the same
+ * amount of smoothing for every kernel. Densities integrate to 1 over the real line with weights normalized
+ * by the total weight, which is the scale of `HistogramBin.density`.
+ *
+ * @packageDocumentation
+ */
+
+interface Kernel {
+    /** Half-width of the support in units of the bandwidth (truncation point for the Gaussian). */
+    support: number;
+    k: (u: number) => number;
+}
+
+const SQRT3 = Math.sqrt(3), SQRT5 = Math.sqrt(5), SQRT6 = Math.sqrt(6), SQRT7 = Math.sqrt(7);
+const COSINE_A = 1 / Math.sqrt(1 / 3 - 2 / (Math.PI * Math.PI));
+
+const KERNELS: Record<KernelType, Kernel> = {
+    gaussian: { support: 6, k: u => Math.exp(-0.5 * u * u) / Math.sqrt(2 * Math.PI) },
+    epanechnikov: { support: SQRT5, k: u => Math.abs(u) < SQRT5 ? (3 / (4 * SQRT5)) * (1 - u * u / 5) : 0 },
+    uniform: { support: SQRT3, k: u => Math.abs(u) < SQRT3 ? 1 / (2 * SQRT3) : 0 },
+    triangular: { support: SQRT6, k: u => Math.abs(u) < SQRT6 ? (1 - Math.abs(u) / SQRT6) / SQRT6 : 0 },
+    biweight: { support: SQRT7, k: u => { const t = 1 - u * u / 7; return Math.abs(u) < SQRT7 ? (15 / (16 * SQRT7)) * t * t : 0; } },
+    cosine: { support: COSINE_A, k: u => Math.abs(u) < COSINE_A ? (1 + Math.cos(Math.PI * u / COSINE_A)) / (2 * COSINE_A) : 0 },
+};
+
+/** Above this many kernel evaluations (n × grid points), `method: "auto"` switches to the binned FFT path. */
+const EXACT_LIMIT = 2_000_000;
+const MAX_FFT = 1 << 20;
+const ISJ_GRID = 1024;
+
+type Summary = Pick<ReturnType<typeof summarize>, "min" | "max" | "sd" | "iqr" | "totalWeight" | "moments">;
+
+/**
+ * Computes a weighted kernel density estimate over the domain `computeHistogram` would resolve for `cfg`,
+ * so the curve lines up with the bins of the same config.
+ *
+ * @throws HistogramConfigError with `strict: true` when the config or options are invalid.
+ */
+export function computeKDE<T>(cfg: HistogramLogicConfig<T>, options: KDEOptions = typeof cfg.kde === "object" ? cfg.kde : {}): KDEResult {
+    const problems = checkConfig({ ...cfg, kde: options });
+    const extracted = extractValuesAndWeights(cfg);
+    const warnings = [...problems, ...extracted.warnings];
+    const { xs, ws } = extracted;
+    if (xs.length === 0) {
+        return report<KDEResult>({ x: [], density: [], bandwidth: 0, kernel: options.kernel ?? "gaussian", method: "exact" }, [noData(), ...warnings]);
+    }
+
+    const plan = planHistogram(xs, ws, cfg, warnings);
+    const kde = estimateDensity(xs, ws, plan.s, [plan.edges[0]!, plan.edges[plan.edges.length - 1]!], options, warnings);
+
+    return report(kde, warnings);
+}
+
+/**
+ * Evaluates the density of non-empty `xs`/`ws` on `options.points` grid points spanning `domain`.
+ * Infinite domain ends are replaced by the observed extrema.
+ */
+export function estimateDensity(
+    xs: ArrayLike<number>,
+    ws: ArrayLike<number>,
+    s: Summary,
+    domain: [number, number],
+    options: KDEOptions,
+    warnings: HistogramDiagnostic[]
+): KDEResult {
+    const kernelType = options.kernel ?? "gaussian";
+    const kernel = KERNELS[kernelType] ?? KERNELS.gaussian;
+    const points = Math.max(2, Math.floor(options.points ?? 512));
+
+    const lo = Number.isFinite(domain[0]) ? domain[0] : s.min;
+    const hi = Number.isFinite(domain[1]) ? domain[1] : s.max;
+    const step = hi > lo ? (hi - lo) / (points - 1) : 1;
+    const grid = Array.from({ length: points }, (_, i) => lo + i * step);
+
+    const h = resolveBandwidth(xs, ws, s, options.bandwidth ?? "silverman", warnings);
+    const tw = s.totalWeight;
+
+    let method = options.method ?? "auto";
+    if (method === "auto") method = xs.length * points > EXACT_LIMIT ? "fft" : "exact";
+
+    if (method === "fft") {
+        const density = binnedDensity(xs, ws, tw, lo, step, points, h, kernel);
+        if (density) return { x: grid, density, bandwidth: h, kernel: kernelType, method };
+        warnings.push(diagnostic("kde-fft-fallback", "KDE bandwidth is too wide for the binned approximation; evaluating exactly.", {}));
+    }
+
+    const density = new Array<number>(points).fill(0);
+    const reach = kernel.support * h;
+    for (let i = 0; i < xs.length; i++) {
+        const v = xs[i]!, w = ws[i]! / (tw * h);
+        const first = Math.max(0, Math.ceil((v - reach - lo) / step));
+        const last = Math.min(points - 1, Math.floor((v + reach - lo) / step));
+        for (let g = first; g <= last; g++) density[g]! += w * kernel.k((grid[g]! - v) / h);
+    }
+
+    return { x: grid, density, bandwidth: h, kernel: kernelType, method: "exact" };
+}
+
+/**
+ * Linear binning onto the grid (extended by the kernel reach on both sides) followed by an FFT convolution
+ * with the sampled kernel. The samples are rescaled to unit mass, since a discontinuous kernel (uniform)
+ * sampled on the grid would otherwise lose weight. Returns null when the extended grid would be too large.
+ */
+function binnedDensity(
+    xs: ArrayLike<number>, ws: ArrayLike<number>, tw: number,
+    lo: number, step: number, points: number, h: number, kernel: Kernel
+): number[] | null {
+    const pad = Math.ceil(kernel.support * h / step);
+    const m = points + 2 * pad;
+    if (nextPow2(m + 2 * pad + 1) > MAX_FFT) return null;
+
+    const mass = new Float64Array(m);
+    const origin = lo - pad * step;
+    for (let i = 0; i < xs.length; i++) {
+        const pos = (xs[i]! - origin) / step;
+        const j = Math.floor(pos);
+        if (j < 0 || j >= m) continue;
+        const f = pos - j;
+        mass[j]! += ws[i]! * (1 - f);
+        if (j + 1 < m) mass[j + 1]! += ws[i]! * f;
+    }
+
+    const taps = new Float64Array(2 * pad + 1);
+    let sampled = 0;
+    for (let j = -pad; j <= pad; j++) sampled += taps[j + pad] = kernel.k((j * step) / h) / h;
+    const scale = sampled > 0 ? 1 / (sampled * step * tw) : 1 / tw;
+    for (let j = 0; j < taps.length; j++) taps[j]! *= scale;
+
+    const full = convolve(mass, taps);
+    const density = new Array<number>(points);
+    // full[i + pad] is the density at extended grid point i; grid point g sits at extended index g + pad.
+    for (let g = 0; g < points; g++) density[g] = Math.max(0, full[g + 2 * pad]!);
+    return density;
+}
+
+function resolveBandwidth(
+    xs: ArrayLike<number>, ws: ArrayLike<number>, s: Summary,
+    rule: NonNullable<KDEOptions["bandwidth"]>, warnings: HistogramDiagnostic[]
+): number {
+    if (typeof rule === "number") {
+        // Invalid numbers are reported by `validateConfig`.
+        if (Number.isFinite(rule) && rule > 0) return rule;
+        rule = "silverman";
+    }
+
+    const m = s.moments;
+    const nEff = m.w2 > 0 ? (m.w * m.w) / m.w2 : xs.length;
+
+    if (rule === "isj") {
+        const h = isjBandwidth(xs, ws, s.min, s.max, nEff);
+        if (h > 0) return h;
+        warnings.push(diagnostic("kde-isj-failed", "Improved Sheather–Jones bandwidth did not converge; using Silverman's rule.", {}));
+        rule = "silverman";
+    }
+
+    const spread = rule === "scott" ? s.sd : Math.min(s.sd, s.iqr / 1.34) || s.sd || s.iqr / 1.34;
+    const factor = rule === "scott" ? 1.06 : 0.9;
+    const h = factor * spread * Math.pow(nEff, -1 / 5);
+    if (h > 0 && Number.isFinite(h)) return h;
+
+    // Constant data: fall back to a width proportional to the magnitude of the values.
+    return Math.max(Math.abs(s.min) * 1e-3, 1e-3);
+}
+
+/**
+ * Improved Sheather–Jones (Botev, Grotowski & Kroese, 2010): solves the fixed-point equation for the
+ * diffusion time on the DCT of the binned data. Returns 0 when no root is bracketed.
+ */
+function isjBandwidth(xs: ArrayLike<number>, ws: ArrayLike<number>, min: number, max: number, nEff: number): number {
+    const range = max - min;
+    if (!(range > 0)) return 0;
+    const lo = min - range / 10, span = range * 1.2;
+    const n = ISJ_GRID;
+
+    const hist = new Float64Array(n);
+    let total = 0;
+    for (let i = 0; i < xs.length; i++) {
+        const j = Math.min(n - 1, Math.floor(((xs[i]! - lo) / span) * n));
+        hist[j]! += ws[i]!;
+        total += ws[i]!;
+    }
+    for (let j = 0; j < n; j++) hist[j]! /= total;
+
+    // Squared DCT-II coefficients a_k = Σ_j x_j cos(πk(2j + 1) / 2n), k ≥ 1.
+    const a2 = new Float64Array(n - 1);
+    const sq = new Float64Array(n - 1);
+    for (let k = 1; k < n; k++) {
+        let a = 0;
+        for (let j = 0; j < n; j++) if (hist[j]) a += hist[j]! * Math.cos((Math.PI * k * (2 * j + 1)) / (2 * n));
+        a2[k - 1] = a * a;
+        sq[k - 1] = k * k;
+    }
+
+    const functional = (s: number, t: number) => {
+        let f = 0;
+        for (let i = 0; i < sq.length; i++) f += Math.pow(sq[i]!, s) * a2[i]! * Math.exp(-sq[i]! * Math.PI * Math.PI * t);
+        return 2 * Math.pow(Math.PI, 2 * s) * f;
+    };
+
+    const fixedPoint = (t: number) => {
+        const l = 7;
+        let f = functional(l, t);
+        for (let s = l - 1; s >= 2; s--) {
+            let k0 = 1;
+            for (let j = 1; j <= 2 * s - 1; j += 2) k0 *= j;
+            k0 /= Math.sqrt(2 * Math.PI);
+            const c = (1 + Math.pow(0.5, s + 0.5)) / 3;
+            const time = Math.pow((2 * c * k0) / (nEff * f), 2 / (3 + 2 * s));
+            f = functional(s, time);
+        }
+        return t - Math.pow(2 * nEff * Math.sqrt(Math.PI) * f, -2 / 5);
+    };
+
+    let a = 1e-12, b = 0.1;
+    let fa = fixedPoint(a);
+    const fb = fixedPoint(b);
+    if (!(Number.isFinite(fa) && Number.isFinite(fb)) || fa * fb > 0) return 0;
+
+    for (let iter = 0; iter < 100 && b - a > 1e-14; iter++) {
+        const mid = (a + b) / 2;
+        const fm = fixedPoint(mid);
+        if (fa * fm <= 0) b = mid; else { a = mid; fa = fm; }
+    }
+
+    return Math.sqrt((a + b) / 2) * span;
+}
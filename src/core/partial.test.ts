@@ -0,0 +1,54 @@
+// src/core/partial.test.ts
+import { describe, expect, it } from "vitest";
+import { computeHistogram } from "./engine.js";
+import { computePartialHistogram, finalizePartial, mergeHistograms } from "./partial.js";
+import type { HistogramLogicConfig } from "./types.js";
+
+describe("mergeHistograms", () => {
+    const data = Array.from({ length: 300 }, (_, i) => ((i * 7919) % 1000) / 10 - 5);
+    const shards = [data.slice(0, 70), data.slice(70, 71), [], data.slice(71)];
+    const cfg: Omit<HistogramLogicConfig<number>, "data"> = {
+        domain: [0, 90],
+        overflow: true,
+        binning: { mode: "binCount", binCount: 18 },
+    };
+
+    it("finalizes to computeHistogram over the concatenated data", () => {
+        const merged = shards.map(d => computePartialHistogram({ ...cfg, data: d })).reduce(mergeHistograms);
+        const result = finalizePartial(merged, { uncertainty: true });
+        const direct = computeHistogram({ ...cfg, data, uncertainty: true });
+
+        expect(result.domain).toEqual(direct.domain);
+        expect(result.binWidth).toBe(direct.binWidth);
+        expect(result.binning).toEqual(direct.binning);
+        expect(result.bins.map(b => [b.start, b.end, b.items])).toEqual(direct.bins.map(b => [b.start, b.end, b.items]));
+        result.bins.forEach((b, i) => {
+            const d = direct.bins[i]!;
+            expect(b.count).toBeCloseTo(d.count, 9);
+            expect(b.density).toBeCloseTo(d.density, 9);
+            expect(b.uncertainty?.count[0]).toBeCloseTo(d.uncertainty!.count[0], 9);
+        });
+
+        const { stats } = result;
+        expect(stats.n).toBe(direct.stats.n);
+        expect(stats.min).toBe(direct.stats.min);
+        expect(stats.max).toBe(direct.stats.max);
+        expect(stats.mean).toBeCloseTo(direct.stats.mean, 9);
+        expect(stats.variance).toBeCloseTo(direct.stats.variance, 9);
+        expect(stats.median).toBeCloseTo(direct.stats.median, 0);
+    });
+
+    it("is associative", () => {
+        const [a, b, c] = [data.slice(0, 100), data.slice(100, 200), data.slice(200)].map(d => computePartialHistogram({ ...cfg, data: d }));
+        const left = finalizePartial(mergeHistograms(mergeHistograms(a!, b!), c!));
+        const right = finalizePartial(mergeHistograms(a!, mergeHistograms(b!, c!)));
+        expect(right.bins.map(x => x.items)).toEqual(left.bins.map(x => x.items));
+        expect(right.stats.variance).toBeCloseTo(left.stats.variance, 9);
+    });
+
+    it("flags bin-estimated quantiles", () => {
+        const result = finalizePartial(computePartialHistogram({ ...cfg, data }));
+        expect(result.diagnostics).toContainEqual(expect.objectContaining({ code: "quantiles-estimated", severity: "info" }));
+        expect(computeHistogram({ ...cfg, data }).diagnostics?.map(d => d.code) ?? []).not.toContain("quantiles-estimated");
+    });
+});
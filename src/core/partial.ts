@@ -0,0 +1,298 @@
+// src/core/partial.ts
+import { accumulate } from "./assign.js";
+import { addDropped, diagnostic, droppedDiagnostic, noDropped, report, uniqueDiagnostics } from "./diagnostics.js";
+import {
+    buildBins,
+    computeBinningPlan,
+    emptyResult,
+    extractValuesAndWeights,
+    resolveDomain,
+    resolveOverflowFlags
+} from "./engine.helpers.js";
+import { HistogramMergeError } from "./errors.js";
+import { combineMoments, summarize, summarizeBinned } from "./stats.js";
+import { resolveUncertainty } from "./uncertainty.js";
+import { checkConfig } from "./validate.js";
+import type {
+    BinningReport,
+    DroppedCounts,
+    HistogramDiagnostic,
+    HistogramLogicConfig,
+    HistogramPartial,
+    HistogramResult
+} from "./types.js";
+
+export interface PartialOptions {
+    /** Keep contributing item indices (default true). Disable to keep serialized partials small. */
+    items?: boolean;
+}
+
+export type FinalizeOptions = Pick<HistogramLogicConfig, "measure" | "quantiles" | "variance" | "uncertainty">;
+
+/**
+ * Computes a mergeable partial histogram for one shard of data.
+ *
+ * Shards are only mergeable when they share edges, so every shard should use the same explicit
+ * `domain` and a fixed `binWidth`/`binCount` strategy. A robust `DomainStrategy` is resolved from each
+ * shard's own values, so shards planned with one rarely merge. A shard without valid data and without a
+ * domain yields the merge identity (no edges).
+ *
+ * @throws HistogramConfigError with `strict: true` when the config is invalid.
+ */
+export function computePartialHistogram<T>(cfg: HistogramLogicConfig<T>, options: PartialOptions = {}): HistogramPartial {
+    const problems = checkConfig(cfg);
+    const extracted = extractValuesAndWeights(cfg);
+    const { xs, ws, dropped } = extracted;
+    const warnings = [...problems, ...extracted.warnings];
+    const { under, over } = resolveOverflowFlags(cfg.overflow, cfg.domain);
+    const edgeRule = cfg.edgeRule ?? "closed-right";
+    const withItems = options.items ?? true;
+
+    const base: HistogramPartial = {
+        version: 1, edges: [], binWidth: 1, edgeRule, underflow: under, overflow: over,
+        counts: [], underflowWeight: 0, overflowWeight: 0,
+        n: 0, sumW: 0, sumXW: 0, sumX2W: 0, sumW2: 0,
+        moments: { mean: 0, m2: 0, m3: 0, m4: 0 }, min: null, max: null, warnings: [], dropped,
+    };
+
+    if (xs.length === 0 && !Array.isArray(cfg.domain)) return report(base, warnings);
+
+    const s = xs.length > 0 ? summarize(xs, ws) : null;
+    const [d0, d1, domainWarnings] = resolveDomain(cfg.domain, s?.min ?? 0, s?.max ?? 1, s ? { xs, ws, ...s } : undefined);
+    warnings.push(...domainWarnings);
+
+    const { h, edges, uniform, labels, binWarnings, report: binning } = computeBinningPlan(
+        d0, d1, xs.length, s?.iqr ?? 0, s?.sd ?? 0, cfg.binning, { xs, ws }
+    );
+    warnings.push(...binWarnings);
+
+    // Always track both tails so partials with different overflow flags still merge losslessly.
+    const { counts, sumW2, items } = accumulate(xs, ws, edges, edgeRule, true, true, uniform, withItems ? "indices" : "none");
+
+    let sumXW = 0, sumX2W = 0;
+    for (let i = 0; i < xs.length; i++) {
+        const v = xs[i]!; const w = ws[i]!;
+        sumXW += v * w;
+        sumX2W += v * v * w;
+    }
+
+    const partial: HistogramPartial = {
+        ...base,
+        edges,
+        binWidth: h,
+        counts: counts.slice(1, -1),
+        underflowWeight: counts[0]!,
+        overflowWeight: counts[counts.length - 1]!,
+        squaredWeights: { underflow: sumW2[0]!, bins: sumW2.slice(1, -1), overflow: sumW2[sumW2.length - 1]! },
+        n: xs.length,
+        sumW: s?.totalWeight ?? 0,
+        sumXW,
+        sumX2W,
+        sumW2: s?.moments.w2 ?? 0,
+        moments: s ? { mean: s.moments.mean, m2: s.moments.m2, m3: s.moments.m3, m4: s.moments.m4 } : base.moments,
+        min: s?.min ?? null,
+        max: s?.max ?? null,
+        binning,
+    };
+
+    if (labels) partial.edgeLabels = labels;
+    if (withItems) {
+        partial.items = { underflow: items[0]!, bins: items.slice(1, -1), overflow: items[items.length - 1]! };
+    }
+
+    return report(partial, warnings);
+}
+
+/**
+ * Merges two partial histograms. The operation is associative and the edge-less partial is its identity,
+ * so shards can be reduced in any grouping.
+ *
+ * Item indices of `b` are shifted by `a.n`, matching `computeHistogram` over `a`'s data followed by `b`'s.
+ * Items are kept only when both sides carry them.
+ *
+ * @throws HistogramMergeError when versions, edges or edge rules differ.
+ */
+export function mergeHistograms(a: HistogramPartial, b: HistogramPartial): HistogramPartial {
+    if (a.version !== 1 || b.version !== 1) {
+        throw new HistogramMergeError("version", `Unsupported partial histogram version (${a.version}, ${b.version}).`);
+    }
+
+    if (a.edges.length === 0 && a.n === 0) return clonePartial(b, a);
+    if (b.edges.length === 0 && b.n === 0) return clonePartial(a, b);
+
+    if (a.edges.length !== b.edges.length) {
+        throw new HistogramMergeError(
+            "edges",
+            `Cannot merge histograms with different bin counts (${a.edges.length - 1} vs ${b.edges.length - 1}).`
+        );
+    }
+    for (let i = 0; i < a.edges.length; i++) {
+        if (a.edges[i] !== b.edges[i]) {
+            throw new HistogramMergeError(
+                "edges",
+                `Cannot merge histograms with different edges: edge ${i} is ${a.edges[i]} vs ${b.edges[i]}.`
+            );
+        }
+    }
+    if (a.edgeRule !== b.edgeRule) {
+        throw new HistogramMergeError("edge-rule", `Cannot merge histograms with different edge rules (${a.edgeRule} vs ${b.edgeRule}).`);
+    }
+
+    const merged: HistogramPartial = {
+        version: 1,
+        edges: a.edges.slice(),
+        binWidth: a.binWidth,
+        edgeRule: a.edgeRule,
+        underflow: a.underflow || b.underflow,
+        overflow: a.overflow || b.overflow,
+        counts: a.counts.map((c, i) => c + b.counts[i]!),
+        underflowWeight: a.underflowWeight + b.underflowWeight,
+        overflowWeight: a.overflowWeight + b.overflowWeight,
+        n: a.n + b.n,
+        sumW: a.sumW + b.sumW,
+        sumXW: a.sumXW + b.sumXW,
+        sumX2W: a.sumX2W + b.sumX2W,
+        sumW2: a.sumW2 + b.sumW2,
+        moments: mergeMoments(a, b),
+        min: pick(a.min, b.min, Math.min),
+        max: pick(a.max, b.max, Math.max),
+        warnings: [],
+        dropped: addDropped(a.dropped ?? noDropped(), b.dropped ?? noDropped()),
+    };
+    report(merged, mergedDiagnostics(a, b, merged.dropped!));
+
+    if (a.edgeLabels) merged.edgeLabels = a.edgeLabels.slice();
+    const binning = a.binning ?? b.binning;
+    if (binning) merged.binning = cloneBinning(binning);
+
+    if (a.squaredWeights && b.squaredWeights) {
+        const sa = a.squaredWeights, sb = b.squaredWeights;
+        merged.squaredWeights = {
+            underflow: sa.underflow + sb.underflow,
+            bins: sa.bins.map((v, i) => v + sb.bins[i]!),
+            overflow: sa.overflow + sb.overflow,
+        };
+    }
+
+    if (a.items && b.items) {
+        const shift = (xs: number[]) => xs.map(i => i + a.n);
+        merged.items = {
+            underflow: [...a.items.underflow, ...shift(b.items.underflow)],
+            bins: a.items.bins.map((xs, i) => [...xs, ...shift(b.items!.bins[i]!)]),
+            overflow: [...a.items.overflow, ...shift(b.items.overflow)],
+        };
+    }
+
+    return merged;
+}
+
+/**
+ * Converts a (possibly merged) partial into a regular `HistogramResult`.
+ *
+ * Counts and moments (mean, variance, skewness, kurtosis) are exact; the median, quartiles, MAD and
+ * requested quantiles are estimated from the bins since raw values are not kept, which an info
+ * `quantiles-estimated` diagnostic records.
+ */
+export function finalizePartial<T = unknown>(p: HistogramPartial, options: FinalizeOptions = {}): HistogramResult<T> {
+    const problems = checkConfig(options);
+    const warnings = [...problems, ...diagnosticsOf(p)];
+    const dropped = p.dropped ?? noDropped();
+
+    if (p.n === 0 || p.edges.length < 2) return { ...emptyResult<T>(warnings), dropped };
+
+    const slotCounts = [p.underflowWeight, ...p.counts, p.overflowWeight];
+    const counts = p.counts.slice();
+    const sq = p.squaredWeights;
+    const sumW2 = sq ? sq.bins.slice() : [];
+    const items = p.items ? p.items.bins.map(xs => xs.slice()) : p.counts.map(() => [] as number[]);
+
+    if (p.underflow) {
+        counts.unshift(p.underflowWeight);
+        sumW2.unshift(sq?.underflow ?? 0);
+        items.unshift(p.items ? p.items.underflow.slice() : []);
+    }
+    if (p.overflow) {
+        counts.push(p.overflowWeight);
+        sumW2.push(sq?.overflow ?? 0);
+        items.push(p.items ? p.items.overflow.slice() : []);
+    }
+
+    let ctx = resolveUncertainty(options.uncertainty, p.n, p.sumW, p.sumW2);
+    if (ctx && !sq) {
+        warnings.push(diagnostic("partial-missing-squared-weights", "Partial has no per-bin squared weights; uncertainty is omitted.", {}));
+        ctx = null;
+    }
+
+    const bins = buildBins<T>(
+        counts, items, p.edges, p.binWidth, p.underflow, p.overflow, p.sumW, options.measure, p.edgeLabels, ctx && { sumW2, ctx }
+    );
+
+    const moments = { w: p.sumW, w2: p.sumW2, ...p.moments };
+    warnings.push(diagnostic(
+        "quantiles-estimated",
+        "Median, quartiles, MAD and quantiles are estimated from the bins of a partial histogram.",
+        {},
+        "info"
+    ));
+
+    const result: HistogramResult<T> = {
+        bins,
+        domain: [p.edges[0]!, p.edges[p.edges.length - 1]!],
+        binWidth: p.binWidth,
+        stats: summarizeBinned(slotCounts, p.edges, true, p.n, p.min!, p.max!, moments, options),
+        dropped,
+    };
+    if (p.binning) result.binning = cloneBinning(p.binning);
+
+    return report(result, warnings);
+}
+
+/** Clones `p`, folding in the diagnostics and dropped counts of `identity`, an edge-less partial. */
+function clonePartial(p: HistogramPartial, identity: HistogramPartial): HistogramPartial {
+    const out: HistogramPartial = {
+        ...p,
+        edges: p.edges.slice(),
+        counts: p.counts.slice(),
+        dropped: addDropped(p.dropped ?? noDropped(), identity.dropped ?? noDropped()),
+    };
+    report(out, mergedDiagnostics(p, identity, out.dropped!));
+    if (p.edgeLabels) out.edgeLabels = p.edgeLabels.slice();
+    if (p.binning) out.binning = cloneBinning(p.binning);
+    if (p.squaredWeights) out.squaredWeights = { ...p.squaredWeights, bins: p.squaredWeights.bins.slice() };
+    if (p.items) {
+        out.items = { underflow: p.items.underflow.slice(), bins: p.items.bins.map(xs => xs.slice()), overflow: p.items.overflow.slice() };
+    }
+    return out;
+}
+
+function cloneBinning(b: BinningReport): BinningReport {
+    const out: BinningReport = { ...b };
+    if (b.candidates) out.candidates = { ...b.candidates };
+    if (b.fallbacks) out.fallbacks = b.fallbacks.map(f => ({ ...f }));
+    return out;
+}
+
+function mergeMoments(a: HistogramPartial, b: HistogramPartial): HistogramPartial["moments"] {
+    const { mean, m2, m3, m4 } = combineMoments(
+        { w: a.sumW, w2: a.sumW2, ...a.moments },
+        { w: b.sumW, w2: b.sumW2, ...b.moments }
+    );
+    return { mean, m2, m3, m4 };
+}
+
+function pick(a: number | null, b: number | null, f: (a: number, b: number) => number) {
+    return a == null ? b : b == null ? a : f(a, b);
+}
+
+/** Both sides' diagnostics without duplicates, with one `values-dropped` summary for the combined counts. */
+function mergedDiagnostics(a: HistogramPartial, b: HistogramPartial, dropped: DroppedCounts) {
+    const out: HistogramDiagnostic[] = uniqueDiagnostics(diagnosticsOf(a), diagnosticsOf(b)).filter(d => d.code !== "values-dropped");
+    const skipped = droppedDiagnostic(dropped);
+    if (skipped) out.push(skipped);
+    return out;
+}
+
+/** Partials from older versions carry only messages; those become generic `partial-warning` diagnostics. */
+function diagnosticsOf(p: HistogramPartial): HistogramDiagnostic[] {
+    return p.diagnostics ?? p.warnings.map(message => diagnostic("partial-warning", message, {}));
+}
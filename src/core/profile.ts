@@ -0,0 +1,66 @@
+// src/core/profile.ts
+import { binItems } from "./items.js";
+import { createMoments, describeMoments, pushMoment, sampleQuantile, sortWeighted } from "./stats.js";
+import type { SummarizeOptions } from "./stats.js";
+import type { BinProfile, HistogramBin, PackedItems } from "./types.js";
+
+/** Extracted profile variable, aligned with the histogram's values (NaN where y is invalid). */
+export interface ProfileInput {
+    ys: ArrayLike<number>;
+    median: boolean;
+}
+
+/**
+ * Sets `profile` on every bin from the y values of its items. Item indices must refer to `ys`/`ws`,
+ * which holds for the overall bins and for group bins alike.
+ */
+export function attachProfiles(
+    source: { bins: ReadonlyArray<HistogramBin<unknown>>; packedItems?: PackedItems },
+    input: ProfileInput,
+    ws: ArrayLike<number>,
+    options: Pick<SummarizeOptions, "quantileMethod" | "variance">
+) {
+    source.bins.forEach((b, i) => { b.profile = profileOf(binItems(source, i), input, ws, options); });
+}
+
+function profileOf(
+    items: ArrayLike<number>,
+    { ys, median }: ProfileInput,
+    ws: ArrayLike<number>,
+    options: Pick<SummarizeOptions, "quantileMethod" | "variance">
+): BinProfile {
+    const m = createMoments();
+    let n = 0, sum = 0, min = Number.POSITIVE_INFINITY, max = Number.NEGATIVE_INFINITY;
+
+    for (let k = 0; k < items.length; k++) {
+        const i = items[k]!;
+        const y = ys[i]!, w = ws[i]!;
+        if (!Number.isFinite(y)) continue;
+        n++;
+        sum += w * y;
+        if (y < min) min = y;
+        if (y > max) max = y;
+        pushMoment(m, y, w);
+    }
+
+    if (n === 0) {
+        const empty: BinProfile = { n: 0, sumW: 0, sum: 0, mean: NaN, min: NaN, max: NaN, variance: 0, sd: 0 };
+        if (median) empty.median = NaN;
+        return empty;
+    }
+
+    const { variance } = describeMoments(m, options.variance);
+    const profile: BinProfile = { n, sumW: m.w, sum, mean: m.mean, min, max, variance, sd: Math.sqrt(variance) };
+
+    if (median) {
+        const vy = new Float64Array(n), vw = new Float64Array(n);
+        let j = 0;
+        for (let k = 0; k < items.length; k++) {
+            const i = items[k]!;
+            if (Number.isFinite(ys[i]!)) { vy[j] = ys[i]!; vw[j] = ws[i]!; j++; }
+        }
+        profile.median = sampleQuantile(sortWeighted(vy, vw), 0.5, options.quantileMethod ?? 7);
+    }
+
+    return profile;
+}
@@ -0,0 +1,76 @@
+// src/core/serialize.test.ts
+import { describe, expect, it } from "vitest";
+import { computeHistogram } from "./engine.js";
+import { HistogramFormatError } from "./errors.js";
+import { binItems } from "./items.js";
+import { deserializeHistogram, serializeHistogram } from "./serialize.js";
+import type { HistogramBin } from "./types.js";
+
+describe("serializeHistogram", () => {
+    const data = [-3, 0.5, 1, 2, 2, 3.5, 4, 4, NaN, 9, 12];
+    const result = computeHistogram({
+        data,
+        weight: (_, i) => 1 + (i % 3),
+        domain: [0, 5],
+        overflow: true,
+        items: "packed",
+        uncertainty: true,
+        groupBy: (_, i) => i % 2 === 0 ? "even" : "odd",
+        binning: { mode: "binWidth", binWidth: 1 },
+    });
+    const withoutItems = (bins: ReadonlyArray<HistogramBin>) => bins.map(({ items: _items, ...b }) => b);
+
+    it("round-trips through JSON text, including open edges and packed items", () => {
+        const text = JSON.stringify(serializeHistogram(result));
+        expect(text).toContain('"start":"-Infinity"');
+        expect(text).toContain('"end":"Infinity"');
+
+        const back = deserializeHistogram(text);
+        expect(back.bins[0]!.start).toBe(Number.NEGATIVE_INFINITY);
+        expect(back.bins[back.bins.length - 1]!.end).toBe(Number.POSITIVE_INFINITY);
+        expect(withoutItems(back.bins)).toEqual(withoutItems(result.bins));
+        expect(back.bins.map(b => b.items)).toEqual(result.bins.map((_, i) => Array.from(binItems(result, i))));
+        expect(back.bins[0]!.items).toEqual([0]);
+        expect(back.groups!.map(g => [g.key, g.bins.map(b => b.items)]))
+            .toEqual(result.groups!.map(g => [g.key, g.bins.map((_, i) => Array.from(binItems(g, i)))]));
+        expect(back.stats).toEqual(result.stats);
+        expect(back.domain).toEqual(result.domain);
+        expect(back.binWidth).toBe(result.binWidth);
+        expect(back.binning).toEqual(result.binning);
+        expect(back.dropped).toEqual(result.dropped);
+        expect(back.diagnostics).toEqual(result.diagnostics);
+        expect(back.packedItems).toBeUndefined();
+    });
+
+    it("leaves items out with items: false", () => {
+        const out = serializeHistogram(result, { items: false });
+        expect(out.bins.every(b => b.items === undefined)).toBe(true);
+        const back = deserializeHistogram(JSON.parse(JSON.stringify(out)) as typeof out);
+        expect(back.bins.every(b => b.items.length === 0)).toBe(true);
+        expect(withoutItems(back.bins)).toEqual(withoutItems(result.bins));
+    });
+
+    it("throws HistogramFormatError locating the offending field", () => {
+        const valid = serializeHistogram(result);
+        const fail = (input: unknown) => {
+            try {
+                deserializeHistogram(input as string);
+            } catch (e) {
+                expect(e).toBeInstanceOf(HistogramFormatError);
+                return [(e as HistogramFormatError).path, (e as Error).message];
+            }
+            throw new Error("expected a HistogramFormatError");
+        };
+
+        expect(fail("{")[0]).toBe("");
+        expect(fail("{")[1]).toMatch(/^Invalid JSON: /);
+        expect(fail("[]")).toEqual(["", "expected an object"]);
+        expect(fail({ ...valid, format: "table" })).toEqual(["format", 'format: expected "histogram", got "table"']);
+        expect(fail({ ...valid, version: 2 })).toEqual(["version", "version: unsupported version 2"]);
+        expect(fail({ ...valid, domain: [0] })).toEqual(["domain", "domain: expected two numbers"]);
+        expect(fail({ ...valid, bins: [{ ...valid.bins[0], start: "-inf" }] }))
+            .toEqual(["bins[0].start", 'bins[0].start: expected a number, got "-inf"']);
+        expect(fail({ ...valid, stats: { ...valid.stats, mean: null } })[0]).toBe("stats.mean");
+        expect(fail({ ...valid, groups: [{ key: 1 }] })[0]).toBe("groups[0].key");
+    });
+});
@@ -0,0 +1,399 @@
+// src/core/serialize.ts
+import { HistogramFormatError } from "./errors.js";
+import { binItems } from "./items.js";
+import type {
+    BinningReport,
+    BinProfile,
+    BinUncertainty,
+    ClippedSide,
+    DroppedCounts,
+    HistogramBin,
+    HistogramDiagnostic,
+    HistogramGroup,
+    HistogramResult,
+    HistogramStats,
+    JsonNumber,
+    KDEResult,
+    PackedItems,
+    SerializedBin,
+    SerializedHistogram,
+    SerializeOptions
+} from "./types.js";
+
+const STAT_KEYS = [
+    "n", "totalWeight", "min", "max", "mean", "variance", "sd", "iqr",
+    "median", "q1", "q3", "mad", "skewness", "kurtosis", "effectiveN",
+] as const satisfies ReadonlyArray<keyof HistogramStats>;
+
+const BIN_KEYS = ["index", "start", "end", "center", "width", "count", "percent", "density"] as const satisfies ReadonlyArray<keyof HistogramBin>;
+const OPTIONAL_BIN_KEYS = ["cumulativeCount", "cumulativePercent", "cumulativeDensity", "sumW2"] as const satisfies ReadonlyArray<keyof HistogramBin>;
+const PROFILE_KEYS = ["n", "sumW", "sum", "mean", "min", "max", "variance", "sd"] as const satisfies ReadonlyArray<keyof BinProfile>;
+const DROPPED_KEYS = [
+    "total", "null", "nonNumeric", "nan", "infinite", "invalidWeight", "nonPositiveWeight", "accessorError",
+] as const satisfies ReadonlyArray<keyof DroppedCounts>;
+
+const num = { $ref: "#/$defs/number" };
+const interval = { type: "array", prefixItems: [num, num], items: false, minItems: 2 };
+const numbers = (keys: ReadonlyArray<string>) => Object.fromEntries(keys.map(k => [k, num]));
+
+/**
+ * JSON Schema (draft 2020-12) of `SerializedHistogram`, version 1. Numbers may be the strings
+ * "Infinity", "-Infinity" or "NaN", which is how non-finite values (such as the open edges of
+ * under/overflow bins) are written.
+ */
+export const HISTOGRAM_JSON_SCHEMA = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    $id: "urn:lokrain:histogram:serialized:1",
+    title: "Serialized histogram",
+    type: "object",
+    required: ["format", "version", "domain", "binWidth", "bins", "stats"],
+    properties: {
+        format: { const: "histogram" },
+        version: { const: 1 },
+        domain: interval,
+        binWidth: num,
+        bins: { type: "array", items: { $ref: "#/$defs/bin" } },
+        stats: { $ref: "#/$defs/stats" },
+        kde: {
+            type: "object",
+            required: ["x", "density", "bandwidth", "kernel", "method"],
+            properties: {
+                x: { type: "array", items: num },
+                density: { type: "array", items: num },
+                bandwidth: num,
+                kernel: { enum: ["gaussian", "epanechnikov", "uniform", "triangular", "biweight", "cosine"] },
+                method: { enum: ["exact", "fft"] },
+            },
+        },
+        groups: {
+            type: "array",
+            items: {
+                type: "object",
+                required: ["key", "bins", "stats"],
+                properties: {
+                    key: { type: "string" },
+                    bins: { type: "array", items: { $ref: "#/$defs/bin" } },
+                    stats: { $ref: "#/$defs/stats" },
+                },
+            },
+        },
+        binning: {
+            type: "object",
+            required: ["mode", "binWidth", "bins"],
+            properties: {
+                mode: { type: "string" },
+                binWidth: num,
+                bins: { type: "integer", minimum: 0 },
+                requestedRule: { type: "string" },
+                rule: { type: "string" },
+                candidates: { type: "object", additionalProperties: num },
+                fallbacks: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        required: ["rule", "reason"],
+                        properties: { rule: { type: "string" }, reason: { type: "string" } },
+                    },
+                },
+            },
+        },
+        warnings: { type: "array", items: { type: "string" } },
+        diagnostics: {
+            type: "array",
+            items: {
+                type: "object",
+                required: ["code", "severity", "message", "details"],
+                properties: {
+                    code: { type: "string" },
+                    severity: { enum: ["error", "warning", "info"] },
+                    message: { type: "string" },
+                    details: { type: "object" },
+                    axis: { enum: ["x", "y"] },
+                },
+            },
+        },
+        dropped: {
+            type: "object",
+            required: [...DROPPED_KEYS],
+            properties: Object.fromEntries(DROPPED_KEYS.map(k => [k, { type: "integer", minimum: 0 }])),
+        },
+        clipped: {
+            type: "object",
+            required: ["below", "above"],
+            properties: { below: { $ref: "#/$defs/clippedSide" }, above: { $ref: "#/$defs/clippedSide" } },
+        },
+    },
+    $defs: {
+        number: {
+            oneOf: [{ type: "number" }, { enum: ["Infinity", "-Infinity", "NaN"] }],
+        },
+        clippedSide: {
+            type: "object",
+            required: ["count", "weight"],
+            properties: { count: { type: "integer", minimum: 0 }, weight: { type: "number", minimum: 0 } },
+        },
+        bin: {
+            type: "object",
+            required: [...BIN_KEYS],
+            properties: {
+                ...numbers([...BIN_KEYS, ...OPTIONAL_BIN_KEYS]),
+                index: { type: "integer", minimum: 0 },
+                items: { type: "array", items: { type: "integer", minimum: 0 } },
+                labels: {
+                    type: "object",
+                    required: ["start", "end"],
+                    properties: { start: { type: "string" }, end: { type: "string" } },
+                },
+                uncertainty: {
+                    type: "object",
+                    required: ["stdError", "count", "percent", "density"],
+                    properties: { stdError: num, count: interval, percent: interval, density: interval },
+                },
+                profile: {
+                    type: "object",
+                    required: [...PROFILE_KEYS],
+                    properties: numbers([...PROFILE_KEYS, "median"]),
+                },
+            },
+        },
+        stats: {
+            type: "object",
+            required: [...STAT_KEYS],
+            properties: {
+                ...numbers(STAT_KEYS),
+                quantiles: {
+                    type: "array",
+                    items: { type: "object", required: ["p", "value"], properties: { p: num, value: num } },
+                },
+            },
+        },
+    },
+} as const;
+
+/**
+ * Converts a result to plain JSON data matching `HISTOGRAM_JSON_SCHEMA`, so `JSON.stringify` keeps
+ * infinite bin edges and NaN statistics. Packed item indices are written per bin, as bin `items`;
+ * bin `sample`s are not written.
+ */
+export function serializeHistogram<T>(result: HistogramResult<T>, options: SerializeOptions = {}): SerializedHistogram {
+    const withItems = options.items ?? true;
+    const bins = (source: { bins: ReadonlyArray<HistogramBin<T>>; packedItems?: PackedItems }) =>
+        source.bins.map((b, i) => serializeBin(b, withItems ? binItems(source, i) : null));
+
+    const out: SerializedHistogram = {
+        format: "histogram",
+        version: 1,
+        domain: [encode(result.domain[0]), encode(result.domain[1])],
+        binWidth: encode(result.binWidth),
+        bins: bins(result),
+        stats: encodeDeep(result.stats) as SerializedHistogram["stats"],
+    };
+
+    if (result.kde) {
+        const { x, density, bandwidth, kernel, method } = result.kde;
+        out.kde = { x: x.map(encode), density: density.map(encode), bandwidth: encode(bandwidth), kernel, method };
+    }
+    if (result.groups) {
+        out.groups = result.groups.map(g => ({
+            key: g.key,
+            bins: bins(g),
+            stats: encodeDeep(g.stats) as SerializedHistogram["stats"],
+        }));
+    }
+    if (result.binning) out.binning = encodeDeep(result.binning) as NonNullable<SerializedHistogram["binning"]>;
+    if (result.warnings) out.warnings = result.warnings.slice();
+    if (result.diagnostics) out.diagnostics = encodeDeep(result.diagnostics) as NonNullable<SerializedHistogram["diagnostics"]>;
+    if (result.dropped) out.dropped = { ...result.dropped };
+    if (result.clipped) out.clipped = { below: { ...result.clipped.below }, above: { ...result.clipped.above } };
+    return out;
+}
+
+/**
+ * Restores a result from `serializeHistogram` output, or from its JSON text. Bins written without
+ * items get empty `items`.
+ *
+ * @throws HistogramFormatError when the input is not a version 1 serialized histogram.
+ */
+export function deserializeHistogram<T = unknown>(input: string | SerializedHistogram): HistogramResult<T> {
+    let raw: unknown = input;
+    if (typeof input === "string") {
+        try {
+            raw = JSON.parse(input);
+        } catch (e) {
+            throw new HistogramFormatError("", `Invalid JSON: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+
+    const o = object(raw, "");
+    if (o.format !== "histogram") throw new HistogramFormatError("format", `expected "histogram", got ${JSON.stringify(o.format)}`);
+    if (o.version !== 1) throw new HistogramFormatError("version", `unsupported version ${JSON.stringify(o.version)}`);
+
+    const result: HistogramResult<T> = {
+        bins: array(o.bins, "bins").map((b, i) => decodeBin<T>(b, `bins[${i}]`)),
+        domain: pair(o.domain, "domain"),
+        binWidth: decode(o.binWidth, "binWidth"),
+        stats: decodeStats(o.stats, "stats"),
+    };
+
+    if (o.kde !== undefined) result.kde = decodeKde(o.kde, "kde");
+    if (o.groups !== undefined) {
+        result.groups = array(o.groups, "groups").map((g, i): HistogramGroup<T> => {
+            const path = `groups[${i}]`;
+            const go = object(g, path);
+            return {
+                key: string(go.key, `${path}.key`),
+                bins: array(go.bins, `${path}.bins`).map((b, j) => decodeBin<T>(b, `${path}.bins[${j}]`)),
+                stats: decodeStats(go.stats, `${path}.stats`),
+            };
+        });
+    }
+    if (o.binning !== undefined) result.binning = decodeDeep(object(o.binning, "binning")) as BinningReport;
+    if (o.warnings !== undefined) result.warnings = array(o.warnings, "warnings").map((w, i) => string(w, `warnings[${i}]`));
+    if (o.diagnostics !== undefined) {
+        result.diagnostics = array(o.diagnostics, "diagnostics").map((d, i) => decodeDiagnostic(d, `diagnostics[${i}]`));
+    }
+    if (o.dropped !== undefined) {
+        const d = object(o.dropped, "dropped");
+        result.dropped = Object.fromEntries(DROPPED_KEYS.map(k => [k, decode(d[k], `dropped.${k}`)])) as unknown as DroppedCounts;
+    }
+    if (o.clipped !== undefined) {
+        const c = object(o.clipped, "clipped");
+        const side = (v: unknown, path: string): ClippedSide => {
+            const so = object(v, path);
+            return { count: decode(so.count, `${path}.count`), weight: decode(so.weight, `${path}.weight`) };
+        };
+        result.clipped = { below: side(c.below, "clipped.below"), above: side(c.above, "clipped.above") };
+    }
+    return result;
+}
+
+function serializeBin<T>(b: HistogramBin<T>, items: ArrayLike<number> | null): SerializedBin {
+    const { items: _items, sample: _sample, ...rest } = b;
+    const out = encodeDeep(rest) as SerializedBin;
+    if (items) out.items = Array.from(items);
+    return out;
+}
+
+function decodeBin<T>(v: unknown, path: string): HistogramBin<T> {
+    const o = object(v, path);
+    const bin = Object.fromEntries(BIN_KEYS.map(k => [k, decode(o[k], `${path}.${k}`)])) as unknown as HistogramBin<T>;
+    for (const k of OPTIONAL_BIN_KEYS) if (o[k] !== undefined) bin[k] = decode(o[k], `${path}.${k}`);
+
+    bin.items = o.items === undefined ? [] : array(o.items, `${path}.items`).map((x, i) => decode(x, `${path}.items[${i}]`));
+    if (o.labels !== undefined) {
+        const l = object(o.labels, `${path}.labels`);
+        bin.labels = { start: string(l.start, `${path}.labels.start`), end: string(l.end, `${path}.labels.end`) };
+    }
+    if (o.uncertainty !== undefined) {
+        const p = `${path}.uncertainty`;
+        const u = object(o.uncertainty, p);
+        const ci: BinUncertainty = {
+            stdError: decode(u.stdError, `${p}.stdError`),
+            count: pair(u.count, `${p}.count`),
+            percent: pair(u.percent, `${p}.percent`),
+            density: pair(u.density, `${p}.density`),
+        };
+        bin.uncertainty = ci;
+    }
+    if (o.profile !== undefined) {
+        const p = `${path}.profile`;
+        const po = object(o.profile, p);
+        const profile = Object.fromEntries(PROFILE_KEYS.map(k => [k, decode(po[k], `${p}.${k}`)])) as unknown as BinProfile;
+        if (po.median !== undefined) profile.median = decode(po.median, `${p}.median`);
+        bin.profile = profile;
+    }
+    return bin;
+}
+
+function decodeStats(v: unknown, path: string): HistogramStats {
+    const o = object(v, path);
+    const stats = Object.fromEntries(STAT_KEYS.map(k => [k, decode(o[k], `${path}.${k}`)])) as unknown as HistogramStats;
+    if (o.quantiles !== undefined) {
+        stats.quantiles = array(o.quantiles, `${path}.quantiles`).map((q, i) => {
+            const qo = object(q, `${path}.quantiles[${i}]`);
+            return { p: decode(qo.p, `${path}.quantiles[${i}].p`), value: decode(qo.value, `${path}.quantiles[${i}].value`) };
+        });
+    }
+    return stats;
+}
+
+function decodeKde(v: unknown, path: string): KDEResult {
+    const o = object(v, path);
+    return {
+        x: array(o.x, `${path}.x`).map((x, i) => decode(x, `${path}.x[${i}]`)),
+        density: array(o.density, `${path}.density`).map((x, i) => decode(x, `${path}.density[${i}]`)),
+        bandwidth: decode(o.bandwidth, `${path}.bandwidth`),
+        kernel: string(o.kernel, `${path}.kernel`) as KDEResult["kernel"],
+        method: string(o.method, `${path}.method`) as KDEResult["method"],
+    };
+}
+
+/** Details are free-form, so any "Infinity"/"-Infinity"/"NaN" string in them is read back as a number. */
+function decodeDiagnostic(v: unknown, path: string): HistogramDiagnostic {
+    const o = object(v, path);
+    const d = {
+        code: string(o.code, `${path}.code`),
+        severity: string(o.severity, `${path}.severity`),
+        message: string(o.message, `${path}.message`),
+        details: decodeDeep(object(o.details, `${path}.details`)),
+    } as HistogramDiagnostic;
+    if (o.axis !== undefined) d.axis = string(o.axis, `${path}.axis`) as "x" | "y";
+    return d;
+}
+
+function encode(v: number): JsonNumber {
+    if (Number.isFinite(v)) return v;
+    return Number.isNaN(v) ? "NaN" : v > 0 ? "Infinity" : "-Infinity";
+}
+
+function decode(v: unknown, path: string): number {
+    if (typeof v === "number") return v;
+    if (v === "Infinity") return Number.POSITIVE_INFINITY;
+    if (v === "-Infinity") return Number.NEGATIVE_INFINITY;
+    if (v === "NaN") return Number.NaN;
+    throw new HistogramFormatError(path, `expected a number, got ${JSON.stringify(v) ?? typeof v}`);
+}
+
+/** Deep copy of plain data with numbers encoded; undefined fields and functions are left out, as in JSON. */
+function encodeDeep(v: unknown): unknown {
+    if (typeof v === "number") return encode(v);
+    if (Array.isArray(v)) return v.map(encodeDeep);
+    if (v !== null && typeof v === "object") {
+        const out: Record<string, unknown> = {};
+        for (const [k, x] of Object.entries(v)) {
+            if (x !== undefined && typeof x !== "function") out[k] = encodeDeep(x);
+        }
+        return out;
+    }
+    return v;
+}
+
+function decodeDeep(v: unknown): unknown {
+    if (v === "Infinity" || v === "-Infinity" || v === "NaN") return decode(v, "");
+    if (Array.isArray(v)) return v.map(decodeDeep);
+    if (v !== null && typeof v === "object") {
+        return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, decodeDeep(x)]));
+    }
+    return v;
+}
+
+function object(v: unknown, path: string): Record<string, unknown> {
+    if (v !== null && typeof v === "object" && !Array.isArray(v)) return v as Record<string, unknown>;
+    throw new HistogramFormatError(path, "expected an object");
+}
+
+function array(v: unknown, path: string): unknown[] {
+    if (Array.isArray(v)) return v;
+    throw new HistogramFormatError(path, "expected an array");
+}
+
+function string(v: unknown, path: string): string {
+    if (typeof v === "string") return v;
+    throw new HistogramFormatError(path, "expected a string");
+}
+
+function pair(v: unknown, path: string): [number, number] {
+    const a = array(v, path);
+    if (a.length !== 2) throw new HistogramFormatError(path, "expected two numbers");
+    return [decode(a[0], `${path}[0]`), decode(a[1], `${path}[1]`)];
+}
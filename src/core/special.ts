@@ -0,0 +1,194 @@
+// src/core/special.ts
+
+/**
+ * Special functions and reference distributions for goodness-of-fit and comparison tests.
+ *
+ * Accuracy targets are those of a plotting/monitoring library (about 1e-7 relative), not a numerics library.
+ *
+ * @packageDocumentation
+ */
+
+const LANCZOS = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/** Natural log of the gamma function (Lanczos approximation, g = 7). */
+export function lnGamma(x: number): number {
+    if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - lnGamma(1 - x);
+    x -= 1;
+    let a = LANCZOS[0]!;
+    const t = x + 7.5;
+    for (let i = 1; i < 9; i++) a += LANCZOS[i]! / (x + i);
+    return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/** Regularized upper incomplete gamma function Q(a, x) = Γ(a, x) / Γ(a). */
+export function gammaQ(a: number, x: number): number {
+    if (!(x > 0) || !(a > 0)) return 1;
+    if (x < a + 1) return 1 - gammaSeries(a, x);
+    return gammaFraction(a, x);
+}
+
+function gammaSeries(a: number, x: number) {
+    let sum = 1 / a, term = sum, ap = a;
+    for (let n = 0; n < 500; n++) {
+        ap += 1;
+        term *= x / ap;
+        sum += term;
+        if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return sum * Math.exp(-x + a * Math.log(x) - lnGamma(a));
+}
+
+function gammaFraction(a: number, x: number) {
+    const tiny = 1e-300;
+    let b = x + 1 - a, c = 1 / tiny, d = 1 / b, h = d;
+    for (let i = 1; i < 500; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b; if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c; if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const del = d * c;
+        h *= del;
+        if (Math.abs(del - 1) < 1e-15) break;
+    }
+    return Math.exp(-x + a * Math.log(x) - lnGamma(a)) * h;
+}
+
+/** Complementary error function (Chebyshev fit, fractional error < 1.2e-7). */
+export function erfc(x: number): number {
+    const z = Math.abs(x);
+    const t = 1 / (1 + 0.5 * z);
+    const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418
+        + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587
+        + t * (-0.82215223 + t * 0.17087277)))))))));
+    return x >= 0 ? r : 2 - r;
+}
+
+/** Standard normal CDF. */
+export function normalCdf(z: number): number {
+    if (z === Number.NEGATIVE_INFINITY) return 0;
+    if (z === Number.POSITIVE_INFINITY) return 1;
+    return 0.5 * erfc(-z / Math.SQRT2);
+}
+
+/** Inverse of the regularized lower incomplete gamma function: x with P(a, x) = p. */
+export function gammaPInverse(a: number, p: number): number {
+    if (!(a > 0) || !(p > 0)) return 0;
+    if (p >= 1) return Number.POSITIVE_INFINITY;
+
+    let lo = 0, hi = Math.max(1, a);
+    while (1 - gammaQ(a, hi) < p) hi *= 2;
+    for (let i = 0; i < 200 && hi - lo > 1e-12 * Math.max(1, hi); i++) {
+        const mid = (lo + hi) / 2;
+        if (1 - gammaQ(a, mid) < p) lo = mid; else hi = mid;
+    }
+    return (lo + hi) / 2;
+}
+
+/** Regularized incomplete beta function I_x(a, b) (continued fraction). */
+export function betaRegularized(x: number, a: number, b: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    const front = Math.exp(lnGamma(a + b) - lnGamma(a) - lnGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+    return x < (a + 1) / (a + b + 2) ? front * betaFraction(x, a, b) / a : 1 - front * betaFraction(1 - x, b, a) / b;
+}
+
+function betaFraction(x: number, a: number, b: number) {
+    const tiny = 1e-300;
+    let c = 1, d = 1 - (a + b) * x / (a + 1);
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let h = d;
+    for (let m = 1; m < 500; m++) {
+        const m2 = 2 * m;
+        let an = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+        d = 1 + an * d; if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + an / c; if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d; h *= d * c;
+        an = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+        d = 1 + an * d; if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + an / c; if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const del = d * c;
+        h *= del;
+        if (Math.abs(del - 1) < 1e-15) break;
+    }
+    return h;
+}
+
+/** Inverse of the regularized incomplete beta function: x with I_x(a, b) = p. */
+export function betaInverse(p: number, a: number, b: number): number {
+    if (!(p > 0)) return 0;
+    if (p >= 1) return 1;
+    let lo = 0, hi = 1;
+    for (let i = 0; i < 100 && hi - lo > 1e-14; i++) {
+        const mid = (lo + hi) / 2;
+        if (betaRegularized(mid, a, b) < p) lo = mid; else hi = mid;
+    }
+    return (lo + hi) / 2;
+}
+
+/** Standard normal quantile (Acklam's rational approximation with one Halley refinement). */
+export function normalQuantile(p: number): number {
+    if (!(p > 0)) return Number.NEGATIVE_INFINITY;
+    if (p >= 1) return Number.POSITIVE_INFINITY;
+
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+    let x: number;
+    if (p < 0.02425 || p > 1 - 0.02425) {
+        const q = Math.sqrt(-2 * Math.log(Math.min(p, 1 - p)));
+        x = (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) / ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+        if (p > 0.5) x = -x;
+    } else {
+        const q = p - 0.5, r = q * q;
+        x = (((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q
+            / (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+    }
+
+    const e = normalCdf(x) - p;
+    const u = e * Math.sqrt(2 * Math.PI) * Math.exp(x * x / 2);
+    return x - u / (1 + x * u / 2);
+}
+
+/** Upper-tail p-value of a chi-square statistic with `df` degrees of freedom. */
+export function chiSquarePValue(x: number, df: number): number {
+    if (!(df > 0)) return Number.NaN;
+    return gammaQ(df / 2, x / 2);
+}
+
+/**
+ * Asymptotic p-value of the Kolmogorov–Smirnov statistic `d` for effective sample size `n`,
+ * with Stephens' small-sample correction.
+ */
+export function ksPValue(d: number, n: number): number {
+    if (!(n > 0) || !(d >= 0)) return Number.NaN;
+    const sn = Math.sqrt(n);
+    const lambda = (sn + 0.12 + 0.11 / sn) * d;
+    if (lambda < 1e-3) return 1;
+
+    if (lambda < 1.18) {
+        // P(K <= λ) = √(2π)/λ Σ exp(-(2k - 1)² π² / (8λ²))
+        let cdf = 0;
+        for (let k = 1; k <= 20; k++) cdf += Math.exp(-((2 * k - 1) ** 2) * Math.PI * Math.PI / (8 * lambda * lambda));
+        return clamp01(1 - (Math.sqrt(2 * Math.PI) / lambda) * cdf);
+    }
+
+    let q = 0;
+    for (let k = 1; k <= 100; k++) {
+        const term = Math.exp(-2 * k * k * lambda * lambda);
+        q += (k % 2 === 1 ? 2 : -2) * term;
+        if (term < 1e-16) break;
+    }
+    return clamp01(q);
+}
+
+export function clamp01(p: number) {
+    return Math.min(1, Math.max(0, p));
+}
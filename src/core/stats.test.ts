@@ -0,0 +1,63 @@
+// src/core/stats.test.ts
+import { describe, expect, it } from "vitest";
+import { quantileEdges } from "./binning.js";
+import { computeHistogram } from "./engine.js";
+import { sampleQuantile, sortWeighted, weightedQuantiles } from "./stats.js";
+import type { QuantileMethod } from "./types.js";
+
+/** Each value repeated `w` times. */
+function duplicated(xs: number[], ws: number[]) {
+    return xs.flatMap((x, i) => Array.from({ length: ws[i]! }, () => x));
+}
+
+describe("weightedQuantiles", () => {
+    const ps = [0, 0.1, 0.25, 1 / 3, 0.5, 0.6, 2 / 3, 0.7, 0.75, 0.9, 1];
+
+    it("matches R's types 1-3 and 7 on unweighted data", () => {
+        const xs = [7, 3, 1, 10, 9, 2, 8, 4, 6, 5];
+        const ones = xs.map(() => 1);
+        const at = (method: QuantileMethod) => weightedQuantiles(xs, ones, [0.1, 0.25, 0.5, 0.9], method);
+        expect(at(1)).toEqual([1, 3, 5, 9]);
+        expect(at(2)).toEqual([1.5, 3, 5.5, 9.5]);
+        expect(at(3)).toEqual([1, 2, 5, 9]);
+        expect(at(7).map(v => +v.toFixed(10))).toEqual([1.9, 3.25, 5.5, 9.1]);
+    });
+
+    it("inverts the weighted CDF: integer weights match the data duplicated", () => {
+        expect(weightedQuantiles([1, 2], [3, 1], [0.7])).toEqual([1]);
+
+        const xs = [4, 1, 3, 2, 5], ws = [1, 3, 2, 1, 4];
+        const dup = duplicated(xs, ws);
+        for (const method of [1, 2] as const) {
+            expect(weightedQuantiles(xs, ws, ps, method)).toEqual(weightedQuantiles(dup, dup.map(() => 1), ps, method));
+        }
+    });
+
+    it("does not depend on the scale of the weights", () => {
+        const xs = [4, 1, 3, 2, 5], ws = [1, 3, 2, 1, 4];
+        expect(weightedQuantiles(xs, ws.map(w => w * 0.1), ps)).toEqual(weightedQuantiles(xs, ws, ps));
+    });
+
+    it("keeps interpolating types on the rescaled order statistics", () => {
+        const s = sortWeighted([1, 2, 3, 4], [1, 1, 1, 1]);
+        expect(sampleQuantile(s, 0.5, 7)).toBe(2.5);
+        expect(sampleQuantile(s, 0.5, 6)).toBe(2.5);
+    });
+});
+
+describe("quantile edges", () => {
+    const xs = [1, 2, 3, 4], ws = [3, 1, 1, 1];
+    const dup = duplicated(xs, ws);
+
+    it("place weighted edges as on the duplicated data", () => {
+        expect(quantileEdges(1, 4, 3, xs, ws)).toEqual([1, 2, 4]);
+        expect(quantileEdges(1, 4, 3, dup, dup.map(() => 1))).toEqual([1, 2, 4]);
+    });
+
+    it("give computeHistogram the same bins for weights and duplicates", () => {
+        const binning = { mode: "quantile", count: 3 } as const;
+        const weighted = computeHistogram({ data: xs.map((x, i) => ({ x, w: ws[i]! })), x: d => d.x, weight: d => d.w, binning });
+        const plain = computeHistogram({ data: dup, binning });
+        expect(weighted.bins.map(b => [b.start, b.end, b.count])).toEqual(plain.bins.map(b => [b.start, b.end, b.count]));
+    });
+});
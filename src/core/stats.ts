@@ -4,9 +4,17 @@
  *
  * Exposes:
  * - `quantile`: Linear interpolation quantile on an ascending-sorted array.
- * - `summarize`: Single-pass weighted summary statistics plus unweighted IQR.
+ * - `sortWeighted` / `sampleQuantile`: Weighted Hyndman–Fan quantiles on a pre-sorted sample.
+ * - `weightedQuantiles`: Weighted quantiles at several probabilities (inverse CDF by default).
+ * - `createMoments` / `pushMoment` / `removeMoment` / `combineMoments` / `describeMoments`:
+ *   Numerically stable weighted central moments (Welford/Pébay updates).
+ * - `summarize`: Weighted summary statistics: moments, quartiles, MAD and requested quantiles.
+ * - `binnedQuantile` / `binnedMad`: Quantile and MAD estimates from binned counts.
+ * - `summarizeBinned`: `HistogramStats` from moments plus binned quantile estimates.
  */
-  
+
+import type { HistogramStats, QuantileMethod, QuantileValue, VarianceMode } from "./types.js";
+
 /**
  * Computes the p-quantile of an ascending-sorted numeric array using linear interpolation
  * between closest ranks.
@@ -25,9 +33,9 @@
  *
  * @param sorted Ascending-sorted numeric values (non-empty).
  * @param p Quantile in [0, 1], e.g., 0.5 for median, 0.25 for first quartile.
- * 
+ *
  * @returns The interpolated quantile value at probability `p`.
- * 
+ *
  * @example
  * ```ts
  *  quantile([1, 3, 5, 7], 0);    // 1
@@ -42,54 +50,502 @@ export function quantile(sorted: number[], p: number): number {
     return lo === hi ? sorted[lo]! : sorted[lo]! + (sorted[hi]! - sorted[lo]!) * (pos - lo);
 }
 
+/**
+ * A weighted sample sorted ascending, with cumulative weights rescaled so they sum to `n`.
+ */
+export interface WeightedSample {
+    values: Float64Array;
+    /** Cumulative rescaled weight up to and including each value; `cum[n - 1] === n`. */
+    cum: Float64Array;
+    n: number;
+}
+
+/**
+ * Sorts values together with their weights for repeated quantile queries.
+ *
+ * Weights are rescaled to sum to the number of observations, so equal weights reproduce the unweighted
+ * order statistics exactly and the result does not depend on the overall scale of the weights.
+ *
+ * Performance:
+ * - Time: O(n log n). Equal weights take a plain typed-array sort.
+ * - Space: O(n).
+ */
+export function sortWeighted(xs: ArrayLike<number>, ws: ArrayLike<number>): WeightedSample {
+    const n = xs.length;
+    const values = new Float64Array(n);
+    const cum = new Float64Array(n);
+
+    let equal = true;
+    for (let i = 1; i < n && equal; i++) if (ws[i] !== ws[0]) equal = false;
+
+    if (equal) {
+        for (let i = 0; i < n; i++) { values[i] = xs[i]!; cum[i] = i + 1; }
+        values.sort();
+        return { values, cum, n };
+    }
+
+    const order = new Uint32Array(n);
+    for (let i = 0; i < n; i++) order[i] = i;
+    order.sort((a, b) => xs[a]! - xs[b]!);
+
+    let total = 0;
+    for (let i = 0; i < n; i++) total += ws[i]!;
+
+    const scale = n / total;
+    let acc = 0;
+    for (let i = 0; i < n; i++) {
+        const j = order[i]!;
+        values[i] = xs[j]!;
+        acc += ws[j]! * scale;
+        cum[i] = acc;
+    }
+    cum[n - 1] = n;
+
+    return { values, cum, n };
+}
+
+/**
+ * Computes the p-quantile of a weighted sample using Hyndman–Fan definition `method` (1–9).
+ *
+ * Algorithm:
+ * - Let `m` be the definition's offset (0, 0, -1/2, 0, 1/2, p, 1 - p, (p + 1)/3, p/4 + 3/8) and
+ *   `j = floor(n*p + m)`, `g = n*p + m - j`.
+ * - Types 1–3 pick the first value whose cumulative weight reaches `n*p + m` (type 2 averages it with the
+ *   next value, type 3 takes the next one at an odd order statistic, when the weight lands exactly on it),
+ *   so with weights type 1 stays the inverse weighted CDF.
+ * - Types 4–9 interpolate: `(1 - g) * x(j) + g * x(j + 1)`, where the order statistic `x(j)` is the value
+ *   whose rescaled cumulative weight first reaches `j`.
+ *
+ * @param s Sorted weighted sample from `sortWeighted` (non-empty).
+ * @param p Quantile in [0, 1].
+ * @param method Hyndman–Fan definition (default 7, matching `quantile`).
+ */
+export function sampleQuantile(s: WeightedSample, p: number, method: QuantileMethod = 7): number {
+    const n = s.n;
+    const fuzz = 4 * Number.EPSILON * n;
+
+    const m = method === 3 ? -0.5
+        : method === 5 ? 0.5
+            : method === 6 ? p
+                : method === 7 ? 1 - p
+                    : method === 8 ? (p + 1) / 3
+                        : method === 9 ? p / 4 + 3 / 8
+                            : 0;
+
+    const np = n * p + m;
+
+    if (method <= 3) {
+        const { values, cum } = s;
+        const i = firstReaching(cum, np - fuzz);
+        const c = cum[i]!;
+        const exact = Math.abs(c - np) <= fuzz && i < n - 1;
+        if (method === 2 && exact && np > 0) return (values[i]! + values[i + 1]!) / 2;
+        if (method === 3 && exact && Math.round(c) % 2 === 1 && Math.abs(c - Math.round(c)) <= fuzz) return values[i + 1]!;
+        return values[i]!;
+    }
+
+    const j = Math.floor(np + fuzz);
+    const g = np - j;
+    const gamma = Math.abs(g) <= fuzz ? 0 : g;
+
+    const lo = orderStatistic(s, j);
+    if (gamma === 0) return lo;
+
+    const hi = orderStatistic(s, j + 1);
+    return gamma === 1 ? hi : lo + (hi - lo) * gamma;
+}
+
+/**
+ * Returns the `j`-th (1-based) weighted order statistic, clamped to the sample range.
+ */
+function orderStatistic(s: WeightedSample, j: number) {
+    const { values, n } = s;
+    if (j <= 0) return values[0]!;
+    if (j >= n) return values[n - 1]!;
+    return values[firstReaching(s.cum, j - 1e-9)]!;
+}
+
+/** Index of the first cumulative weight at or above `target`, clamped to the last index. */
+function firstReaching(cum: Float64Array, target: number) {
+    let lo = 0, hi = cum.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (cum[mid]! >= target) hi = mid; else lo = mid + 1;
+    }
+    return lo;
+}
+
+/**
+ * Computes weighted quantiles at several probabilities.
+ *
+ * The default definition (type 1) is the inverse of the weighted empirical CDF: for each `p`, the smallest
+ * value whose cumulative weight reaches `p * totalWeight`.
+ *
+ * Contract:
+ * - `xs` and `ws` have the same non-zero length; weights are positive. `xs` need not be sorted.
+ * - Each `p` is in the closed interval [0, 1].
+ *
+ * Performance:
+ * - Time: O(n log n) for the sort + O(m log n) for `m` probabilities.
+ * - Space: O(n) for the sorted copy and cumulative weights.
+ *
+ * @param xs Values (unsorted).
+ * @param ws Weights corresponding to each value in `xs`.
+ * @param ps Probabilities in [0, 1].
+ * @param method Hyndman–Fan definition (default 1).
+ *
+ * @returns One quantile per entry of `ps`, in the same order.
+ */
+export function weightedQuantiles(
+    xs: ArrayLike<number>,
+    ws: ArrayLike<number>,
+    ps: ReadonlyArray<number>,
+    method: QuantileMethod = 1
+): number[] {
+    const s = sortWeighted(xs, ws);
+
+    return ps.map(p => sampleQuantile(s, p, method));
+}
+
+/**
+ * Running weighted central moments: total weight `w`, sum of squared weights `w2`, `mean`, and the
+ * weighted sums of 2nd/3rd/4th powers of deviations from the mean (`m2`, `m3`, `m4`).
+ */
+export interface Moments {
+    w: number;
+    w2: number;
+    mean: number;
+    m2: number;
+    m3: number;
+    m4: number;
+}
+
+export function createMoments(): Moments {
+    return { w: 0, w2: 0, mean: 0, m2: 0, m3: 0, m4: 0 };
+}
+
+/**
+ * Merges two moment sets (Pébay's pairwise update). Exact up to rounding, associative, and stable for
+ * large offsets, unlike raw power sums.
+ */
+export function combineMoments(a: Moments, b: Moments): Moments {
+    const w = a.w + b.w;
+    if (!(w > 0)) return createMoments();
+    if (!(a.w > 0)) return { ...b };
+    if (!(b.w > 0)) return { ...a };
+
+    const d = b.mean - a.mean;
+    const dw = d / w;
+    const ab = a.w * b.w;
+
+    const m2 = a.m2 + b.m2 + d * dw * ab;
+    const m3 = a.m3 + b.m3
+        + d * dw * dw * ab * (a.w - b.w)
+        + 3 * dw * (a.w * b.m2 - b.w * a.m2);
+    const m4 = a.m4 + b.m4
+        + d * dw * dw * dw * ab * (a.w * a.w - ab + b.w * b.w)
+        + 6 * dw * dw * (a.w * a.w * b.m2 + b.w * b.w * a.m2)
+        + 4 * dw * (a.w * b.m3 - b.w * a.m3);
+
+    return { w, w2: a.w2 + b.w2, mean: a.mean + dw * b.w, m2, m3, m4 };
+}
+
+/**
+ * Adds one weighted observation in place (weighted Welford update extended to the 3rd/4th moments).
+ */
+export function pushMoment(m: Moments, x: number, w: number) {
+    const wa = m.w;
+    const W = wa + w;
+    const d = x - m.mean;
+    const dw = d / W;
+
+    m.m4 += d * dw * dw * dw * wa * w * (wa * wa - wa * w + w * w) + 6 * dw * dw * w * w * m.m2 - 4 * dw * w * m.m3;
+    m.m3 += d * dw * dw * wa * w * (wa - w) - 3 * dw * w * m.m2;
+    m.m2 += d * dw * wa * w;
+    m.mean += dw * w;
+    m.w = W;
+    m.w2 += w * w;
+}
+
+/**
+ * Removes one previously added weighted observation in place (inverse of `pushMoment`).
+ */
+export function removeMoment(m: Moments, x: number, w: number) {
+    const W = m.w;
+    const wa = W - w;
+    if (!(wa > 0) || wa < W * 1e-12) {
+        Object.assign(m, createMoments());
+        return;
+    }
+
+    const meanA = (W * m.mean - w * x) / wa;
+    const d = x - meanA;
+    const dw = d / W;
+
+    const m2 = Math.max(0, m.m2 - d * dw * wa * w);
+    const m3 = m.m3 - d * dw * dw * wa * w * (wa - w) + 3 * dw * w * m2;
+    const m4 = Math.max(0, m.m4 - d * dw * dw * dw * wa * w * (wa * wa - wa * w + w * w) - 6 * dw * dw * w * w * m2 + 4 * dw * w * m3);
+
+    m.mean = meanA; m.m2 = m2; m.m3 = m3; m.m4 = m4;
+    m.w = wa;
+    m.w2 = Math.max(0, m.w2 - w * w);
+}
+
+/**
+ * Derives variance, skewness and excess kurtosis from moments.
+ *
+ * The sample variance uses the Kish effective sample size `(Σw)² / Σw²`, so it reduces to the usual
+ * n - 1 correction for equal weights and does not depend on the scale of the weights.
+ */
+export function describeMoments(m: Moments, mode: VarianceMode = "population") {
+    if (!(m.w > 0)) return { variance: 0, skewness: 0, kurtosis: 0 };
+
+    const pop = Math.max(0, m.m2 / m.w);
+    const nEff = effectiveSize(m) || 1;
+    const variance = mode === "sample" ? (nEff > 1 ? pop * nEff / (nEff - 1) : 0) : pop;
+
+    const skewness = pop > 0 ? (m.m3 / m.w) / Math.pow(pop, 1.5) : 0;
+    const kurtosis = pop > 0 ? (m.m4 / m.w) / (pop * pop) - 3 : 0;
+
+    return { variance, skewness, kurtosis };
+}
+
+/** Kish effective sample size `(Σw)² / Σw²`; 0 without weight. */
+export function effectiveSize(m: Pick<Moments, "w" | "w2">) {
+    return m.w2 > 0 ? (m.w * m.w) / m.w2 : 0;
+}
+
+export interface SummarizeOptions {
+    quantiles?: ReadonlyArray<number>;
+    quantileMethod?: QuantileMethod;
+    variance?: VarianceMode;
+}
+
 /**
  * Computes weighted summary statistics for an array of values and corresponding weights.
  *
  * Returns the following fields:
- * - `min`: Minimum of `xs`.
- * - `max`: Maximum of `xs`.
- * - `mean`: Weighted mean of `xs` with weights `ws`.
- * - `variance`: Weighted population variance (i.e., divides by total weight, not n-1).
- * - `sd`: Square root of `variance`.
- * - `iqr`: Interquartile range (Q3 - Q1) computed from the unweighted values of `xs`.
- * - `totalWeight`: Sum of weights.
+ * - `min`, `max`: Extrema of `xs`.
+ * - `mean`, `variance`, `sd`, `skewness`, `kurtosis`: Weighted moments (population variance by default).
+ * - `median`, `q1`, `q3`, `iqr`: Weighted quartiles using `quantileMethod` (default 7).
+ * - `mad`: Weighted median absolute deviation from the median (unscaled).
+ * - `quantiles`: Requested quantiles, when `options.quantiles` is provided.
+ * - `totalWeight`: Kahan-compensated sum of weights.
+ * - `moments`: The underlying running moments (for merging).
  *
  * Notes:
  * - `xs` and `ws` must have the same non-zero length. `totalWeight` must be > 0.
- * - The IQR is computed on a copy of `xs` (unweighted) via a typed array sort for speed.
- * - Variance is clamped at 0 to guard against negative zeros caused by floating error.
+ * - Moments use a one-pass weighted Welford update, so values like 1e9 ± small keep full precision.
+ * - Quantiles sort a weighted copy of `xs`; equal weights take a plain typed-array sort.
  *
  * Performance:
- * - Time: O(n) for the single pass + O(n log n) for sorting to compute IQR.
- * - Space: O(n) for the copy used to sort for IQR.
+ * - Time: O(n) for the moments pass + O(n log n) for the quantile and MAD sorts.
+ * - Space: O(n) for the sorted copies.
  *
  * @param xs Values to summarize.
  * @param ws Weights corresponding to each value in `xs`. Must be the same length as `xs`.
- * 
- * @returns An object containing min, max, mean, variance (population), sd, iqr, totalWeight.
+ * @param options Requested quantiles, quantile definition and variance estimator.
+ *
+ * @returns Summary statistics as described above.
  */
-export function summarize(xs: number[], ws: number[]) {
-    let min = xs[0]!, max = xs[0]!, sum = 0, sumsq = 0, tw = 0;
+export function summarize(xs: ArrayLike<number>, ws: ArrayLike<number>, options: SummarizeOptions = {}) {
+    const method = options.quantileMethod ?? 7;
+    let min = xs[0]!, max = xs[0]!;
+    let tw = 0, comp = 0;
+    const m = createMoments();
 
     for (let i = 0; i < xs.length; i++) {
         const v = xs[i]!; const w = ws[i]!;
 
         if (v < min) min = v;
-        if (v > max) max = v; 
+        if (v > max) max = v;
 
-        sum += v * w;
-        sumsq += v * v * w;
+        // Kahan-compensated total weight
+        const y = w - comp;
+        const t = tw + y;
+        comp = (t - tw) - y;
+        tw = t;
 
-        tw += w;
+        pushMoment(m, v, w);
     }
 
-    const mean = sum / tw;
-    const variance = Math.max(0, sumsq / tw - mean * mean);
+    const { variance, skewness, kurtosis } = describeMoments(m, options.variance);
     const sd = Math.sqrt(variance);
 
-    // Use Float64Array for better performance on large arrays
-    const sorted = Float64Array.from(xs).sort();
-    const iqr = Math.max(0, quantile(sorted as unknown as number[], 0.75) - quantile(sorted as unknown as number[], 0.25));
+    const sorted = sortWeighted(xs, ws);
+    const q1 = sampleQuantile(sorted, 0.25, method);
+    const median = sampleQuantile(sorted, 0.5, method);
+    const q3 = sampleQuantile(sorted, 0.75, method);
+    const iqr = Math.max(0, q3 - q1);
+
+    const dev = new Float64Array(xs.length);
+    for (let i = 0; i < xs.length; i++) dev[i] = Math.abs(xs[i]! - median);
+    const mad = sampleQuantile(sortWeighted(dev, ws), 0.5, method);
+
+    const quantiles: QuantileValue[] | undefined = options.quantiles
+        ?.map(p => ({ p, value: sampleQuantile(sorted, Math.min(1, Math.max(0, p)), method) }));
+
+    return {
+        min, max, mean: m.mean, variance, sd, skewness, kurtosis,
+        median, q1, q3, iqr, mad, quantiles, totalWeight: tw, moments: m
+    };
+}
+
+/**
+ * Estimates the p-quantile from binned counts by linear interpolation inside the bin
+ * that contains the target cumulative weight.
+ *
+ * Contract:
+ * - `counts` follows the slot layout produced by `accumulate` (`[underflow?, bins..., overflow?]`).
+ * - `edges` are the finite bin edges (length = number of regular bins + 1).
+ * - `min`/`max` are the observed extrema; they bound the under/overflow slots and clamp the result.
+ *
+ * Used where raw values are not kept sorted (e.g. incremental accumulators), trading exactness
+ * for O(k) time in the number of bins.
+ *
+ * @param counts Weighted counts per slot.
+ * @param edges Regular bin edges.
+ * @param withUnder Whether `counts[0]` is an underflow slot.
+ * @param min Observed minimum.
+ * @param max Observed maximum.
+ * @param p Quantile in [0, 1].
+ *
+ * @returns The interpolated quantile estimate, or `NaN` when all counts are zero.
+ */
+export function binnedQuantile(
+    counts: ArrayLike<number>,
+    edges: ArrayLike<number>,
+    withUnder: boolean,
+    min: number,
+    max: number,
+    p: number
+): number {
+    let total = 0;
+    for (let i = 0; i < counts.length; i++) total += counts[i]!;
+    if (!(total > 0)) return NaN;
+
+    const target = p * total;
+    let cum = 0;
+
+    for (let i = 0; i < counts.length; i++) {
+        const c = counts[i]!;
+        if (c <= 0 || cum + c < target) { cum += c; continue; }
+
+        const [lo, hi] = slotBounds(i, edges, withUnder, min, max);
+        const v = lo + (hi - lo) * ((target - cum) / c);
+
+        return Math.min(max, Math.max(min, v));
+    }
+
+    return max;
+}
+
+/**
+ * Estimates the median absolute deviation from binned counts: the radius `r` around `median` whose
+ * interval [median - r, median + r] holds half of the weight, assuming uniform mass inside each bin.
+ *
+ * @returns The MAD estimate, or `NaN` when all counts are zero.
+ */
+export function binnedMad(
+    counts: ArrayLike<number>,
+    edges: ArrayLike<number>,
+    withUnder: boolean,
+    min: number,
+    max: number,
+    median: number
+): number {
+    let total = 0;
+    for (let i = 0; i < counts.length; i++) total += counts[i]!;
+    if (!(total > 0) || !Number.isFinite(median)) return NaN;
+
+    // Weighted mass at or below x, linear inside each slot.
+    const cdf = (x: number) => {
+        let acc = 0;
+        for (let i = 0; i < counts.length; i++) {
+            const c = counts[i]!;
+            if (c <= 0) continue;
+            const [lo, hi] = slotBounds(i, edges, withUnder, min, max);
+            if (x >= hi) acc += c;
+            else if (x > lo) acc += c * (x - lo) / (hi - lo);
+        }
+        return acc;
+    };
+
+    let lo = 0, hi = Math.max(max - median, median - min);
+    for (let it = 0; it < 60 && hi - lo > 0; it++) {
+        const r = (lo + hi) / 2;
+        if (cdf(median + r) - cdf(median - r) >= total / 2) hi = r; else lo = r;
+    }
+
+    return hi;
+}
+
+/**
+ * Bounds of slot `i`: regular bins use their edges; tails (and infinite edges) are bounded by the
+ * observed extrema.
+ */
+function slotBounds(i: number, edges: ArrayLike<number>, withUnder: boolean, min: number, max: number): [number, number] {
+    const last = edges.length - 1;
+    const j = i - (withUnder ? 1 : 0);
+
+    const lo = Math.max(min, j < 0 ? Math.min(min, edges[0]!) : j >= last ? edges[last]! : edges[j]!);
+    const hi = Math.min(max, j < 0 ? edges[0]! : j >= last ? Math.max(max, edges[last]!) : edges[j + 1]!);
+
+    return [lo, Math.max(lo, hi)];
+}
+
+/**
+ * Builds `HistogramStats` where raw values are not available: moments are exact, while the median,
+ * quartiles, MAD and requested quantiles are estimated from the binned counts (the quantile method
+ * does not apply to them).
+ *
+ * @param counts Weighted counts per slot (see `binnedQuantile`).
+ * @param edges Regular bin edges.
+ * @param withUnder Whether `counts[0]` is an underflow slot.
+ * @param n Number of observations.
+ * @param min Observed minimum.
+ * @param max Observed maximum.
+ * @param m Running moments of all observations.
+ * @param options Requested quantiles and variance estimator.
+ */
+export function summarizeBinned(
+    counts: ArrayLike<number>,
+    edges: ArrayLike<number>,
+    withUnder: boolean,
+    n: number,
+    min: number,
+    max: number,
+    m: Moments,
+    options: SummarizeOptions = {}
+): HistogramStats {
+    const { variance, skewness, kurtosis } = describeMoments(m, options.variance);
+    const q = (p: number) => {
+        const v = binnedQuantile(counts, edges, withUnder, min, max, p);
+        return Number.isFinite(v) ? v : m.mean;
+    };
+
+    const q1 = q(0.25), median = q(0.5), q3 = q(0.75);
+    const mad = binnedMad(counts, edges, withUnder, min, max, median);
+
+    const stats: HistogramStats = {
+        n,
+        totalWeight: m.w,
+        min,
+        max,
+        mean: m.mean,
+        variance,
+        sd: Math.sqrt(variance),
+        iqr: Math.max(0, q3 - q1),
+        median,
+        q1,
+        q3,
+        mad: Number.isFinite(mad) ? mad : 0,
+        skewness,
+        kurtosis,
+        effectiveN: effectiveSize(m)
+    };
+
+    if (options.quantiles) stats.quantiles = options.quantiles.map(p => ({ p, value: q(Math.min(1, Math.max(0, p))) }));
 
-    return { min, max, mean, variance, sd, iqr, totalWeight: tw };
+    return stats;
 }
@@ -0,0 +1,91 @@
+// src/core/time.test.ts
+import { describe, expect, it } from "vitest";
+import { computeHistogram } from "./engine.js";
+import { floorTime, formatTime, nextTime, pickTimeInterval } from "./time.js";
+import type { TimeInterval } from "./types.js";
+
+const NY = "America/New_York";
+const HOUR = 3_600_000;
+
+/** Edges from the period containing `from` until past `to`. */
+function edges(from: number, to: number, interval: TimeInterval, step: number, timeZone: string) {
+    const out = [floorTime(from, interval, step, timeZone)];
+    while (out[out.length - 1]! <= to) out.push(nextTime(out[out.length - 1]!, interval, step, timeZone));
+    return out;
+}
+
+describe("calendar edges", () => {
+    it("put day edges on local midnights across the DST changes", () => {
+        const spring = edges(Date.parse("2024-03-09T12:00:00-05:00"), Date.parse("2024-03-11T12:00:00-04:00"), "day", 1, NY);
+        expect(spring.map(t => formatTime(t, "hour", NY))).toEqual([
+            "2024-03-09 00:00", "2024-03-10 00:00", "2024-03-11 00:00", "2024-03-12 00:00",
+        ]);
+        expect(spring.slice(1).map((t, i) => (t - spring[i]!) / HOUR)).toEqual([24, 23, 24]);
+
+        const fall = edges(Date.parse("2024-11-02T12:00:00-04:00"), Date.parse("2024-11-04T12:00:00-05:00"), "day", 1, NY);
+        expect(fall.slice(1).map((t, i) => (t - fall[i]!) / HOUR)).toEqual([24, 25, 24]);
+        expect(fall.map(t => formatTime(t, "day", NY))).toEqual(["2024-11-02", "2024-11-03", "2024-11-04", "2024-11-05"]);
+    });
+
+    it("step hours in absolute time over the skipped and the repeated hour", () => {
+        const spring = edges(Date.parse("2024-03-10T00:30:00-05:00"), Date.parse("2024-03-10T04:30:00-04:00"), "hour", 1, NY);
+        expect(spring.map(t => formatTime(t, "hour", NY))).toEqual([
+            "2024-03-10 00:00", "2024-03-10 01:00", "2024-03-10 03:00", "2024-03-10 04:00", "2024-03-10 05:00",
+        ]);
+        expect(new Set(spring.slice(1).map((t, i) => t - spring[i]!))).toEqual(new Set([HOUR]));
+
+        const fall = edges(Date.parse("2024-11-03T00:30:00-04:00"), Date.parse("2024-11-03T02:30:00-05:00"), "hour", 1, NY);
+        expect(fall.map(t => formatTime(t, "hour", NY))).toEqual([
+            "2024-11-03 00:00", "2024-11-03 01:00", "2024-11-03 01:00", "2024-11-03 02:00", "2024-11-03 03:00",
+        ]);
+        expect(new Set(fall.slice(1).map((t, i) => t - fall[i]!))).toEqual(new Set([HOUR]));
+    });
+
+    it("keep multi-hour steps aligned to the local day", () => {
+        const six = edges(Date.parse("2024-03-09T20:00:00-05:00"), Date.parse("2024-03-10T20:00:00-04:00"), "hour", 6, NY);
+        expect(six.map(t => formatTime(t, "hour", NY).slice(11))).toEqual(["18:00", "00:00", "06:00", "12:00", "18:00", "00:00"]);
+        six.forEach(t => expect(floorTime(t, "hour", 6, NY)).toBe(t));
+    });
+
+    it("cross month and year boundaries, with quarters aligned to the year", () => {
+        const months = edges(Date.parse("2023-11-15T00:00:00Z"), Date.parse("2024-02-10T00:00:00Z"), "month", 1, NY);
+        expect(months.map(t => formatTime(t, "month", NY))).toEqual(["2023-11", "2023-12", "2024-01", "2024-02", "2024-03"]);
+        expect(months.map(t => formatTime(t, "hour", NY).slice(8))).toEqual(Array(5).fill("01 00:00"));
+
+        const quarters = edges(Date.parse("2024-05-15T00:00:00Z"), Date.parse("2025-01-15T00:00:00Z"), "month", 3, "UTC");
+        expect(quarters.map(t => formatTime(t, "month", "UTC"))).toEqual(["2024-04", "2024-07", "2024-10", "2025-01", "2025-04"]);
+
+        const years = edges(Date.parse("2019-06-01T00:00:00Z"), Date.parse("2031-01-01T00:00:00Z"), "year", 5, "UTC");
+        expect(years.map(t => formatTime(t, "year", "UTC"))).toEqual(["2015", "2020", "2025", "2030", "2035"]);
+    });
+
+    it("start weeks on Monday", () => {
+        const week = floorTime(Date.parse("2024-03-13T15:00:00-04:00"), "week", 1, NY);
+        expect(formatTime(week, "day", NY)).toBe("2024-03-11");
+        expect(formatTime(nextTime(week, "week", 1, NY), "day", NY)).toBe("2024-03-18");
+    });
+
+    it("pick the shortest interval covering a width", () => {
+        expect(pickTimeInterval(20 * 60_000)).toEqual({ interval: "minute", step: 30 });
+        expect(pickTimeInterval(2 * 24 * HOUR)).toEqual({ interval: "week", step: 1 });
+        expect(pickTimeInterval(60 * 24 * HOUR)).toEqual({ interval: "month", step: 3 });
+        expect(pickTimeInterval(3 * 365 * 24 * HOUR)).toEqual({ interval: "year", step: 5 });
+    });
+});
+
+describe("time binning", () => {
+    it("labels bins across the spring-forward day", () => {
+        const data = [
+            "2024-03-09T10:00:00-05:00", "2024-03-10T01:30:00-05:00", "2024-03-10T03:30:00-04:00", "2024-03-10T23:30:00-04:00",
+            "2024-03-11T09:00:00-04:00",
+        ].map(s => new Date(s));
+        const result = computeHistogram({ data, x: d => d, binning: { mode: "time", interval: "day", timeZone: NY } });
+        expect(result.bins.map(b => b.labels)).toEqual([
+            { start: "2024-03-09", end: "2024-03-10" },
+            { start: "2024-03-10", end: "2024-03-11" },
+            { start: "2024-03-11", end: "2024-03-12" },
+        ]);
+        expect(result.bins.map(b => b.count)).toEqual([1, 3, 1]);
+        expect(result.bins.map(b => (b.end - b.start) / HOUR)).toEqual([24, 23, 24]);
+    });
+});
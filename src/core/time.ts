@@ -0,0 +1,156 @@
+// src/core/time.ts
+import type { TimeInterval } from "./types.js";
+
+/**
+ * Calendar arithmetic for time binning.
+ *
+ * Timestamps are epoch milliseconds. Wall-clock fields in a time zone are read with `Intl.DateTimeFormat`
+ * and converted back by resolving the zone offset, so day, week, month and year edges fall on local
+ * midnights (a DST day spans 23 or 25 hours). Minute and hour edges advance in absolute time and are
+ * re-aligned to the local clock after each step. As a last resort an edge advances by the nominal length,
+ * so edges always increase.
+ *
+ * @packageDocumentation
+ */
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Nominal interval lengths in ms, used to pick intervals and to bound bin counts. */
+export const NOMINAL_MS: Record<TimeInterval, number> = {
+    minute: MINUTE,
+    hour: HOUR,
+    day: DAY,
+    week: 7 * DAY,
+    month: 30.436875 * DAY,
+    year: 365.2425 * DAY,
+};
+
+/** Candidate (interval, step) pairs for automatic selection, in increasing length. */
+const LADDER: ReadonlyArray<[TimeInterval, number]> = [
+    ["minute", 1], ["minute", 5], ["minute", 15], ["minute", 30],
+    ["hour", 1], ["hour", 3], ["hour", 6], ["hour", 12],
+    ["day", 1], ["week", 1], ["month", 1], ["month", 3], ["year", 1],
+];
+
+type WallClock = [year: number, month: number, day: number, hour: number, minute: number];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string) {
+    let f = formatters.get(timeZone);
+    if (!f) {
+        f = new Intl.DateTimeFormat("en-US", {
+            timeZone, hourCycle: "h23",
+            year: "numeric", month: "numeric", day: "numeric", hour: "numeric", minute: "numeric", second: "numeric",
+        });
+        formatters.set(timeZone, f);
+    }
+    return f;
+}
+
+/**
+ * Returns true when `timeZone` is a valid IANA zone name for this runtime.
+ */
+export function isValidTimeZone(timeZone: string) {
+    try { formatter(timeZone); return true; } catch { return false; }
+}
+
+function wallClock(t: number, timeZone: string): WallClock & { second: number } {
+    if (timeZone === "UTC") {
+        const d = new Date(t);
+        return Object.assign([d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), d.getUTCHours(), d.getUTCMinutes()] as WallClock, { second: d.getUTCSeconds() });
+    }
+    const p: Record<string, number> = {};
+    for (const { type, value } of formatter(timeZone).formatToParts(t)) p[type] = Number(value);
+    return Object.assign([p.year!, p.month! - 1, p.day!, p.hour!, p.minute!] as WallClock, { second: p.second! });
+}
+
+/** Zone offset (local - UTC) in ms at instant `t`. */
+function offsetAt(t: number, timeZone: string) {
+    if (timeZone === "UTC") return 0;
+    const w = wallClock(t, timeZone);
+    return Date.UTC(w[0], w[1], w[2], w[3], w[4], w.second) - Math.floor(t / 1000) * 1000;
+}
+
+/** Instant of a local wall-clock time; out-of-range fields roll over like `Date.UTC`. */
+function fromWallClock(w: WallClock, timeZone: string) {
+    const guess = Date.UTC(w[0], w[1], w[2], w[3], w[4]);
+    const o1 = offsetAt(guess, timeZone);
+    const t = guess - o1;
+    const o2 = offsetAt(t, timeZone);
+    return o1 === o2 ? t : guess - o2;
+}
+
+/**
+ * Start of the calendar period of `interval`×`step` containing `t`. Minutes, hours, months and years
+ * align to multiples of `step` within the enclosing hour, day or year; weeks start on Monday.
+ */
+export function floorTime(t: number, interval: TimeInterval, step: number, timeZone: string) {
+    const [y, mo, d, h, mi] = wallClock(t, timeZone);
+    switch (interval) {
+        case "minute": return fromWallClock([y, mo, d, h, Math.floor(mi / step) * step], timeZone);
+        case "hour": return fromWallClock([y, mo, d, Math.floor(h / step) * step, 0], timeZone);
+        case "day": return fromWallClock([y, mo, d, 0, 0], timeZone);
+        case "week": {
+            const back = (new Date(Date.UTC(y, mo, d)).getUTCDay() + 6) % 7;
+            return fromWallClock([y, mo, d - back, 0, 0], timeZone);
+        }
+        case "month": return fromWallClock([y, Math.floor(mo / step) * step, 1, 0, 0], timeZone);
+        default: return fromWallClock([Math.floor(y / step) * step, 0, 1, 0, 0], timeZone);
+    }
+}
+
+/**
+ * The calendar edge following the aligned edge `t`.
+ */
+export function nextTime(t: number, interval: TimeInterval, step: number, timeZone: string) {
+    const [y, mo, d, h, mi] = wallClock(t, timeZone);
+    let next: number;
+    if (interval === "minute" || interval === "hour") {
+        const ahead = t + step * NOMINAL_MS[interval];
+        next = floorTime(ahead, interval, step, timeZone);
+        // In a repeated wall-clock hour (DST fall-back) flooring resolves to the first occurrence, which can be
+        // `t` itself: keep the absolute step when it lands on an aligned local time, else advance the wall clock.
+        if (next <= t) {
+            const w = wallClock(ahead, timeZone);
+            const aligned = w.second === 0 && (interval === "minute" ? w[4] % step === 0 : w[4] === 0 && w[3] % step === 0);
+            next = aligned ? ahead
+                : interval === "minute" ? fromWallClock([y, mo, d, h, mi + step], timeZone)
+                    : fromWallClock([y, mo, d, h + step, 0], timeZone);
+        }
+    } else {
+        next = interval === "day" ? fromWallClock([y, mo, d + step, 0, 0], timeZone)
+            : interval === "week" ? fromWallClock([y, mo, d + 7 * step, 0, 0], timeZone)
+                : interval === "month" ? fromWallClock([y, mo + step, 1, 0, 0], timeZone)
+                    : fromWallClock([y + step, 0, 1, 0, 0], timeZone);
+    }
+    return next > t ? next : t + step * NOMINAL_MS[interval];
+}
+
+/**
+ * Picks the shortest calendar interval from a fixed ladder (1/5/15/30 minutes, 1/3/6/12 hours, day, week,
+ * month, quarter, years) whose nominal length is at least `width` ms.
+ */
+export function pickTimeInterval(width: number): { interval: TimeInterval; step: number } {
+    for (const [interval, step] of LADDER) {
+        if (step * NOMINAL_MS[interval] >= width) return { interval, step };
+    }
+    const years = width / NOMINAL_MS.year;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(years)));
+    const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= years) ?? 10 * magnitude;
+    return { interval: "year", step: Math.max(1, Math.round(step)) };
+}
+
+/**
+ * Labels an edge at the precision of `interval`: "2024", "2024-03", "2024-03-15" or "2024-03-15 14:30".
+ */
+export function formatTime(t: number, interval: TimeInterval, timeZone: string) {
+    const [y, mo, d, h, mi] = wallClock(t, timeZone);
+    const pad = (v: number) => String(v).padStart(2, "0");
+    if (interval === "year") return String(y);
+    if (interval === "month") return `${y}-${pad(mo + 1)}`;
+    if (interval === "day" || interval === "week") return `${y}-${pad(mo + 1)}-${pad(d)}`;
+    return `${y}-${pad(mo + 1)}-${pad(d)} ${pad(h)}:${pad(mi)}`;
+}
@@ -1,13 +1,79 @@
 // src/core/types.ts
 
-export type NumericAccessor<T> = (d: T, i: number) => number | null | undefined;
+/** Numeric value of an item; `Date` values are read as epoch milliseconds. */
+export type NumericAccessor<T> = (d: T, i: number) => number | Date | null | undefined;
 export type WeightAccessor<T> = (d: T, i: number) => number | null | undefined;
+export type GroupAccessor<T> = (d: T, i: number) => string | number | boolean | null | undefined;
 export type EdgeInclusionRule = "closed-right" | "closed-left";
 
+export type NumericTypedArray =
+    | Float64Array | Float32Array
+    | Int32Array | Uint32Array | Int16Array | Uint16Array | Int8Array | Uint8Array;
+
+/** Columnar input: read without per-element accessor calls. */
+export interface HistogramColumns {
+    values: NumericTypedArray;
+    /** Per-value weights; must have the same length as `values`. */
+    weights?: NumericTypedArray;
+}
+
+export type HistogramData<T> = ReadonlyArray<T> | ReadonlyArray<number> | NumericTypedArray | HistogramColumns;
+
+export type TimeInterval = "minute" | "hour" | "day" | "week" | "month" | "year";
+
+/**
+ * Width rules for auto binning. Closed-form: Freedman–Diaconis ("fd"), Scott, Sturges, Rice, square root
+ * ("sqrt"), Doane (Sturges corrected for skewness) and numpy's "auto" ("numpy": the narrower of FD and
+ * Sturges). Data-adaptive optimisers over equal-width bin counts: Knuth's Bayesian rule and the
+ * Shimazaki–Shinomoto cost function.
+ */
+export type AutoBinningRule = "fd" | "scott" | "sturges" | "rice" | "sqrt" | "doane" | "numpy" | "knuth" | "shimazaki";
+
 export type BinningStrategy =
-    | { mode: "auto"; rule?: "sturges" | "scott" | "fd" }
-    | { mode: "binWidth"; binWidth: number }
-    | { mode: "binCount"; binCount: number };
+    /**
+     * Equal-width strategies accept `nice`: edges fall on multiples of the width and the domain is extended
+     * outward to them. Auto widths snap to 1, 2, 2.5 or 5 × 10^k; `binCount` picks the nice width whose bin
+     * count is closest to the requested one; an explicit `binWidth` is kept as given.
+     */
+    | { mode: "auto"; rule?: AutoBinningRule; nice?: boolean }
+    | { mode: "binWidth"; binWidth: number; nice?: boolean }
+    | { mode: "binCount"; binCount: number; nice?: boolean }
+    | { mode: "edges"; edges: number[] }
+    | { mode: "quantile"; count: number }
+    /** Bins centred on whole numbers; `width` is rounded to a positive integer (auto-chosen when omitted). */
+    | { mode: "integer"; width?: number }
+    /**
+     * Calendar-aligned edges over epoch-millisecond values. `interval` defaults to "auto" (picked from the
+     * data spread); `step` counts intervals per bin (default 1); `timeZone` is an IANA name (default "UTC").
+     */
+    | { mode: "time"; interval?: TimeInterval | "auto"; step?: number; timeZone?: string }
+    /**
+     * Variable-width Bayesian Blocks (Scargle et al. 2013): edges where the data's density changes.
+     * `p0` is the false-positive rate behind the prior on the number of blocks (default 0.05).
+     */
+    | { mode: "bayesianBlocks"; p0?: number };
+
+/** An auto-binning rule that yielded no usable width, and why. */
+export interface BinningFallback {
+    rule: AutoBinningRule;
+    reason: string;
+}
+
+/** How the bin edges were chosen. */
+export interface BinningReport {
+    /** Strategy that produced the edges; "auto" when explicit edges were unusable. */
+    mode: BinningStrategy["mode"];
+    /** Bin width (the narrowest one for variable-width strategies) and number of regular bins. */
+    binWidth: number;
+    bins: number;
+    /** Auto binning: the requested rule and the rule whose width was used. */
+    requestedRule?: AutoBinningRule;
+    rule?: AutoBinningRule;
+    /** Auto binning: width proposed by each evaluated rule, before MAX_BINS adjustment. */
+    candidates?: Partial<Record<AutoBinningRule, number>>;
+    /** Auto binning: rules passed over, in the order they were tried. */
+    fallbacks?: BinningFallback[];
+}
 
 export type HistogramMeasure =
     | "count" | "percent" | "density"
@@ -25,8 +91,96 @@ export interface HistogramBin<T = unknown> {
     cumulativeCount?: number;
     cumulativePercent?: number;
     cumulativeDensity?: number;
+    /** Indices of the bin's items; empty unless `items` is "indices" (see `binItems`). */
     items: number[];
+    /** Weighted random rows of the bin, with the `sample` option. */
     sample?: T[];
+    /** Formatted boundaries of regular bins under time binning (e.g. "2024-03-01"). */
+    labels?: { start: string; end: string };
+    /** Sum of squared weights (equals `count` for unweighted data); set with `uncertainty`. */
+    sumW2?: number;
+    /** Standard error and confidence intervals; set with `uncertainty`. */
+    uncertainty?: BinUncertainty;
+    /** Aggregates of the `profile` variable over the bin's items. */
+    profile?: BinProfile;
+}
+
+/**
+ * How bins keep their item indices: a `number[]` per bin ("indices", the default), one packed
+ * `Int32Array` for the whole result ("packed", see `PackedItems`), or not at all ("none").
+ */
+export type ItemStorage = "none" | "indices" | "packed";
+
+/**
+ * Item indices of every bin in CSR layout: the items of bin `i` are `indices[offsets[i]]` up to,
+ * but excluding, `indices[offsets[i + 1]]`. `offsets` has one entry more than there are bins.
+ */
+export interface PackedItems {
+    indices: Int32Array;
+    offsets: Int32Array;
+}
+
+export interface SampleOptions {
+    /** Rows kept per bin (at most the bin's item count). */
+    size: number;
+    /** Seed of the random stream; equal seeds and inputs give equal samples (default 0). */
+    seed?: number;
+}
+
+export interface ProfileConfig<T = unknown> {
+    /** Second variable aggregated per bin; for typed-array input it receives the value as the datum. */
+    y: NumericAccessor<T>;
+    /** Also compute the weighted median of y per bin (sorts each bin; default false). */
+    median?: boolean;
+}
+
+/**
+ * Weighted aggregates of the profile variable in one bin. Items whose y is missing or non-finite count
+ * toward the bin but not its profile; without any valid y, `mean`, `min`, `max` and `median` are NaN.
+ */
+export interface BinProfile {
+    /** Number of items with a valid y. */
+    n: number;
+    sumW: number;
+    /** Weighted sum Σ w·y. */
+    sum: number;
+    mean: number;
+    min: number;
+    max: number;
+    /** Weighted variance, using the estimator selected by `HistogramLogicConfig.variance`. */
+    variance: number;
+    sd: number;
+    median?: number;
+}
+
+export interface UncertaintyOptions {
+    /** Confidence level of the intervals (default 0.95). */
+    level?: number;
+    /** Interval for `percent` (default "wilson"). */
+    percent?: "wilson" | "clopper-pearson";
+}
+
+/**
+ * Per-bin uncertainty. Count intervals are exact Poisson (Garwood) for unweighted data and
+ * `count ± z·√sumW2` for weighted data. Percent intervals treat the bin share as a binomial proportion
+ * over the effective sample size; density intervals scale the count interval like `density`.
+ */
+export interface BinUncertainty {
+    /** Standard error of the count, `√sumW2`. */
+    stdError: number;
+    count: [number, number];
+    percent: [number, number];
+    density: [number, number];
+}
+
+/** Hyndman–Fan sample quantile definitions (1–9); 7 is the common linear-interpolation default. */
+export type QuantileMethod = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+export type VarianceMode = "population" | "sample";
+
+export interface QuantileValue {
+    p: number;
+    value: number;
 }
 
 export interface HistogramStats {
@@ -35,26 +189,505 @@ export interface HistogramStats {
     min: number;
     max: number;
     mean: number;
+    /** Weighted variance; population by default, or the unbiased sample estimate with `variance: "sample"`. */
     variance: number;
     sd: number;
     iqr: number;
+    median: number;
+    q1: number;
+    q3: number;
+    /** Weighted median absolute deviation from the median (unscaled). */
+    mad: number;
+    /** Weighted moment skewness (g1). */
+    skewness: number;
+    /** Weighted excess kurtosis (g2; 0 for a normal distribution). */
+    kurtosis: number;
+    /** Kish effective sample size `(Σw)² / Σw²`; equals `n` for unweighted data. */
+    effectiveN: number;
+    /** Requested quantiles (see `HistogramLogicConfig.quantiles`), in request order. */
+    quantiles?: QuantileValue[];
+}
+
+export type KernelType = "gaussian" | "epanechnikov" | "uniform" | "triangular" | "biweight" | "cosine";
+
+/** Bandwidth selectors: Silverman's and Scott's rules of thumb, or improved Sheather–Jones (Botev). */
+export type BandwidthRule = "silverman" | "scott" | "isj";
+
+export interface KDEOptions {
+    kernel?: KernelType;
+    /** Kernel standard deviation, or a rule to choose it (default "silverman"). */
+    bandwidth?: number | BandwidthRule;
+    /** Number of evenly spaced grid points over the domain (default 512). */
+    points?: number;
+    /** "exact" sums kernels per value; "fft" bins linearly and convolves; "auto" (default) picks by size. */
+    method?: "auto" | "exact" | "fft";
+}
+
+export interface KDEResult {
+    /** Grid positions. */
+    x: number[];
+    /** Density at each grid position, on the scale of `HistogramBin.density`. */
+    density: number[];
+    bandwidth: number;
+    kernel: KernelType;
+    method: "exact" | "fft";
+    warnings?: ReadonlyArray<string>;
+    diagnostics?: ReadonlyArray<HistogramDiagnostic>;
 }
 
+/**
+ * A domain derived from the data that leaves outliers out: the `lower`–`upper` weighted quantiles
+ * (default 0.01–0.99), the median ± k·MAD with the MAD scaled by 1.4826 to estimate σ (default k = 3),
+ * or Tukey's fences Q1 − k·IQR, Q3 + k·IQR (default k = 1.5). Bounds never extend past the observed
+ * min/max. Points outside go to the under/overflow bins unless `overflow` is set explicitly, and the
+ * result reports them in `clipped`.
+ */
+export type DomainStrategy =
+    | { mode: "quantile"; lower?: number; upper?: number }
+    | { mode: "mad"; k?: number }
+    | { mode: "tukey"; k?: number };
+
 export interface HistogramLogicConfig<T = unknown> {
-    data: ReadonlyArray<T> | ReadonlyArray<number>;
+    data: HistogramData<T>;
     x?: NumericAccessor<T>;
     weight?: WeightAccessor<T> | number;
-    domain?: [number, number];
+    /** Fixed `[min, max]`, or a robust strategy computed from the data (default: observed min/max). */
+    domain?: [number, number] | DomainStrategy;
     binning?: BinningStrategy;
     edgeRule?: EdgeInclusionRule;
     overflow?: boolean | { underflow?: boolean; overflow?: boolean };
     measure?: HistogramMeasure;
+    /** Extra probabilities in [0, 1] to report in `stats.quantiles`. */
+    quantiles?: number[];
+    /** Quantile definition for median/quartiles/requested quantiles (default 7). */
+    quantileMethod?: QuantileMethod;
+    /** Variance estimator reported in `stats.variance`/`stats.sd` (default "population"). */
+    variance?: VarianceMode;
+    /** Also estimate a kernel density over the result's domain (see `computeKDE`). */
+    kde?: boolean | KDEOptions;
+    /** Attach `sumW2`, a standard error and confidence intervals to every bin. */
+    uncertainty?: boolean | UncertaintyOptions;
+    /**
+     * Segment key per item. All groups share one binning plan over the union of values; the result
+     * gains `groups`. Items with a null/undefined key count toward the overall bins only.
+     */
+    groupBy?: GroupAccessor<T>;
+    /** Aggregate a second variable per bin (a "profile histogram"); see `BinProfile`. */
+    profile?: ProfileConfig<T>;
+    /** How item indices are stored (default "indices"); see `ItemStorage`. */
+    items?: ItemStorage;
+    /** Fill every bin's `sample` with a weighted reservoir sample of the original items. */
+    sample?: SampleOptions;
+    /** Throw `HistogramConfigError` for invalid options instead of falling back to defaults (default false). */
+    strict?: boolean;
+}
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/** Items skipped while extracting values, by reason. An item is counted once, under its first problem. */
+export interface DroppedCounts {
+    total: number;
+    /** The value was null or undefined. */
+    null: number;
+    /** The item was neither a number nor a Date and no `x` accessor was given. */
+    nonNumeric: number;
+    nan: number;
+    /** The value was +Infinity or -Infinity. */
+    infinite: number;
+    /** The weight was missing, NaN or infinite. */
+    invalidWeight: number;
+    /** The weight was zero or negative. */
+    nonPositiveWeight: number;
+    /** The `x`, `weight` or `groupBy` accessor threw. */
+    accessorError: number;
+}
+
+/** Structured payload per diagnostic code. */
+export interface DiagnosticDetailsMap {
+    /** Nothing was left to bin. */
+    "no-data": Record<string, never>;
+    "non-numeric-data": Record<string, never>;
+    "accessor-ignored": { accessor: "x" };
+    "weights-length-mismatch": { values: number; weights: number };
+    "values-dropped": DroppedCounts;
+    /** A config field is invalid; `path` names it (e.g. "binning.binWidth"). */
+    "invalid-option": { path: string; value: unknown; expected: string };
+    "domain-non-finite": { domain: [number, number] };
+    "domain-reversed": { domain: [number, number] };
+    "domain-degenerate": { value: number; epsilon: number };
+    /** The robust domain had zero spread (e.g. MAD = 0); the observed min/max was used instead. */
+    "domain-robust-fallback": { mode: DomainStrategy["mode"]; domain: [number, number] };
+    /** Points fell outside a robust domain; see `HistogramResult.clipped`. */
+    "domain-clipped": DomainClipping;
+    "unknown-time-zone": { timeZone: string };
+    /** The plan needed more than `limit` bins; `binWidth`/`step` is the adjusted value when the plan was coarsened. */
+    "max-bins-exceeded": { bins: number; limit: number; binWidth?: number; step?: number };
+    "edges-nan-dropped": { dropped: number };
+    "edges-unsorted": Record<string, never>;
+    "edges-insufficient": Record<string, never>;
+    "quantile-ties": { requested: number; produced: number };
+    "integer-width-rounded": { width: number };
+    /** The requested auto-binning rule yielded no usable width; `used` supplied it instead. */
+    "bin-rule-fallback": { requested: AutoBinningRule; used: AutoBinningRule; fallbacks: BinningFallback[] };
+    "zero-total-weight": Record<string, never>;
+    "outside-frozen-domain": { share: number; domain: [number, number] };
+    "grid-coarsened": { nx: number; ny: number; limit: number; bins: number };
+    "kde-fft-fallback": Record<string, never>;
+    "kde-isj-failed": Record<string, never>;
+    "profile-missing-y": { count: number };
+    "partial-missing-squared-weights": Record<string, never>;
+    /** A plain warning string carried by a partial from an earlier version. */
+    "partial-warning": Record<string, never>;
+    /** Median, quartiles, IQR, MAD and requested quantiles were estimated from the bins, not raw values. */
+    "quantiles-estimated": Record<string, never>;
+    /** The "other" bin's label is also a real category; both bins are reported. */
+    "category-label-collision": { label: string };
+    /** Values outside the family's support were left out of the fit. */
+    "fit-outside-support": { family: DistributionFamily; ignored: number };
+    /** Weight outside the bins was split between the tails in proportion to the fitted distribution. */
+    "fit-tails-apportioned": { weight: number };
+    /** Too few cells remained after merging for a chi-square test; its p-value is NaN. */
+    "chi-square-too-few-cells": { cells: number; parameters: number };
+    /** Weight outside the common bins of a comparison was clamped into the outermost bins. */
+    "compare-weight-clamped": { histogram: "baseline" | "current"; weight: number };
 }
 
+export type DiagnosticCode = keyof DiagnosticDetailsMap;
+
+/**
+ * A machine-readable warning or error. `code` is stable across versions and selects the shape of
+ * `details`; `message` is English text for logs. Diagnostics from a 2-D histogram's axes carry `axis`.
+ */
+export type HistogramDiagnostic = {
+    [C in DiagnosticCode]: {
+        code: C;
+        severity: DiagnosticSeverity;
+        message: string;
+        details: DiagnosticDetailsMap[C];
+        axis?: "x" | "y";
+    }
+}[DiagnosticCode];
+
 export interface HistogramResult<T = unknown> {
     bins: ReadonlyArray<HistogramBin<T>>;
     domain: [number, number];
+    /** Uniform bin width; for variable-width strategies (`edges`, `quantile`), the narrowest finite bin width. */
     binWidth: number;
     stats: HistogramStats;
+    /** Kernel density estimate, when `kde` is requested. */
+    kde?: KDEResult;
+    /** Per-group histograms over the same bins, in order of first appearance (when `groupBy` is set). */
+    groups?: ReadonlyArray<HistogramGroup<T>>;
+    /** How the edges were chosen; for results finalized from partials, the report of the first shard (absent for partials from older versions). */
+    binning?: BinningReport;
+    /** Diagnostic messages (the `message` of each entry in `diagnostics`). */
     warnings?: ReadonlyArray<string>;
+    diagnostics?: ReadonlyArray<HistogramDiagnostic>;
+    /** Items skipped during extraction, by reason. */
+    dropped?: DroppedCounts;
+    /** Points outside the domain on each side, when the domain is a `DomainStrategy`. */
+    clipped?: DomainClipping;
+    /** Item indices of `bins`, with `items: "packed"`. */
+    packedItems?: PackedItems;
+}
+
+export interface ClippedSide {
+    count: number;
+    weight: number;
+}
+
+export interface DomainClipping {
+    below: ClippedSide;
+    above: ClippedSide;
+}
+
+export interface HistogramGroup<T = unknown> {
+    key: string;
+    /** Same edges as the overall bins; percent and density are relative to the group's own weight. */
+    bins: ReadonlyArray<HistogramBin<T>>;
+    stats: HistogramStats;
+    /** Item indices of `bins`, with `items: "packed"`. */
+    packedItems?: PackedItems;
+}
+
+export interface HistogramAccumulatorConfig<T = unknown> extends Omit<HistogramLogicConfig<T>, "data"> {
+    /** Optional seed data, added as if passed to `addMany`. */
+    data?: HistogramLogicConfig<T>["data"];
+}
+
+export interface RebinOptions {
+    domain?: [number, number] | DomainStrategy;
+    binning?: BinningStrategy;
+}
+
+export interface HistogramAccumulator<T = unknown> {
+    /** Adds one point; returns false when the value or weight is rejected (non-finite or non-positive weight). */
+    add(value: number, weight?: number): boolean;
+    /** Adds a batch using the configured `x`/`weight` accessors; returns the number of accepted points. */
+    addMany(data: HistogramData<T>): number;
+    /** Removes one previously added point with the same value and weight; returns false if none matched. */
+    remove(value: number, weight?: number): boolean;
+    /** Drops all points. Frozen edges are kept; call `rebin()` to plan again. */
+    reset(): void;
+    /** Re-plans edges from the live points (optionally with a new domain/binning) and redistributes them. */
+    rebin(options?: RebinOptions): void;
+    /** Immutable histogram of the live points; freezes the edges on first use. */
+    snapshot(): HistogramResult<T>;
+    /** Number of live points. */
+    readonly size: number;
+}
+
+/**
+ * Serializable, mergeable histogram state carrying explicit edges and sufficient statistics.
+ * Produced by `computePartialHistogram`, combined with `mergeHistograms`, turned into a result by `finalizePartial`.
+ */
+export interface HistogramPartial {
+    version: 1;
+    /** Regular bin edges; empty only for a partial without data (the merge identity). */
+    edges: number[];
+    binWidth: number;
+    edgeRule: EdgeInclusionRule;
+    /** Whether the finalized result shows under/overflow bins; the weights are tracked regardless. */
+    underflow: boolean;
+    overflow: boolean;
+    /** Weighted count per regular bin (length = edges.length - 1). */
+    counts: number[];
+    underflowWeight: number;
+    overflowWeight: number;
+    /** Contributing item indices, offset on merge so they index the concatenated data. */
+    items?: { underflow: number[]; bins: number[][]; overflow: number[] };
+    /** Sums of squared weights per slot, for per-bin uncertainty; absent in partials from older versions. */
+    squaredWeights?: { underflow: number; bins: number[]; overflow: number };
+    n: number;
+    sumW: number;
+    sumXW: number;
+    sumX2W: number;
+    /** Sum of squared weights, for the effective sample size in sample variance. */
+    sumW2: number;
+    /** Weighted central moments (mean and sums of squared/cubed/fourth-power deviations), merged stably. */
+    moments: { mean: number; m2: number; m3: number; m4: number };
+    /** Per-edge labels under time binning. */
+    edgeLabels?: string[];
+    /** How the edges were chosen; a merge keeps the first side's report. Absent in partials from older versions. */
+    binning?: BinningReport;
+    /** Observed extrema; null when `n` is 0. */
+    min: number | null;
+    max: number | null;
+    warnings: string[];
+    /** Structured form of `warnings`; absent in partials from older versions. */
+    diagnostics?: HistogramDiagnostic[];
+    /** Items skipped during extraction, summed on merge. */
+    dropped?: DroppedCounts;
+}
+
+/** Per-axis binning settings for two-dimensional histograms. */
+export type HistogramAxisConfig = Pick<HistogramLogicConfig, "domain" | "binning" | "edgeRule" | "overflow">;
+
+export interface Histogram2DConfig<T = unknown> {
+    data: ReadonlyArray<T>;
+    x: NumericAccessor<T>;
+    y: NumericAccessor<T>;
+    weight?: WeightAccessor<T> | number;
+    xAxis?: HistogramAxisConfig;
+    yAxis?: HistogramAxisConfig;
+    /** Throw `HistogramConfigError` on invalid axis options instead of reporting them. */
+    strict?: boolean;
+}
+
+export interface HistogramCell {
+    /** Row-major position: `iy * nx + ix`. */
+    index: number;
+    /** Column (x slot) and row (y slot), using the marginal bins' slot layout including under/overflow. */
+    ix: number;
+    iy: number;
+    xStart: number;
+    xEnd: number;
+    yStart: number;
+    yEnd: number;
+    count: number;
+    percent: number;
+    /** Weight per unit area; 0 for cells with an infinite side. */
+    density: number;
+    items: number[];
+}
+
+export interface Histogram2DResult<T = unknown> {
+    /** Row-major grid of `nx * ny` cells. */
+    cells: ReadonlyArray<HistogramCell>;
+    nx: number;
+    ny: number;
+    /** Marginal histograms over the same edges; their bins index the grid's columns and rows. */
+    x: HistogramResult<T>;
+    y: HistogramResult<T>;
+    warnings?: ReadonlyArray<string>;
+    diagnostics?: ReadonlyArray<HistogramDiagnostic>;
+    dropped?: DroppedCounts;
+}
+
+export type CategoryAccessor<T> = (d: T, i: number) => string | number | boolean | null | undefined;
+
+/** Category ordering: by descending weight (default), by key, by first appearance, or a custom comparator. */
+export type CategoryOrder =
+    | "count" | "key" | "input"
+    | ((a: { key: string; count: number }, b: { key: string; count: number }) => number);
+
+export interface CategoricalHistogramConfig<T = unknown> {
+    data: ReadonlyArray<T>;
+    /** Category of each item; defaults to the item itself. Null/undefined items are skipped. */
+    x?: CategoryAccessor<T>;
+    weight?: WeightAccessor<T> | number;
+    order?: CategoryOrder;
+    /** Keep the first `top` categories (after ordering) and fold the rest into an "other" bin. */
+    top?: number;
+    /** Key of the folded bin (default "Other"). */
+    otherLabel?: string;
+    measure?: HistogramMeasure;
+    /** Throw `HistogramConfigError` for invalid options instead of falling back to defaults (default false). */
+    strict?: boolean;
+}
+
+/**
+ * Category bin. Positional fields (`start`, `end`, `center`, `width`) place category `index` on a unit slot,
+ * so category bins render with the same views as numeric bins.
+ */
+export interface CategoryBin<T = unknown> extends HistogramBin<T> {
+    key: string;
+    /** True for the bin folding categories beyond `top`. */
+    other?: boolean;
+}
+
+export interface CategoricalHistogramResult<T = unknown> {
+    bins: ReadonlyArray<CategoryBin<T>>;
+    /** Distinct categories in result order, including those folded into "other". */
+    categories: string[];
+    n: number;
+    totalWeight: number;
+    /** Diagnostic messages (the `message` of each entry in `diagnostics`). */
+    warnings?: ReadonlyArray<string>;
+    diagnostics?: ReadonlyArray<HistogramDiagnostic>;
+    /** Items skipped because their category was missing or NaN, their weight invalid, or an accessor threw. */
+    dropped?: DroppedCounts;
+}
+
+export type DistributionFamily = "normal" | "lognormal" | "exponential";
+
+/** `mu`/`sigma` for normal and lognormal (of log x), `rate` for exponential. */
+export type DistributionParams = { mu: number; sigma: number } | { rate: number };
+
+export interface GoodnessOfFit {
+    statistic: number;
+    /** NaN when the test is undefined (e.g. no degrees of freedom left). */
+    pValue: number;
+}
+
+export interface FitOptions {
+    /** Minimum expected weight per chi-square cell; smaller neighbours are merged (default 5). */
+    minExpected?: number;
+}
+
+export interface DistributionFit {
+    family: DistributionFamily;
+    params: DistributionParams;
+    /** "mle" on raw values (config input), "binned-mle" on bin counts (result input). */
+    method: "mle" | "binned-mle";
+    /** Weighted log-likelihood (density-based for "mle", multinomial for "binned-mle"). */
+    logLikelihood: number;
+    /** Expected weight per bin, aligned with the histogram's bins. */
+    expected: number[];
+    /** Expected weight beyond the first/last edge not covered by an underflow/overflow bin. */
+    tailExpected: { under: number; over: number };
+    chiSquare: GoodnessOfFit & { df: number; cells: number };
+    ks: GoodnessOfFit;
+    andersonDarling: GoodnessOfFit;
+    /** Diagnostic messages (the `message` of each entry in `diagnostics`). */
+    warnings: ReadonlyArray<string>;
+    diagnostics: ReadonlyArray<HistogramDiagnostic>;
+}
+
+export interface CompareOptions {
+    /** Common bins: the baseline's (default), the union of both edge sets, or explicit finite edges. */
+    align?: "baseline" | "union" | number[];
+    /** Pseudo-proportion added to every bin for PSI, KL and ratios (default 1e-4). */
+    smoothing?: number;
+}
+
+export interface HistogramComparisonBin {
+    index: number;
+    start: number;
+    end: number;
+    /** Aligned weights. */
+    baseline: number;
+    current: number;
+    baselinePercent: number;
+    currentPercent: number;
+    /** currentPercent - baselinePercent (percentage points). */
+    delta: number;
+    /** Smoothed current / baseline proportion. */
+    ratio: number;
+}
+
+export interface HistogramComparison {
+    bins: HistogramComparisonBin[];
+    /** Population Stability Index. */
+    psi: number;
+    /** KL(current ‖ baseline), smoothed. */
+    klDivergence: number;
+    /** Jensen–Shannon divergence (natural log, at most ln 2). */
+    jsDivergence: number;
+    /** Earth mover's (Wasserstein-1) distance in data units. */
+    wasserstein: number;
+    /** Chi-square test of homogeneity over the aligned bins. */
+    chiSquare: GoodnessOfFit & { df: number };
+    /** Two-sample Kolmogorov–Smirnov at the common edges. */
+    ks: GoodnessOfFit;
+    /** Diagnostic messages (the `message` of each entry in `diagnostics`). */
+    warnings: ReadonlyArray<string>;
+    diagnostics: ReadonlyArray<HistogramDiagnostic>;
+}
+
+/** A JSON number; non-finite values are spelled as strings so they survive `JSON.stringify`. */
+export type JsonNumber = number | "Infinity" | "-Infinity" | "NaN";
+
+/** `T` with every number replaced by a `JsonNumber`. */
+export type Serialized<T> =
+    unknown extends T ? unknown
+    : T extends number ? JsonNumber
+    : T extends string | boolean | null | undefined ? T
+    : { [K in keyof T]: Serialized<T[K]> };
+
+/** A bin in `SerializedHistogram`; `items` is omitted with `items: false` and `sample` is never written. */
+export type SerializedBin = Serialized<Omit<HistogramBin, "items" | "sample">> & { items?: number[] };
+
+/** JSON form of a `HistogramResult`, described by `HISTOGRAM_JSON_SCHEMA`. */
+export interface SerializedHistogram {
+    format: "histogram";
+    version: 1;
+    domain: [JsonNumber, JsonNumber];
+    binWidth: JsonNumber;
+    bins: SerializedBin[];
+    stats: Serialized<HistogramStats>;
+    kde?: Serialized<Omit<KDEResult, "warnings" | "diagnostics">>;
+    groups?: { key: string; bins: SerializedBin[]; stats: Serialized<HistogramStats> }[];
+    binning?: Serialized<BinningReport>;
+    warnings?: string[];
+    diagnostics?: Serialized<HistogramDiagnostic>[];
+    dropped?: DroppedCounts;
+    clipped?: DomainClipping;
+}
+
+export interface SerializeOptions {
+    /** Write each bin's item indices (default true). Disable to keep the payload small. */
+    items?: boolean;
+}
+
+/** Bin fields that can be exported as CSV columns or charted. */
+export type BinField = "count" | "percent" | "density" | "cumulativeCount" | "cumulativePercent" | "cumulativeDensity";
+
+export interface CsvOptions {
+    /** Value columns, in order (default count, percent, density). Cumulative fields are derived when the bins lack them. */
+    fields?: BinField[];
+    /** Field separator (default ","). */
+    delimiter?: string;
+    /** Write one row per group bin with a leading `group` column instead of the overall bins. */
+    groups?: boolean;
 }
@@ -0,0 +1,65 @@
+// src/core/uncertainty.test.ts
+import { describe, expect, it } from "vitest";
+import { computeHistogram } from "./engine.js";
+import { binUncertainty, resolveUncertainty } from "./uncertainty.js";
+
+/** Checks an interval against reference bounds to `digits` decimals. */
+function expectInterval(actual: [number, number], expected: [number, number], digits: number) {
+    expect(actual[0]).toBeCloseTo(expected[0], digits);
+    expect(actual[1]).toBeCloseTo(expected[1], digits);
+}
+
+describe("binUncertainty", () => {
+    // reference values: R's poisson.test, binom.test and prop.test(correct = FALSE) at 95%
+    it("gives exact Garwood intervals for unweighted counts", () => {
+        const ctx = resolveUncertainty(true, 10, 10, 10)!;
+        expect(ctx.weighted).toBe(false);
+        expectInterval(binUncertainty(0, 0, 1, ctx).count, [0, 3.688879], 5);
+        expectInterval(binUncertainty(1, 1, 1, ctx).count, [0.025318, 5.571643], 5);
+        expectInterval(binUncertainty(10, 10, 1, ctx).count, [4.795389, 18.390356], 5);
+
+        const ninety = resolveUncertainty({ level: 0.9 }, 10, 10, 10)!;
+        expectInterval(binUncertainty(10, 10, 1, ninety).count, [5.425406, 16.962219], 5);
+    });
+
+    it("gives Wilson and Clopper–Pearson percent intervals", () => {
+        const wilson = resolveUncertainty(true, 10, 10, 10)!;
+        expectInterval(binUncertainty(0, 0, 1, wilson).percent, [0, 27.75328], 3);
+        expectInterval(binUncertainty(3, 3, 1, wilson).percent, [10.77913, 60.32219], 3);
+        expectInterval(binUncertainty(10, 10, 1, wilson).percent, [72.24672, 100], 3);
+
+        const exact = resolveUncertainty({ percent: "clopper-pearson" }, 10, 10, 10)!;
+        expectInterval(binUncertainty(0, 0, 1, exact).percent, [0, 30.84971], 3);
+        expectInterval(binUncertainty(3, 3, 1, exact).percent, [6.673951, 65.24529], 3);
+        expectInterval(binUncertainty(10, 10, 1, exact).percent, [69.15029, 100], 3);
+    });
+
+    it("uses count ± z·√sumW2 and the effective sample size for weighted data", () => {
+        // weights 1, 2, 3, 4 in one bin of width 2
+        const ctx = resolveUncertainty(true, 4, 10, 30)!;
+        expect(ctx.weighted).toBe(true);
+        expect(ctx.effectiveN).toBeCloseTo(100 / 30, 12);
+
+        const u = binUncertainty(10, 30, 2, ctx);
+        const half = 1.959964 * Math.sqrt(30);
+        expect(u.stdError).toBeCloseTo(Math.sqrt(30), 12);
+        expectInterval(u.count, [0, 10 + half], 5);
+        expectInterval(u.density, [0, (10 + half) / 20], 5);
+        expectInterval(binUncertainty(20, 40, 2, ctx).count, [20 - 1.959964 * Math.sqrt(40), 20 + 1.959964 * Math.sqrt(40)], 5);
+    });
+
+    it("attaches the intervals to the bins of a weighted histogram", () => {
+        const r = computeHistogram({
+            data: Array.from({ length: 15 }, (_, i) => i < 10 ? 1 : 3),
+            weight: 2,
+            domain: [0, 4],
+            binning: { mode: "binWidth", binWidth: 2 },
+            uncertainty: true,
+        });
+        const [a, b] = r.bins;
+        expect([a!.count, a!.sumW2, b!.count, b!.sumW2]).toEqual([20, 40, 10, 20]);
+        expectInterval(a!.uncertainty!.count, [20 - 1.959964 * Math.sqrt(40), 20 + 1.959964 * Math.sqrt(40)], 5);
+        expectInterval(b!.uncertainty!.count, [10 - 1.959964 * Math.sqrt(20), 10 + 1.959964 * Math.sqrt(20)], 5);
+        expectInterval(b!.uncertainty!.density, [(10 - 1.959964 * Math.sqrt(20)) / 60, (10 + 1.959964 * Math.sqrt(20)) / 60], 5);
+    });
+});
@@ -0,0 +1,80 @@
+// src/core/uncertainty.ts
+import { betaInverse, gammaPInverse, normalQuantile } from "./special.js";
+import type { BinUncertainty, UncertaintyOptions } from "./types.js";
+
+/** Per-histogram settings shared by every bin's interval computation. */
+export interface UncertaintyContext {
+    alpha: number;
+    /** Two-sided normal critical value for `alpha`. */
+    z: number;
+    percent: NonNullable<UncertaintyOptions["percent"]>;
+    /** False when every weight is 1, which enables exact Poisson intervals for counts. */
+    weighted: boolean;
+    totalWeight: number;
+    /** Kish effective sample size, the binomial size for percent intervals. */
+    effectiveN: number;
+}
+
+/**
+ * Resolves the `uncertainty` option against the histogram's weight totals. Returns null when
+ * uncertainty is not requested. An invalid level (reported by `validateConfig`) falls back to 0.95.
+ */
+export function resolveUncertainty(
+    option: boolean | UncertaintyOptions | undefined,
+    n: number,
+    totalWeight: number,
+    sumW2: number
+): UncertaintyContext | null {
+    if (!option) return null;
+    const o = option === true ? {} : option;
+
+    let level = o.level ?? 0.95;
+    if (!(level > 0 && level < 1)) level = 0.95;
+
+    const alpha = 1 - level;
+    const tol = 1e-9 * Math.max(1, totalWeight);
+    return {
+        alpha,
+        z: normalQuantile(1 - alpha / 2),
+        percent: o.percent ?? "wilson",
+        weighted: Math.abs(totalWeight - n) > tol || Math.abs(sumW2 - n) > tol,
+        totalWeight,
+        effectiveN: sumW2 > 0 ? (totalWeight * totalWeight) / sumW2 : 0,
+    };
+}
+
+/** Standard error and intervals of one bin with weighted count `count` over a bin of `width`. */
+export function binUncertainty(count: number, sumW2: number, width: number, ctx: UncertaintyContext): BinUncertainty {
+    const { alpha, z, totalWeight: tw } = ctx;
+    const stdError = Math.sqrt(Math.max(0, sumW2));
+
+    // Garwood: the central interval of a Poisson mean, via gamma quantiles (χ²(2k)/2).
+    const k = Math.round(count);
+    const countCi: [number, number] = ctx.weighted
+        ? [Math.max(0, count - z * stdError), count + z * stdError]
+        : [k > 0 ? gammaPInverse(k, alpha / 2) : 0, gammaPInverse(k + 1, 1 - alpha / 2)];
+
+    const n = ctx.effectiveN;
+    const share = tw > 0 ? count / tw : 0;
+    const percentCi = n > 0 ? proportionInterval(share, n, ctx) : [0, 100] as [number, number];
+
+    const scale = tw * width;
+    const density: [number, number] = Number.isFinite(width) && scale > 0 ? [countCi[0] / scale, countCi[1] / scale] : [0, 0];
+
+    return { stdError, count: countCi, percent: percentCi, density };
+}
+
+/** Binomial interval for proportion `p` out of (possibly fractional) size `n`, in percent. */
+function proportionInterval(p: number, n: number, ctx: UncertaintyContext): [number, number] {
+    if (ctx.percent === "clopper-pearson") {
+        const x = p * n;
+        const lo = x > 0 ? betaInverse(ctx.alpha / 2, x, n - x + 1) : 0;
+        const hi = x < n ? betaInverse(1 - ctx.alpha / 2, x + 1, n - x) : 1;
+        return [lo * 100, hi * 100];
+    }
+
+    const z2 = ctx.z * ctx.z;
+    const mid = (p + z2 / (2 * n)) / (1 + z2 / n);
+    const half = (ctx.z / (1 + z2 / n)) * Math.sqrt(Math.max(0, p * (1 - p)) / n + z2 / (4 * n * n));
+    return [Math.max(0, mid - half) * 100, Math.min(1, mid + half) * 100];
+}
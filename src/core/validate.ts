@@ -0,0 +1,278 @@
+// src/core/validate.ts
+import { diagnostic } from "./diagnostics.js";
+import { isColumns, isNumericTypedArray } from "./engine.helpers.js";
+import { HistogramConfigError } from "./errors.js";
+import { isValidTimeZone } from "./time.js";
+import type {
+    AutoBinningRule,
+    BandwidthRule,
+    CategoricalHistogramConfig,
+    CategoryOrder,
+    DomainStrategy,
+    HistogramDiagnostic,
+    HistogramLogicConfig,
+    HistogramMeasure,
+    ItemStorage,
+    KernelType,
+    TimeInterval
+} from "./types.js";
+
+// Keyed by every member of the union so adding a member without updating validation fails to compile.
+const MEASURES: Record<HistogramMeasure, true> = {
+    "count": true, "percent": true, "density": true,
+    "cumulative-count": true, "cumulative-percent": true, "cumulative-density": true,
+};
+const INTERVALS: Record<TimeInterval | "auto", true> = { minute: true, hour: true, day: true, week: true, month: true, year: true, auto: true };
+const KERNELS: Record<KernelType, true> = { gaussian: true, epanechnikov: true, uniform: true, triangular: true, biweight: true, cosine: true };
+const BANDWIDTHS: Record<BandwidthRule, true> = { silverman: true, scott: true, isj: true };
+const ITEM_STORAGE: Record<ItemStorage, true> = { none: true, indices: true, packed: true };
+const DOMAIN_MODES: Record<DomainStrategy["mode"], true> = { quantile: true, mad: true, tukey: true };
+const CATEGORY_ORDERS: Record<Extract<CategoryOrder, string>, true> = { count: true, key: true, input: true };
+const RULES: Record<AutoBinningRule, true> = {
+    fd: true, scott: true, sturges: true, rice: true, sqrt: true, doane: true, numpy: true, knuth: true, shimazaki: true,
+};
+
+type Config<T> = Partial<HistogramLogicConfig<T>>;
+
+/**
+ * Checks every field of a histogram config (or of the numeric options a worker receives) and returns one
+ * `invalid-option` error per problem; an empty array means the config is valid. Fields that are merely
+ * unusual but well-defined, such as a reversed domain, are not errors: the engine reports them as warnings.
+ */
+export function validateConfig<T>(cfg: Config<T>): HistogramDiagnostic[] {
+    const out: HistogramDiagnostic[] = [];
+    const fail = (path: string, value: unknown, expected: string) => { out.push(invalidOption(path, value, expected)); };
+
+    if ("data" in cfg && cfg.data !== undefined) {
+        const { data } = cfg;
+        if (isColumns(data)) {
+            if (data.weights !== undefined && !isNumericTypedArray(data.weights)) fail("data.weights", data.weights, "a numeric typed array");
+        } else if (!Array.isArray(data) && !isNumericTypedArray(data)) {
+            fail("data", data, "an array, a numeric typed array or { values, weights? }");
+        }
+    }
+
+    if (cfg.x !== undefined && typeof cfg.x !== "function") fail("x", cfg.x, "a function");
+    if (cfg.groupBy !== undefined && typeof cfg.groupBy !== "function") fail("groupBy", cfg.groupBy, "a function");
+    if (cfg.weight !== undefined && typeof cfg.weight !== "function" && !isPositive(cfg.weight)) {
+        fail("weight", cfg.weight, "a function or a finite positive number");
+    }
+
+    if (cfg.domain !== undefined) {
+        const d = cfg.domain;
+        if (Array.isArray(d)) {
+            if (d.length !== 2) fail("domain", d, "[min, max]");
+            else d.forEach((v, i) => { if (!isFiniteNumber(v)) fail(`domain[${i}]`, v, "a finite number"); });
+        } else {
+            validateDomainStrategy(d, fail);
+        }
+    }
+
+    if (cfg.binning !== undefined) validateBinning(cfg.binning, fail);
+
+    if (cfg.edgeRule !== undefined && cfg.edgeRule !== "closed-right" && cfg.edgeRule !== "closed-left") {
+        fail("edgeRule", cfg.edgeRule, `"closed-right" or "closed-left"`);
+    }
+
+    const o = cfg.overflow;
+    if (o !== undefined && typeof o !== "boolean") {
+        if (!isObject(o)) fail("overflow", o, "a boolean or { underflow?, overflow? }");
+        else {
+            if (o.underflow !== undefined && typeof o.underflow !== "boolean") fail("overflow.underflow", o.underflow, "a boolean");
+            if (o.overflow !== undefined && typeof o.overflow !== "boolean") fail("overflow.overflow", o.overflow, "a boolean");
+        }
+    }
+
+    if (cfg.measure !== undefined && !has(MEASURES, cfg.measure)) fail("measure", cfg.measure, oneOf(MEASURES));
+
+    if (cfg.quantiles !== undefined) {
+        if (!Array.isArray(cfg.quantiles)) fail("quantiles", cfg.quantiles, "an array of probabilities");
+        else cfg.quantiles.forEach((p, i) => { if (!(isFiniteNumber(p) && p >= 0 && p <= 1)) fail(`quantiles[${i}]`, p, "a number in [0, 1]"); });
+    }
+
+    const qm = cfg.quantileMethod;
+    if (qm !== undefined && !(Number.isInteger(qm) && qm >= 1 && qm <= 9)) fail("quantileMethod", qm, "an integer from 1 to 9");
+
+    if (cfg.variance !== undefined && cfg.variance !== "population" && cfg.variance !== "sample") {
+        fail("variance", cfg.variance, `"population" or "sample"`);
+    }
+
+    const kde = cfg.kde;
+    if (kde !== undefined && typeof kde !== "boolean") {
+        if (!isObject(kde)) fail("kde", kde, "a boolean or KDE options");
+        else {
+            if (kde.kernel !== undefined && !has(KERNELS, kde.kernel)) fail("kde.kernel", kde.kernel, oneOf(KERNELS));
+            if (kde.bandwidth !== undefined && !isPositive(kde.bandwidth) && !has(BANDWIDTHS, kde.bandwidth)) {
+                fail("kde.bandwidth", kde.bandwidth, `a positive number or ${oneOf(BANDWIDTHS)}`);
+            }
+            if (kde.points !== undefined && !(isFiniteNumber(kde.points) && Number.isInteger(kde.points) && kde.points >= 2)) fail("kde.points", kde.points, "an integer >= 2");
+            if (kde.method !== undefined && kde.method !== "auto" && kde.method !== "exact" && kde.method !== "fft") {
+                fail("kde.method", kde.method, `"auto", "exact" or "fft"`);
+            }
+        }
+    }
+
+    const u = cfg.uncertainty;
+    if (u !== undefined && typeof u !== "boolean") {
+        if (!isObject(u)) fail("uncertainty", u, "a boolean or uncertainty options");
+        else {
+            if (u.level !== undefined && !(isFiniteNumber(u.level) && u.level > 0 && u.level < 1)) fail("uncertainty.level", u.level, "a number in (0, 1)");
+            if (u.percent !== undefined && u.percent !== "wilson" && u.percent !== "clopper-pearson") {
+                fail("uncertainty.percent", u.percent, `"wilson" or "clopper-pearson"`);
+            }
+        }
+    }
+
+    const p = cfg.profile;
+    if (p !== undefined) {
+        if (!isObject(p) || typeof p.y !== "function") fail("profile", p, "{ y: accessor, median? }");
+        else if (p.median !== undefined && typeof p.median !== "boolean") fail("profile.median", p.median, "a boolean");
+    }
+
+    if (cfg.items !== undefined && !has(ITEM_STORAGE, cfg.items)) fail("items", cfg.items, oneOf(ITEM_STORAGE));
+
+    const sm = cfg.sample;
+    if (sm !== undefined) {
+        if (!isObject(sm)) fail("sample", sm, "{ size, seed? }");
+        else {
+            if (!(Number.isInteger(sm.size) && sm.size >= 0)) fail("sample.size", sm.size, "an integer >= 0");
+            if (sm.seed !== undefined && !isFiniteNumber(sm.seed)) fail("sample.seed", sm.seed, "a finite number");
+        }
+    }
+
+    if (cfg.strict !== undefined && typeof cfg.strict !== "boolean") fail("strict", cfg.strict, "a boolean");
+
+    return out;
+}
+
+/**
+ * Validates `cfg` for an entry point. In strict mode invalid options throw `HistogramConfigError`;
+ * otherwise the problems are returned so they can lead the result's diagnostics.
+ */
+export function checkConfig<T>(cfg: Config<T>): HistogramDiagnostic[] {
+    const problems = validateConfig(cfg);
+    if (cfg.strict && problems.length > 0) throw new HistogramConfigError(problems);
+    return problems;
+}
+
+/**
+ * `checkConfig` for `computeCategoricalHistogram`: the shared fields (`data`, `weight`, `measure`, `strict`)
+ * are validated as for numeric histograms, plus `x`, `order`, `top` and `otherLabel`.
+ */
+export function checkCategoricalConfig<T>(cfg: CategoricalHistogramConfig<T>): HistogramDiagnostic[] {
+    const { x, order, top, otherLabel, ...shared } = cfg;
+    const problems = validateConfig<T>(shared);
+    const fail = (path: string, value: unknown, expected: string) => { problems.push(invalidOption(path, value, expected)); };
+
+    if (x !== undefined && typeof x !== "function") fail("x", x, "a function");
+    if (order !== undefined && typeof order !== "function" && !has(CATEGORY_ORDERS, order)) fail("order", order, `a comparator or ${oneOf(CATEGORY_ORDERS)}`);
+    if (top !== undefined && !(Number.isInteger(top) && top >= 0)) fail("top", top, "an integer >= 0");
+    if (otherLabel !== undefined && typeof otherLabel !== "string") fail("otherLabel", otherLabel, "a string");
+
+    if (cfg.strict && problems.length > 0) throw new HistogramConfigError(problems);
+    return problems;
+}
+
+function validateDomainStrategy(d: unknown, fail: (path: string, value: unknown, expected: string) => void) {
+    if (!isObject(d) || !has(DOMAIN_MODES, d.mode)) {
+        fail("domain", d, `[min, max] or { mode: ${oneOf(DOMAIN_MODES)} }`);
+        return;
+    }
+    const s = d as DomainStrategy;
+    switch (s.mode) {
+        case "quantile": {
+            const { lower = 0.01, upper = 0.99 } = s;
+            if (!(isFiniteNumber(lower) && lower >= 0 && lower <= 1)) fail("domain.lower", lower, "a number in [0, 1]");
+            else if (!(isFiniteNumber(upper) && upper >= 0 && upper <= 1)) fail("domain.upper", upper, "a number in [0, 1]");
+            else if (!(lower < upper)) fail("domain.upper", upper, `a number greater than domain.lower (${lower})`);
+            break;
+        }
+        case "mad":
+            if (s.k !== undefined && !isPositive(s.k)) fail("domain.k", s.k, "a finite positive number");
+            break;
+        case "tukey":
+            if (s.k !== undefined && !(isFiniteNumber(s.k) && s.k >= 0)) fail("domain.k", s.k, "a finite number >= 0");
+            break;
+    }
+}
+
+function validateBinning(b: NonNullable<Config<unknown>["binning"]>, fail: (path: string, value: unknown, expected: string) => void) {
+    if (!isObject(b)) { fail("binning", b, "a binning strategy object"); return; }
+    const nice = (b as { nice?: unknown }).nice;
+    if (nice !== undefined) {
+        if (typeof nice !== "boolean") fail("binning.nice", nice, "a boolean");
+        else if (b.mode !== "auto" && b.mode !== "binWidth" && b.mode !== "binCount") {
+            fail("binning.nice", nice, `undefined (nice applies to "auto", "binWidth" and "binCount")`);
+        }
+    }
+
+    switch (b.mode) {
+        case "auto":
+            if (b.rule !== undefined && !has(RULES, b.rule)) fail("binning.rule", b.rule, oneOf(RULES));
+            return;
+        case "binWidth":
+            if (!isPositive(b.binWidth)) fail("binning.binWidth", b.binWidth, "a finite positive number");
+            return;
+        case "binCount":
+            if (!(Number.isInteger(b.binCount) && b.binCount >= 1)) fail("binning.binCount", b.binCount, "an integer >= 1");
+            return;
+        case "edges":
+            if (!Array.isArray(b.edges)) fail("binning.edges", b.edges, "an array of numbers");
+            else if (b.edges.length < 2) fail("binning.edges", b.edges, "at least two edges");
+            else b.edges.forEach((e, i) => { if (typeof e !== "number" || Number.isNaN(e)) fail(`binning.edges[${i}]`, e, "a number"); });
+            return;
+        case "quantile":
+            if (!(Number.isInteger(b.count) && b.count >= 1)) fail("binning.count", b.count, "an integer >= 1");
+            return;
+        case "integer":
+            if (b.width !== undefined && !isPositive(b.width)) fail("binning.width", b.width, "a finite positive number");
+            return;
+        case "time":
+            if (b.interval !== undefined && !has(INTERVALS, b.interval)) fail("binning.interval", b.interval, oneOf(INTERVALS));
+            if (b.step !== undefined && !(Number.isInteger(b.step) && b.step >= 1)) fail("binning.step", b.step, "an integer >= 1");
+            if (b.timeZone !== undefined && (typeof b.timeZone !== "string" || !isValidTimeZone(b.timeZone))) {
+                fail("binning.timeZone", b.timeZone, "an IANA time zone name");
+            }
+            return;
+        case "bayesianBlocks":
+            if (b.p0 !== undefined && !(isFiniteNumber(b.p0) && b.p0 > 0 && b.p0 < 1)) fail("binning.p0", b.p0, "a number in (0, 1)");
+            return;
+        default:
+            fail(
+                "binning.mode", (b as { mode?: unknown }).mode,
+                `"auto", "binWidth", "binCount", "edges", "quantile", "integer", "time" or "bayesianBlocks"`
+            );
+    }
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+    return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isFiniteNumber(v: unknown): v is number {
+    return typeof v === "number" && Number.isFinite(v);
+}
+
+function isPositive(v: unknown): v is number {
+    return isFiniteNumber(v) && v > 0;
+}
+
+function invalidOption(path: string, value: unknown, expected: string) {
+    return diagnostic("invalid-option", `Invalid option ${path}: expected ${expected}, got ${describe(value)}.`, { path, value, expected }, "error");
+}
+
+function has<K extends string>(set: Record<K, true>, v: unknown): v is K {
+    return typeof v === "string" && Object.prototype.hasOwnProperty.call(set, v);
+}
+
+function oneOf(set: Record<string, true>) {
+    return `one of ${Object.keys(set).map(k => JSON.stringify(k)).join(", ")}`;
+}
+
+function describe(v: unknown) {
+    if (typeof v === "function") return "a function";
+    if (typeof v === "number" || typeof v === "boolean" || v == null) return String(v);
+    if (typeof v === "string") return JSON.stringify(v);
+    if (Array.isArray(v)) return `an array of length ${v.length}`;
+    return typeof v;
+}
@@ -1,6 +1,41 @@
+export { createHistogramAccumulator } from "./core/accumulator.js";
+export { computeCategoricalHistogram } from "./core/categorical.js";
+export { compareHistograms } from "./core/compare.js";
+export { histogramToCSV } from "./core/csv.js";
 export { computeHistogram } from "./core/engine.js";
+export { computeHistogram2D } from "./core/engine2d.js";
+export { HistogramConfigError, HistogramFormatError, HistogramMergeError } from "./core/errors.js";
+export { fitDistribution } from "./core/fit.js";
+export { binItems } from "./core/items.js";
+export { computeKDE } from "./core/kde.js";
+export { computePartialHistogram, finalizePartial, mergeHistograms } from "./core/partial.js";
+export type { FinalizeOptions, PartialOptions } from "./core/partial.js";
+export { deserializeHistogram, HISTOGRAM_JSON_SCHEMA, serializeHistogram } from "./core/serialize.js";
+export { validateConfig } from "./core/validate.js";
 export * from "./core/types.js";
+export { HeatmapView } from "./react/heatmap-view.js";
+export type { HeatmapViewProps } from "./react/heatmap-view.js";
 export { HistogramView } from "./react/histogram-view.js";
 export { useHistogram } from "./react/use-histogram.js";
+export type { HistogramStatus, UseHistogramConfig, UseHistogramResult } from "./react/use-histogram.js";
+export { computeHistogramAsync, createHistogramWorker } from "./worker/client.js";
+export type { AsyncComputeOptions, ComputeOptions, HistogramWorker } from "./worker/client.js";
+export { exposeHistogramWorker } from "./worker/host.js";
+export type { MessagePortLike } from "./worker/protocol.js";
 
-export type { RendererConfig } from "./render/driver.js";
+export { CHART_PADDING, chartFill, layoutChart, measureValue } from "./render/chart.js";
+export type { Chart, ChartOptions, ChartTheme } from "./render/chart.js";
+export type { Driver, Rect, Renderer, RendererConfig } from "./render/driver.js";
+export { heatmapColors, layoutHeatmap } from "./render/heatmap.js";
+export type { HeatmapLayout, HeatmapLayoutOptions, HeatmapMeasure } from "./render/heatmap.js";
+export { GROUP_PALETTE, groupColor, groupedMax, groupRectSlot, layoutGroupedBars } from "./render/groups.js";
+export type { GroupLayout } from "./render/groups.js";
+export { hitBar, layoutBars } from "./render/layout.js";
+export type { BarLayout, BarLayoutOptions } from "./render/layout.js";
+export { createRenderer, driverOrder, RendererUnavailableError } from "./render/select.js";
+export { linearTicks, xAxisTicks, yAxisTicks } from "./render/ticks.js";
+export type { AxisTick } from "./render/ticks.js";
+export { createSVGDriver, renderHistogramToSVG } from "./render/svg.js";
+export type { SVGChartOptions, SVGDriver } from "./render/svg.js";
+export { histogramToVegaLite } from "./render/vega-lite.js";
+export type { VegaLiteOptions, VegaLiteSpec } from "./render/vega-lite.js";
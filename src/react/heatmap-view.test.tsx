@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+// src/react/heatmap-view.test.tsx
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { computeHistogram2D } from "../core/engine2d.js";
+import { layoutHeatmap } from "../render/heatmap.js";
+import { HeatmapView } from "./heatmap-view.js";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe("HeatmapView", () => {
+    const points = [[-5, 1], [1, 1], [2, 3], [3, 2], [3, 3], [4, 1]] as const;
+    const result = computeHistogram2D({
+        data: points,
+        x: p => p[0],
+        y: p => p[1],
+        xAxis: { domain: [0, 4], overflow: true, binning: { mode: "binCount", binCount: 2 } },
+        yAxis: { binning: { mode: "binCount", binCount: 2 } },
+    });
+    const ctx = { fillStyle: "", clearRect: vi.fn(), fillRect: vi.fn() };
+    let host: HTMLDivElement, root: Root;
+
+    beforeEach(() => {
+        vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(
+            ((type: string) => type === "2d" ? ctx : null) as HTMLCanvasElement["getContext"]
+        );
+        Object.defineProperty(window, "devicePixelRatio", { value: 2, configurable: true });
+        host = document.createElement("div");
+        document.body.appendChild(host);
+        root = createRoot(host);
+    });
+
+    afterEach(() => {
+        act(() => root.unmount());
+        host.remove();
+        vi.restoreAllMocks();
+        ctx.fillRect.mockClear();
+        delete (window as { devicePixelRatio?: number }).devicePixelRatio;
+    });
+
+    it("sizes the canvas backing store by devicePixelRatio", () => {
+        act(() => root.render(<HeatmapView result={result} width={300} height={200} responsive={false} />));
+        const canvas = host.querySelector("canvas")!;
+        expect([canvas.width, canvas.height]).toEqual([600, 400]);
+
+        const { rects } = layoutHeatmap(result, { width: 300, height: 200 });
+        expect(ctx.fillRect.mock.calls).toEqual(rects.map(r => [r.x * 2, r.y * 2, r.w * 2, r.h * 2]));
+    });
+
+    it("labels open cell edges with signed infinities in the tooltip", () => {
+        act(() => root.render(<HeatmapView result={result} width={300} height={200} responsive={false} />));
+        const cell = result.cells.find(c => c.xStart === Number.NEGATIVE_INFINITY && c.count > 0)!;
+        const r = layoutHeatmap(result, { width: 300, height: 200 }).rects[cell.index]!;
+        act(() => {
+            host.firstElementChild!.dispatchEvent(new MouseEvent("mousemove", { bubbles: true, clientX: r.x + r.w / 2, clientY: r.y + r.h / 2 }));
+        });
+        expect(host.textContent).toContain(`x −∞–0, y ${cell.yStart}–${cell.yEnd} | count: 1`);
+    });
+});
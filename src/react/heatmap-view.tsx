@@ -0,0 +1,105 @@
+// src/react/heatmap-view.tsx
+
+import * as React from "react";
+import type { Histogram2DResult } from "../core/types.js";
+import type { RendererConfig } from "../render/driver.js";
+import { heatmapColors, layoutHeatmap, type HeatmapMeasure } from "../render/heatmap.js";
+import { pixelRatio, scaleRects, useRenderer } from "./use-renderer.js";
+
+export interface HeatmapViewProps<T = unknown> {
+    result: Histogram2DResult<T>;
+    measure?: HeatmapMeasure;
+    width?: number; height?: number; responsive?: boolean; cellGap?: number;
+    /** Colour ramp stops from the lowest to the highest value. */
+    colors?: ReadonlyArray<string>;
+    theme?: { axisColor?: string; tooltipBackground?: string; tooltipText?: string; fontFamily?: string };
+    renderer?: RendererConfig;
+    onHover?: (cell: number | null) => void;
+    onClick?: (cell: number) => void;
+}
+
+export function HeatmapView<T>(props: HeatmapViewProps<T>) {
+    const {
+        result, measure = "count", width, height, responsive = true, cellGap = 0, colors,
+        theme = {}, renderer = { prefer: "webgl2", require: "any" }, onHover, onClick
+    } = props;
+
+    const rootRef = React.useRef<HTMLDivElement | null>(null);
+    const canvasHostRef = React.useRef<HTMLDivElement | null>(null);
+    const [size, setSize] = React.useState({ w: width ?? 600, h: height ?? 400 });
+    const [dpr, setDpr] = React.useState(pixelRatio);
+
+    React.useEffect(() => {
+        if (!responsive) return;
+        const el = rootRef.current; if (!el) return;
+        const ro = new ResizeObserver(es => {
+            if (!es.length) return; const r = es[0]!.contentRect;
+            setSize({ w: Math.max(1, r.width), h: Math.max(1, r.height) }); setDpr(pixelRatio());
+        });
+        ro.observe(el); return () => ro.disconnect();
+    }, [responsive]);
+
+    React.useEffect(() => { if (width && height) setSize({ w: width, h: height }) }, [width, height]);
+
+    const P = { left: 48, right: 16, top: 12, bottom: 32 };
+    const layout = React.useMemo(
+        () => layoutHeatmap(result as Histogram2DResult<unknown>, { width: size.w, height: size.h, padding: P, gap: cellGap }),
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [result, size.w, size.h, cellGap]
+    );
+    const fills = React.useMemo(
+        () => heatmapColors(result as Histogram2DResult<unknown>, colors ? { measure, stops: colors } : { measure }),
+        [result, measure, colors]
+    );
+
+    // renderer; cells are laid out in CSS pixels and scaled to the backing store
+    const output = useRenderer(canvasHostRef, renderer);
+
+    React.useEffect(() => {
+        if (!output) return;
+        const cv = output.canvas;
+        cv.width = Math.max(1, Math.round(size.w * dpr)); cv.height = Math.max(1, Math.round(size.h * dpr));
+        output.render(dpr === 1 ? layout.rects : scaleRects(layout.rects, dpr), i => fills[i]!);
+    }, [output, layout, fills, size, dpr]);
+
+    // events
+    const [hover, setHover] = React.useState<number | null>(null);
+    const hit = (clientX: number, clientY: number) => {
+        const el = canvasHostRef.current!; const r = el.getBoundingClientRect();
+        const x = clientX - r.left, y = clientY - r.top;
+        for (const t of layout.rects) {
+            if (x >= t.x && x <= t.x + t.w && y >= t.y && y <= t.y + t.h) return t.i;
+        } return null;
+    };
+
+    const cell = hover != null ? result.cells[hover] : undefined;
+    const rect = hover != null ? layout.rects[hover] : undefined;
+
+    return (
+        <div
+            ref={rootRef}
+            style={{ position: "relative", width: width ? `${width}px` : "100%", height: height ? `${height}px` : "100%", fontFamily: theme.fontFamily }}
+            onMouseMove={e => { const i = hit(e.clientX, e.clientY); setHover(i); onHover?.(i) }}
+            onMouseLeave={() => { setHover(null); onHover?.(null) }}
+            onClick={e => { const i = hit(e.clientX, e.clientY); if (i != null) onClick?.(i) }}
+        >
+            <div ref={canvasHostRef} style={{ width: "100%", height: "100%" }} />
+            <svg width={size.w} height={size.h} style={{ position: "absolute", left: 0, top: 0, pointerEvents: "none" }}>
+                <line x1={P.left} y1={size.h - P.bottom} x2={size.w - P.right} y2={size.h - P.bottom} stroke={theme.axisColor ?? "#888"} />
+                <line x1={P.left} y1={P.top} x2={P.left} y2={size.h - P.bottom} stroke={theme.axisColor ?? "#888"} />
+            </svg>
+            {cell && rect && (
+                <div style={{
+                    position: "absolute",
+                    left: rect.x + 6, top: rect.y - 28,
+                    background: theme.tooltipBackground ?? "rgba(0,0,0,0.75)",
+                    color: theme.tooltipText ?? "#fff", padding: "4px 6px", borderRadius: 4, pointerEvents: "none", fontSize: 11
+                }}>
+                    {`x ${fmt(cell.xStart)}–${fmt(cell.xEnd)}, y ${fmt(cell.yStart)}–${fmt(cell.yEnd)} | ${measure}: ${fmt(cell[measure])}`}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function fmt(v: number) { if (Number.isNaN(v)) return "NaN"; if (!isFinite(v)) return v < 0 ? "−∞" : "∞"; const s = Math.abs(v) >= 1e4 || (Math.abs(v) > 0 && Math.abs(v) < 1e-3) ? v.toExponential(2) : v.toFixed(2); return s.replace(/\.00$/, "").replace(/(\.\d)0$/, "$1") }
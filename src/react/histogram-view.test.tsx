@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+// src/react/histogram-view.test.tsx
+import * as React from "react";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { computeHistogram } from "../core/engine.js";
+import { RendererUnavailableError } from "../render/select.js";
+import { HistogramView } from "./histogram-view.js";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+class Boundary extends React.Component<{ children: React.ReactNode; onError: (e: unknown) => void }, { failed: boolean }> {
+    override state = { failed: false };
+    static getDerivedStateFromError() { return { failed: true }; }
+    override componentDidCatch(e: unknown) { this.props.onError(e); }
+    override render() { return this.state.failed ? null : this.props.children; }
+}
+
+describe("HistogramView", () => {
+    const result = computeHistogram({ data: [1, 2, 2, 3, 3, 3, 4, 4, 5], binning: { mode: "binCount", binCount: 5 } });
+    const ctx = { fillStyle: "", clearRect: vi.fn(), fillRect: vi.fn() };
+    let host: HTMLDivElement, root: Root;
+
+    beforeEach(() => {
+        // jsdom has no canvas: a 2D context only, no WebGL2
+        vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(
+            ((type: string) => type === "2d" ? ctx : null) as HTMLCanvasElement["getContext"]
+        );
+        host = document.createElement("div");
+        document.body.appendChild(host);
+        root = createRoot(host);
+    });
+
+    afterEach(() => {
+        act(() => root.unmount());
+        host.remove();
+        vi.restoreAllMocks();
+        ctx.fillRect.mockClear();
+    });
+
+    it("mounts with the default renderer when only a 2D context exists", () => {
+        const onDriverChange = vi.fn();
+        act(() => root.render(<HistogramView bins={result.bins} width={300} height={200} responsive={false} />));
+        expect(host.querySelector("canvas")).not.toBeNull();
+        expect(ctx.fillRect).toHaveBeenCalledTimes(result.bins.length);
+        expect(host.querySelectorAll('[data-axis="x"] text').length).toBeGreaterThan(0);
+
+        act(() => root.render(
+            <HistogramView bins={result.bins} width={300} height={200} responsive={false} renderer={{ prefer: "canvas2d", onDriverChange }} />
+        ));
+        expect(onDriverChange).toHaveBeenCalledWith("canvas2d");
+    });
+
+    it("hands RendererUnavailableError to the error boundary when the GPU is required", () => {
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+        const onError = vi.fn();
+        act(() => root.render(
+            <Boundary onError={onError}>
+                <HistogramView bins={result.bins} width={300} height={200} responsive={false} renderer={{ require: "gpu" }} />
+            </Boundary>
+        ));
+        expect(onError).toHaveBeenCalledWith(expect.any(RendererUnavailableError));
+        expect(host.querySelector("canvas")).toBeNull();
+    });
+});
@@ -2,144 +2,168 @@
 
 import * as React from "react";
 import type { HistogramBin, HistogramMeasure } from "../core/types.js";
-import { createCanvas2DDriver } from "../render/canvas2d.js";
-import type { Driver, Rect, RendererConfig } from "../render/driver.js";
-import { createWebGL2Driver } from "../render/webgl2.js";
+import { CHART_PADDING, chartFill, layoutChart } from "../render/chart.js";
+import type { ChartTheme } from "../render/chart.js";
+import type { Rect, RendererConfig } from "../render/driver.js";
+import { groupRectSlot } from "../render/groups.js";
+import type { GroupLayout } from "../render/groups.js";
+import { hitBar } from "../render/layout.js";
+import { pixelRatio, scaleRects, useRenderer } from "./use-renderer.js";
 
 export interface ViewProps<T = unknown> {
     bins: ReadonlyArray<HistogramBin<T>>;
     measure?: HistogramMeasure;
+    /** Per-group bins sharing the edges of `bins` (see `HistogramResult.groups`); drawn instead of the overall bars. */
+    groups?: ReadonlyArray<{ key: string; bins: ReadonlyArray<HistogramBin<T>> }>;
+    groupLayout?: GroupLayout;
+    /** Draw confidence intervals from `bin.uncertainty` (count, percent and density measures; ungrouped only). */
+    errorBars?: boolean;
     width?: number; height?: number; responsive?: boolean; barPadding?: number;
-    theme?: { barFill?: string | ((i: number) => string); axisColor?: string; tooltipBackground?: string; tooltipText?: string; fontFamily?: string };
+    theme?: ChartTheme & { tooltipBackground?: string; tooltipText?: string };
+    /** Approximate number of ticks on each axis. */
     axisXTicks?: number; axisYTicks?: number;
     renderer?: RendererConfig;
     onHover?: (i: number | null) => void;
     onClick?: (i: number) => void;
 }
 
+/**
+ * Draws bins as bars on a canvas with SVG axes and a hover tooltip. The canvas backing store follows
+ * `devicePixelRatio`; with `responsive`, the size tracks the container through `ResizeObserver`.
+ * Hovering anywhere in a bin's column selects the bin, so empty bins show a tooltip too.
+ *
+ * The driver comes from `createRenderer` (see `useRenderer`). By default WebGL2 is preferred and Canvas2D
+ * used when it is unavailable, so the view also mounts where only a 2D context exists (e.g. jsdom with a
+ * mocked `getContext`). When an explicit `renderer.require` cannot be met, the `RendererUnavailableError`
+ * propagates to the nearest error boundary.
+ */
 export function HistogramView<T>(props: ViewProps<T>) {
     const {
-        bins, measure = "count", width, height, responsive = true, barPadding = 0.1,
-        theme = {}, axisXTicks = 6, axisYTicks = 5, renderer = { prefer: "webgl2", require: "gpu" },
+        bins, measure = "count", groups, groupLayout = "stacked", errorBars = false, width, height, responsive = true, barPadding = 0.1,
+        theme = {}, axisXTicks = 6, axisYTicks = 5, renderer = { prefer: "webgl2", require: "any" },
         onHover, onClick
     } = props;
 
     const rootRef = React.useRef<HTMLDivElement | null>(null);
-    const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+    const canvasHostRef = React.useRef<HTMLDivElement | null>(null);
     const [size, setSize] = React.useState({ w: width ?? 600, h: height ?? 400 });
+    const [dpr, setDpr] = React.useState(pixelRatio);
 
     React.useEffect(() => {
-        if (!responsive) return;
+        if (!responsive || typeof ResizeObserver === "undefined") return;
         const el = rootRef.current; if (!el) return;
-        const ro = new ResizeObserver(es => { if (!es.length) return; const r = es[0]!.contentRect; setSize({ w: Math.max(1, r.width), h: Math.max(1, r.height) }); });
+        const ro = new ResizeObserver(es => {
+            if (!es.length) return; const r = es[0]!.contentRect;
+            setSize({ w: Math.max(1, r.width), h: Math.max(1, r.height) }); setDpr(pixelRatio());
+        });
         ro.observe(el); return () => ro.disconnect();
     }, [responsive]);
 
     React.useEffect(() => { if (width && height) setSize({ w: width, h: height }) }, [width, height]);
 
-    const domain = React.useMemo<[number, number]>(() => {
-        if (bins.length > 0) {
-            const first = bins[0]!; const last = bins[bins.length - 1]!;
-            return [first.start, last.end];
-        }
-        return [0, 1];
-    }, [bins]);
-    const bw = React.useMemo(() => bins[0]?.width ?? 1, [bins]);
-    const P = { left: 48, right: 16, top: 12, bottom: 32 };
-
-    const yVal = (b: HistogramBin) => measure === "count" ? b.count
-        : measure === "percent" ? b.percent
-            : measure === "density" ? b.density
-                : measure === "cumulative-count" ? (b.cumulativeCount ?? b.count)
-                    : measure === "cumulative-percent" ? (b.cumulativePercent ?? b.percent)
-                        : (b.cumulativeDensity ?? b.density);
-
-    const yMax = Math.max(1, bins.reduce((m, b) => Math.max(m, yVal(b)), 0));
-    const xToPx = (x: number) => P.left + ((x - domain[0]) / (domain[1] - domain[0])) * Math.max(1, size.w - P.left - P.right);
-    const yToPx = (v: number) => P.top + (1 - v / yMax) * Math.max(1, size.h - P.top - P.bottom);
+    // grouped bars take their x extent from the overall bars; Rect.i encodes (group, bin)
+    const { layout, rects, values, groupValues, intervals, xTicks, yTicks } = React.useMemo(
+        () => layoutChart(bins, {
+            width: size.w, height: size.h, measure, groups, groupLayout, errorBars,
+            padding: CHART_PADDING, barPadding, axisXTicks, axisYTicks
+        }),
+        [bins, size.w, size.h, measure, groups, groupLayout, errorBars, barPadding, axisXTicks, axisYTicks]
+    );
+    const { plot, xToPx, yToPx } = layout;
+    const fill = chartFill(theme, groups ? groupLayout : null, bins.length);
 
-    const rects: Rect[] = React.useMemo(() => {
-        const innerW = Math.max(1, size.w - P.left - P.right);
-        const bwPx = innerW * (bw / (domain[1] - domain[0]));
-        const pad = Math.min(0.5, Math.max(0, barPadding));
-        const wInner = bwPx * (1 - pad * 2);
-        return bins.map((b, i) => {
-            const x0 = xToPx(b.start) + bwPx * pad; const y0 = yToPx(0);
-            const y1 = yToPx(yVal(b));
-            return { i, x: x0, y: Math.min(y0, y1), w: Math.max(0, wInner), h: Math.abs(y1 - y0) };
-        });
-    }, [bins, bw, domain, size.w, size.h, barPadding]);
-
-    // driver
-    const driverRef = React.useRef<Driver | null>(null);
-    const choose = (cv: HTMLCanvasElement): Driver | null => {
-        const order = [renderer.prefer ?? "webgl2", (renderer.prefer ?? "webgl2") === "webgl2" ? "canvas2d" : "webgl2", "canvas2d"] as const;
-        for (const k of order) {
-            try {
-                if (k === "webgl2") return createWebGL2Driver();
-                if (k === "canvas2d" && renderer.require !== "gpu") return createCanvas2DDriver();
-            } catch { /* skip */ }
-        }
-        return null;
-    };
+    // renderer; rects are laid out in CSS pixels and scaled to the backing store
+    const output = useRenderer(canvasHostRef, renderer);
 
     React.useEffect(() => {
-        const cv = canvasRef.current; if (!cv) return;
-        cv.width = Math.max(1, size.w); cv.height = Math.max(1, size.h);
-        driverRef.current?.destroy();
-        const d = choose(cv); driverRef.current = d;
-        if (!d) return;
-        d.init(cv); renderer.onDriverChange?.(d.kind);
-        d.render(rects, i => barFill(theme, i));
-        return () => d.destroy();
+        if (!output) return;
+        const cv = output.canvas;
+        cv.width = Math.max(1, Math.round(size.w * dpr)); cv.height = Math.max(1, Math.round(size.h * dpr));
+        output.render(dpr === 1 ? rects : scaleRects(rects, dpr), fill);
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [size.w, size.h, renderer.prefer, renderer.require]);
-
-    React.useEffect(() => {
-        const cv = canvasRef.current; if (!cv) return;
-        cv.width = Math.max(1, size.w); cv.height = Math.max(1, size.h);
-        driverRef.current?.render(rects, i => barFill(theme, i));
-    }, [rects, size, theme]);
+    }, [output, rects, size, dpr, theme]);
 
     // events
     const [hover, setHover] = React.useState<number | null>(null);
     const hit = (clientX: number, clientY: number) => {
-        const el = canvasRef.current!; const r = el.getBoundingClientRect();
-        const x = clientX - r.left, y = clientY - r.top;
-        for (let i = 0; i < rects.length; i++) {
-            const t = rects[i]!; if (x >= t.x && x <= t.x + t.w && y >= t.y && y <= t.y + t.h) return i;
-        } return null;
+        const el = canvasHostRef.current; if (!el) return null;
+        const r = el.getBoundingClientRect();
+        return hitBar(layout, clientX - r.left, clientY - r.top);
     };
 
+    const axis = theme.axisColor ?? "#888";
+    const column = hover != null ? layout.columns[hover] : undefined;
+    const right = column != null && column[0] > size.w / 2;
+
     return (
         <div
             ref={rootRef}
             style={{ position: "relative", width: width ? `${width}px` : "100%", height: height ? `${height}px` : "100%", fontFamily: theme.fontFamily }}
-            onMouseMove={e => { const i = hit(e.clientX, e.clientY); setHover(i); onHover?.(i) }}
-            onMouseLeave={() => { setHover(null); onHover?.(null) }}
+            onMouseMove={e => { const i = hit(e.clientX, e.clientY); if (i !== hover) { setHover(i); onHover?.(i) } }}
+            onMouseLeave={() => { if (hover !== null) { setHover(null); onHover?.(null) } }}
             onClick={e => { const i = hit(e.clientX, e.clientY); if (i != null) onClick?.(i) }}
         >
-            <canvas ref={canvasRef} style={{ width: "100%", height: "100%", display: "block" }} />
+            <div ref={canvasHostRef} style={{ width: "100%", height: "100%" }} />
             {/* SVG axes overlay */}
-            <svg width={size.w} height={size.h} style={{ position: "absolute", left: 0, top: 0, pointerEvents: "none" }}>
-                <line x1={P.left} y1={size.h - P.bottom} x2={size.w - P.right} y2={size.h - P.bottom} stroke={theme.axisColor ?? "#888"} />
-                <line x1={P.left} y1={P.top} x2={P.left} y2={size.h - P.bottom} stroke={theme.axisColor ?? "#888"} />
+            <svg width={size.w} height={size.h} style={{ position: "absolute", left: 0, top: 0, pointerEvents: "none" }} fontSize={10} fill={axis}>
+                <line x1={plot.left} y1={plot.bottom} x2={plot.right} y2={plot.bottom} stroke={axis} />
+                <line x1={plot.left} y1={plot.top} x2={plot.left} y2={plot.bottom} stroke={axis} />
+                {xTicks.map((t, k) => {
+                    const x = xToPx(t.value);
+                    return (
+                        <g key={`x${k}`} data-axis="x">
+                            <line x1={x} y1={plot.bottom} x2={x} y2={plot.bottom + 4} stroke={axis} />
+                            <text x={x} y={plot.bottom + 15} textAnchor="middle">{t.label}</text>
+                        </g>
+                    );
+                })}
+                {yTicks.map((t, k) => {
+                    const y = yToPx(t.value);
+                    return (
+                        <g key={`y${k}`} data-axis="y">
+                            <line x1={plot.left - 4} y1={y} x2={plot.left} y2={y} stroke={axis} />
+                            <text x={plot.left - 6} y={y + 3} textAnchor="end">{t.label}</text>
+                        </g>
+                    );
+                })}
+                {intervals?.map((ci, i) => {
+                    const r = layout.rects[i]; if (!ci || !r) return null;
+                    const cx = r.x + r.w / 2, cap = Math.min(4, r.w / 4), y0 = yToPx(ci[0]), y1 = yToPx(ci[1]);
+                    return (
+                        <g key={i} stroke={theme.errorBarColor ?? "#333"}>
+                            <line x1={cx} y1={y0} x2={cx} y2={y1} />
+                            <line x1={cx - cap} y1={y0} x2={cx + cap} y2={y0} />
+                            <line x1={cx - cap} y1={y1} x2={cx + cap} y2={y1} />
+                        </g>
+                    );
+                })}
             </svg>
-            {hover != null && bins[hover] && rects[hover] && (
-                <div style={{
+            {hover != null && bins[hover] && column && (
+                <div role="tooltip" style={{
                     position: "absolute",
-                    left: rects[hover]!.x + 6, top: rects[hover]!.y - 28,
+                    ...(right ? { right: size.w - column[1] + 6 } : { left: column[0] + 6 }),
+                    top: Math.max(0, tooltipTop(rects, hover, groups ? bins.length : 0) - 28),
                     background: theme.tooltipBackground ?? "rgba(0,0,0,0.75)",
-                    color: theme.tooltipText ?? "#fff", padding: "4px 6px", borderRadius: 4, pointerEvents: "none", fontSize: 11
+                    color: theme.tooltipText ?? "#fff", padding: "4px 6px", borderRadius: 4, pointerEvents: "none", fontSize: 11, whiteSpace: "nowrap"
                 }}>
-                    {`${fmt(bins[hover].start)}–${fmt(bins[hover].end)} | ${measure}: ${fmt(yVal(bins[hover]))}`}
+                    {groups
+                        ? [binLabel(bins[hover]), ...groups.map((g, k) => `${g.key}: ${fmt(groupValues[k]![hover] ?? 0)}`)].map((line, k) => <div key={k}>{line}</div>)
+                        : `${binLabel(bins[hover])} | ${measure}: ${fmt(values[hover]!)}${intervals?.[hover] ? ` [${fmt(intervals[hover]![0])}, ${fmt(intervals[hover]![1])}]` : ""}`}
                 </div>
             )}
         </div>
     );
 }
 
-function barFill(theme: { barFill?: string | ((i: number) => string) }, i: number) {
-    const base = theme.barFill ?? "#4a90e2"; return typeof base === "function" ? base(i) : base;
+/** Top of the hovered bar, or of the highest group segment in bin `bin` when `binCount` is set. */
+function tooltipTop(rects: Rect[], bin: number, binCount: number) {
+    if (!binCount) return rects[bin]?.y ?? 0;
+    let top = Infinity;
+    for (const r of rects) if (groupRectSlot(r.i, binCount).bin === bin) top = Math.min(top, r.y);
+    return Number.isFinite(top) ? top : 0;
+}
+/** Category bins (see `computeCategoricalHistogram`) are labelled by key, time bins by their labels, numeric bins by range. */
+function binLabel(b: HistogramBin & { key?: string }) {
+    return b.key ?? (b.labels ? `${b.labels.start}–${b.labels.end}` : `${fmt(b.start)}–${fmt(b.end)}`);
 }
-function fmt(v: number) { if (!isFinite(v)) return "∞"; const s = Math.abs(v) >= 1e4 || (Math.abs(v) > 0 && Math.abs(v) < 1e-3) ? v.toExponential(2) : v.toFixed(2); return s.replace(/\.00$/, "").replace(/(\.\d)0$/, "$1") }
+function fmt(v: number) { if (!isFinite(v)) return v < 0 ? "−∞" : "∞"; const s = Math.abs(v) >= 1e4 || (Math.abs(v) > 0 && Math.abs(v) < 1e-3) ? v.toExponential(2) : v.toFixed(2); return s.replace(/\.00$/, "").replace(/(\.\d)0$/, "$1") }
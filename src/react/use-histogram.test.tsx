@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+// src/react/use-histogram.test.tsx
+import * as React from "react";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useHistogram, type UseHistogramConfig } from "./use-histogram.js";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe("useHistogram", () => {
+    let host: HTMLDivElement, root: Root;
+    const seen: number[] = [];
+
+    function Probe({ config }: { config: UseHistogramConfig<number> }) {
+        const { stats } = useHistogram(config);
+        seen.push(stats.n);
+        return null;
+    }
+
+    beforeEach(() => {
+        host = document.createElement("div");
+        root = createRoot(host);
+        seen.length = 0;
+    });
+
+    afterEach(() => {
+        act(() => root.unmount());
+        vi.restoreAllMocks();
+    });
+
+    it("tracks data by reference without serializing it", () => {
+        const data = new Float64Array(1000).map((_, i) => i % 97);
+        const stringify = vi.spyOn(JSON, "stringify");
+
+        act(() => root.render(<Probe config={{ data, binning: { mode: "binCount", binCount: 10 } }} />));
+        act(() => root.render(<Probe config={{ data, binning: { mode: "binCount", binCount: 10 } }} />));
+        expect(stringify.mock.calls.some(([value]) => value === data || (value as { data?: unknown })?.data === data)).toBe(false);
+        expect(seen.at(-1)).toBe(1000);
+
+        act(() => root.render(<Probe config={{ data: data.subarray(0, 10), binning: { mode: "binCount", binCount: 10 } }} />));
+        expect(seen.at(-1)).toBe(10);
+    });
+
+    it("recomputes when the options or the data length change", () => {
+        const data = [1, 2, 3];
+        act(() => root.render(<Probe config={{ data }} />));
+        data.push(4);
+        act(() => root.render(<Probe config={{ data }} />));
+        expect(seen.at(-1)).toBe(4);
+
+        const renders = seen.length;
+        act(() => root.render(<Probe config={{ data }} />));
+        expect(seen.length - renders).toBe(1);
+    });
+});
@@ -2,7 +2,9 @@
   
 import * as React from "react";
 import { computeHistogram } from "../core/engine.js";
-import type { HistogramLogicConfig, HistogramResult } from "../core/types.js";
+import { emptyResult, isColumns } from "../core/engine.helpers.js";
+import type { HistogramData, HistogramLogicConfig, HistogramResult } from "../core/types.js";
+import { computeHistogramAsync, type HistogramWorker } from "../worker/client.js";
 
 /**
  * JSON.stringify replacer ensuring stable-ish serialization of dynamic values.
@@ -23,6 +25,22 @@ export function replacer(_k: string, v: unknown) {
   return v as unknown;
 }
 
+/** Identity of each `data` reference seen by a signature; weak, so data can be collected. */
+const dataIds = new WeakMap<object, number>();
+let nextDataId = 0;
+
+/**
+ * Signature of a `data` input from its reference and length, in O(1): elements are never read, so a
+ * multi-million-point array or typed array costs nothing to track. Mutating the data in place without
+ * changing its length is therefore not detected; pass a new reference or call `recompute`.
+ */
+function dataSignature(data: HistogramData<unknown>) {
+  let id = dataIds.get(data);
+  if (id === undefined) { id = nextDataId++; dataIds.set(data, id); }
+  const length = isColumns(data) ? data.values.length : data.length;
+  return `${id}:${length}`;
+}
+
 /**
  * Internal histogram datum shape used as a generic default.
  */
@@ -32,6 +50,29 @@ interface HistogramInterface {
   count: number;
 }
 
+/**
+ * - `"idle"`: the result matches the current config.
+ * - `"computing"`: the first result is being computed (bins are empty).
+ * - `"stale"`: a newer result is being computed; the previous one is still shown.
+ */
+export type HistogramStatus = "idle" | "computing" | "stale";
+
+export interface UseHistogramConfig<T> extends HistogramLogicConfig<T> {
+  /**
+   * Compute off the render path. `true` defers to a macrotask on the main thread;
+   * `{ worker }` runs on a worker created with `createHistogramWorker`.
+   * Superseded computations are aborted.
+   */
+  async?: boolean | { worker?: HistogramWorker };
+}
+
+export type UseHistogramResult<T> = HistogramResult<T> & {
+  recompute: () => void;
+  status: HistogramStatus;
+  /** Last async failure, cleared by the next successful result. */
+  error: unknown;
+};
+
 /**
  * React hook for computing and managing histogram state.
  *
@@ -39,63 +80,110 @@ interface HistogramInterface {
  * - Lazily computes an initial histogram from the provided configuration.
  * - Recomputes automatically when the configuration's stable signature changes.
  * - Exposes a `recompute` callback for imperative recomputation.
+ * - With `async`, computes off the render path, keeps the previous bins while a new result is
+ *   computed, and reports progress through `status`.
  *
- * The configuration is tracked via a stable JSON signature derived with the custom `replacer`
- * to avoid noise from non-serializable values (e.g., web workers) and to stabilize function references.
+ * The configuration is tracked via a signature: `data` by reference and length, the other options as
+ * JSON derived with the custom `replacer` to avoid noise from non-serializable values (e.g., web workers)
+ * and to stabilize function references.
  *
  * Thread-safety: React hooks execute on the main thread. Ensure your configuration is immutable or
  * treated as read-only to prevent race conditions or inconsistent state.
  *
- * Performance note: `JSON.stringify` is O(n) relative to the config size. If your configuration is
- * very large, consider passing memoized sub-configs or stabilizing references at call sites.
+ * Performance note: the data is never serialized, so a new config object over the same data costs
+ * only the stringification of its options. Replace `data` (or call `recompute`) after mutating it
+ * without changing its length.
  *
  * @typeParam T - The histogram datum type.
  * @param config - Histogram configuration object.
- * @returns The computed histogram result augmented with a `recompute` function.
+ * @returns The computed histogram result augmented with `recompute`, `status` and `error`.
  *
  * @example
- * const { bins, min, max, recompute } = useHistogram({
+ * const { bins, stats, status, recompute } = useHistogram({
  *   data,
- *   valueAccessor: d => d.value,
- *   bucketCount: 20,
+ *   x: d => d.value,
+ *   binning: { mode: "binCount", binCount: 20 },
+ *   async: { worker },
  * });
  * // Trigger recompute manually:
  * recompute();
  */
 export function useHistogram<T = HistogramInterface>(
-  config: Readonly<HistogramLogicConfig<T>>
-): HistogramResult<T> & { recompute: () => void } {
+  config: Readonly<UseHistogramConfig<T>>
+): UseHistogramResult<T> {
   // Hold the latest config without causing re-renders.
   const cfgRef = React.useRef(config);
+  const isAsync = !!config.async;
 
-  // Compute initial state lazily.
-  const [state, setState] = React.useState<HistogramResult<T>>(() => computeHistogram(cfgRef.current));
+  // Compute initial state lazily; async mode starts empty and fills in from the effect below.
+  const [state, setState] = React.useState<HistogramResult<T>>(
+    () => isAsync ? { ...emptyResult<T>(), warnings: [], diagnostics: [] } : computeHistogram(cfgRef.current)
+  );
+  const [status, setStatus] = React.useState<HistogramStatus>(isAsync ? "computing" : "idle");
+  const [error, setError] = React.useState<unknown>(null);
+  const hasResultRef = React.useRef(!isAsync);
+  const controllerRef = React.useRef<AbortController | null>(null);
 
-  // Derive a stable signature for the config to detect deep-ish changes.
+  // Derive a stable signature for the config to detect deep-ish changes; data is keyed by reference.
   const configSignature = React.useMemo(() => {
+    const { data, ...options } = config;
     try {
-      return JSON.stringify(config, replacer);
+      return `${dataSignature(data)}|${JSON.stringify(options, replacer)}`;
     } catch {
       // Fall back to a changing token to avoid silent failure; forces recompute if serialization fails.
       return `!unserializable:${Date.now()}`;
     }
   }, [config]);
 
+  const run = React.useCallback(() => {
+    const cfg = cfgRef.current;
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+
+    if (!cfg.async) {
+      setState(computeHistogram(cfg));
+      setStatus("idle");
+      hasResultRef.current = true;
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStatus(hasResultRef.current ? "stale" : "computing");
+
+    const worker = typeof cfg.async === "object" ? cfg.async.worker : undefined;
+    computeHistogramAsync(cfg, worker ? { signal: controller.signal, worker } : { signal: controller.signal }).then(
+      result => {
+        if (controller.signal.aborted) return;
+        hasResultRef.current = true;
+        setState(result);
+        setStatus("idle");
+        setError(null);
+      },
+      err => {
+        if (controller.signal.aborted) return;
+        setStatus("idle");
+        setError(err);
+      }
+    );
+  }, []);
+
   // Recompute whenever the stable signature changes.
   React.useEffect(() => {
     if (cfgRef.current !== config) {
       cfgRef.current = config;
     }
-    setState(computeHistogram(cfgRef.current));
+    run();
   }, [configSignature]);
 
+  // Abort in-flight work on unmount.
+  React.useEffect(() => () => controllerRef.current?.abort(), []);
+
   // Expose a stable recompute callback for imperative updates.
-  const recompute = React.useCallback(() => {
-    setState(computeHistogram(cfgRef.current));
-  }, []);
+  const recompute = React.useCallback(() => run(), [run]);
 
   // Surface current histogram result in React DevTools.
   React.useDebugValue(state);
 
-  return { ...state, recompute };
+  return { ...state, recompute, status, error };
 }
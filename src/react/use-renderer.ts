@@ -0,0 +1,49 @@
+// src/react/use-renderer.ts
+
+import * as React from "react";
+import type { Rect, Renderer, RendererConfig } from "../render/driver.js";
+import { createRenderer } from "../render/select.js";
+
+/**
+ * Mounts a canvas filling `hostRef` and drives it with `createRenderer`, recreated when `prefer` or
+ * `require` change. The canvas is created here rather than rendered by React because the renderer
+ * replaces it when a lost WebGL context falls back to Canvas2D.
+ *
+ * A `RendererUnavailableError` is rethrown during render, so the nearest error boundary receives it.
+ */
+export function useRenderer(hostRef: React.RefObject<HTMLDivElement | null>, config: RendererConfig): Renderer | null {
+    const [renderer, setRenderer] = React.useState<Renderer | null>(null);
+    const [error, setError] = React.useState<unknown>(null);
+    const onDriverChange = React.useRef(config.onDriverChange);
+    onDriverChange.current = config.onDriverChange;
+
+    React.useEffect(() => {
+        const host = hostRef.current; if (!host) return;
+        const canvas = host.ownerDocument.createElement("canvas");
+        canvas.style.cssText = "width:100%;height:100%;display:block";
+        host.appendChild(canvas);
+
+        let r: Renderer;
+        try {
+            r = createRenderer(canvas, { ...config, onDriverChange: kind => onDriverChange.current?.(kind) });
+        } catch (e) {
+            canvas.remove(); setError(e); return;
+        }
+        setRenderer(r);
+        return () => { r.destroy(); r.canvas.remove(); setRenderer(null); };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [config.prefer, config.require]);
+
+    if (error) throw error;
+    return renderer;
+}
+
+/** Backing-store pixels per CSS pixel (1 outside the browser). */
+export function pixelRatio() {
+    return typeof window !== "undefined" && window.devicePixelRatio > 0 ? window.devicePixelRatio : 1;
+}
+
+/** `rects` laid out in CSS pixels, scaled by `k` to the canvas backing store. */
+export function scaleRects(rects: ReadonlyArray<Rect>, k: number): Rect[] {
+    return rects.map(r => ({ i: r.i, x: r.x * k, y: r.y * k, w: r.w * k, h: r.h * k }));
+}
@@ -6,7 +6,10 @@ export function createCanvas2DDriver(): Driver {
 
     return {
         kind: "canvas2d",
-        init(cv: HTMLCanvasElement): void { canvas = cv },
+        init(cv: HTMLCanvasElement): void {
+            if (!cv.getContext("2d")) throw new Error("Canvas2D not available");
+            canvas = cv;
+        },
         render(items: Rect[], color: (i: number) => string): void {
             const ctx = canvas!.getContext("2d")!;
             ctx.clearRect(0, 0, canvas!.width, canvas!.height);
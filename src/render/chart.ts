@@ -0,0 +1,99 @@
+// src/render/chart.ts
+import type { HistogramBin, HistogramMeasure } from "../core/types.js";
+import type { Rect } from "./driver.js";
+import { groupColor, groupedMax, groupRectSlot, layoutGroupedBars } from "./groups.js";
+import type { GroupLayout } from "./groups.js";
+import { layoutBars } from "./layout.js";
+import type { BarLayout } from "./layout.js";
+import { niceUpper, xAxisTicks, yAxisTicks } from "./ticks.js";
+import type { AxisTick } from "./ticks.js";
+
+/** Drawing options shared by `HistogramView` and `renderHistogramToSVG`. */
+export interface ChartTheme {
+    barFill?: string | ((i: number) => string);
+    axisColor?: string;
+    fontFamily?: string;
+    groupFill?: string[] | ((g: number) => string);
+    errorBarColor?: string;
+}
+
+export interface ChartOptions {
+    width: number;
+    height: number;
+    measure?: HistogramMeasure;
+    /** Per-group bins sharing the edges of `bins`; drawn instead of the overall bars. */
+    groups?: ReadonlyArray<{ key: string; bins: ReadonlyArray<HistogramBin<unknown>> }> | undefined;
+    groupLayout?: GroupLayout;
+    /** Intervals from `bin.uncertainty` (count, percent and density measures; ungrouped only). */
+    errorBars?: boolean;
+    padding?: { left: number; right: number; top: number; bottom: number };
+    barPadding?: number;
+    /** Approximate number of ticks on each axis (defaults 6 and 5). */
+    axisXTicks?: number;
+    axisYTicks?: number;
+}
+
+export interface Chart {
+    layout: BarLayout;
+    /** Bars to draw: `layout.rects`, or one per (group, bin) when grouped (see `groupRectSlot`). */
+    rects: Rect[];
+    /** Measure value per bin, and per group and bin. */
+    values: number[];
+    groupValues: number[][];
+    /** Confidence interval per bin when error bars apply, otherwise null. */
+    intervals: Array<[number, number] | null> | null;
+    xTicks: AxisTick[];
+    yTicks: AxisTick[];
+}
+
+export const CHART_PADDING = { left: 48, right: 16, top: 12, bottom: 32 };
+
+/** Value of `measure` for a bin; cumulative measures fall back to the bin's own value when absent. */
+export function measureValue(b: HistogramBin<unknown>, measure: HistogramMeasure) {
+    switch (measure) {
+        case "count": return b.count;
+        case "percent": return b.percent;
+        case "density": return b.density;
+        case "cumulative-count": return b.cumulativeCount ?? b.count;
+        case "cumulative-percent": return b.cumulativePercent ?? b.percent;
+        default: return b.cumulativeDensity ?? b.density;
+    }
+}
+
+/**
+ * Lays out a histogram chart: bar values, the y axis rounded up to a tick, bars (grouped ones take
+ * their x extent from the overall bars) and axis ticks. Pure, so it runs the same on a server.
+ */
+export function layoutChart(bins: ReadonlyArray<HistogramBin<unknown>>, options: ChartOptions): Chart {
+    const {
+        width, height, measure = "count", groups, groupLayout = "stacked", errorBars = false,
+        padding = CHART_PADDING, barPadding = 0.1, axisXTicks = 6, axisYTicks = 5
+    } = options;
+
+    const values = bins.map(b => measureValue(b, measure));
+    const groupValues = groups?.map(g => g.bins.map(b => measureValue(b, measure))) ?? [];
+    const intervals = errorBars && !groups && (measure === "count" || measure === "percent" || measure === "density")
+        ? bins.map(b => b.uncertainty?.[measure] ?? null) : null;
+    const yMax = niceUpper(Math.max(
+        groups ? groupedMax(groupValues, groupLayout) : values.reduce((m, v) => Math.max(m, v), 0),
+        intervals ? intervals.reduce((m, ci) => Math.max(m, ci?.[1] ?? 0), 0) : 0
+    ), axisYTicks);
+
+    const layout = layoutBars(bins, values, { width, height, padding, barPadding, yMax });
+    return {
+        layout,
+        rects: groups ? layoutGroupedBars(layout.rects, groupValues, groupLayout, layout.yToPx) : layout.rects,
+        values,
+        groupValues,
+        intervals,
+        xTicks: xAxisTicks(bins, axisXTicks),
+        yTicks: yAxisTicks(yMax, axisYTicks),
+    };
+}
+
+/** Fill for `Rect.i`: `theme.barFill` per bin, or the group colour when `binCount` bins are grouped. */
+export function chartFill(theme: ChartTheme, groupLayout: GroupLayout | null, binCount: number): (i: number) => string {
+    if (groupLayout) return i => groupColor(groupRectSlot(i, binCount).group, groupLayout, theme.groupFill);
+    const base = theme.barFill ?? "#4a90e2";
+    return typeof base === "function" ? base : () => base;
+}
@@ -0,0 +1,27 @@
+// src/render/color.test.ts
+import { describe, expect, it } from "vitest";
+import { createColorScale, parseColor } from "./color.js";
+
+describe("parseColor", () => {
+    it("parses hex, rgb() and named colours", () => {
+        expect(parseColor("#f00")).toEqual([1, 0, 0, 1]);
+        expect(parseColor("#00ff0080")).toEqual([0, 1, 0, 128 / 255]);
+        expect(parseColor("rgba(0, 0, 255, 0.5)")).toEqual([0, 0, 1, 0.5]);
+        expect(parseColor("rgb(100% 0% 0% / 50%)")).toEqual([expect.closeTo(1), 0, 0, 0.5]);
+        expect(parseColor(" SteelBlue ")).toEqual([0x46 / 255, 0x82 / 255, 0xb4 / 255, 1]);
+        expect(parseColor("transparent")).toEqual([0, 0, 0, 0]);
+    });
+
+    it("rejects anything else", () => {
+        for (const css of ["", "#12", "#ggg", "notacolor", "hsl(0, 100%, 50%)", "rgb(1, 2)"]) expect(parseColor(css)).toBeNull();
+    });
+});
+
+describe("createColorScale", () => {
+    it("interpolates between stops and clamps outside the domain", () => {
+        const scale = createColorScale([0, 10], ["#000000", "#ffffff"]);
+        expect(parseColor(scale(5))?.slice(0, 3).map(c => Math.round(c * 255))).toEqual([128, 128, 128]);
+        expect(scale(-5)).toBe(scale(0));
+        expect(scale(50)).toBe(scale(10));
+    });
+});
@@ -0,0 +1,93 @@
+// src/render/color.ts
+
+export type RGBA = [number, number, number, number];
+
+/** CSS named colours as `name:rrggbb` pairs; expanded on first use. */
+const NAMED =
+    "aliceblue:f0f8ff,antiquewhite:faebd7,aqua:00ffff,aquamarine:7fffd4,azure:f0ffff,beige:f5f5dc,bisque:ffe4c4,black:000000," +
+    "blanchedalmond:ffebcd,blue:0000ff,blueviolet:8a2be2,brown:a52a2a,burlywood:deb887,cadetblue:5f9ea0,chartreuse:7fff00," +
+    "chocolate:d2691e,coral:ff7f50,cornflowerblue:6495ed,cornsilk:fff8dc,crimson:dc143c,cyan:00ffff,darkblue:00008b," +
+    "darkcyan:008b8b,darkgoldenrod:b8860b,darkgray:a9a9a9,darkgreen:006400,darkgrey:a9a9a9,darkkhaki:bdb76b,darkmagenta:8b008b," +
+    "darkolivegreen:556b2f,darkorange:ff8c00,darkorchid:9932cc,darkred:8b0000,darksalmon:e9967a,darkseagreen:8fbc8f," +
+    "darkslateblue:483d8b,darkslategray:2f4f4f,darkslategrey:2f4f4f,darkturquoise:00ced1,darkviolet:9400d3,deeppink:ff1493," +
+    "deepskyblue:00bfff,dimgray:696969,dimgrey:696969,dodgerblue:1e90ff,firebrick:b22222,floralwhite:fffaf0,forestgreen:228b22," +
+    "fuchsia:ff00ff,gainsboro:dcdcdc,ghostwhite:f8f8ff,gold:ffd700,goldenrod:daa520,gray:808080,green:008000,greenyellow:adff2f," +
+    "grey:808080,honeydew:f0fff0,hotpink:ff69b4,indianred:cd5c5c,indigo:4b0082,ivory:fffff0,khaki:f0e68c,lavender:e6e6fa," +
+    "lavenderblush:fff0f5,lawngreen:7cfc00,lemonchiffon:fffacd,lightblue:add8e6,lightcoral:f08080,lightcyan:e0ffff," +
+    "lightgoldenrodyellow:fafad2,lightgray:d3d3d3,lightgreen:90ee90,lightgrey:d3d3d3,lightpink:ffb6c1,lightsalmon:ffa07a," +
+    "lightseagreen:20b2aa,lightskyblue:87cefa,lightslategray:778899,lightslategrey:778899,lightsteelblue:b0c4de," +
+    "lightyellow:ffffe0,lime:00ff00,limegreen:32cd32,linen:faf0e6,magenta:ff00ff,maroon:800000,mediumaquamarine:66cdaa," +
+    "mediumblue:0000cd,mediumorchid:ba55d3,mediumpurple:9370db,mediumseagreen:3cb371,mediumslateblue:7b68ee," +
+    "mediumspringgreen:00fa9a,mediumturquoise:48d1cc,mediumvioletred:c71585,midnightblue:191970,mintcream:f5fffa," +
+    "mistyrose:ffe4e1,moccasin:ffe4b5,navajowhite:ffdead,navy:000080,oldlace:fdf5e6,olive:808000,olivedrab:6b8e23," +
+    "orange:ffa500,orangered:ff4500,orchid:da70d6,palegoldenrod:eee8aa,palegreen:98fb98,paleturquoise:afeeee," +
+    "palevioletred:db7093,papayawhip:ffefd5,peachpuff:ffdab9,peru:cd853f,pink:ffc0cb,plum:dda0dd,powderblue:b0e0e6," +
+    "purple:800080,rebeccapurple:663399,red:ff0000,rosybrown:bc8f8f,royalblue:4169e1,saddlebrown:8b4513,salmon:fa8072," +
+    "sandybrown:f4a460,seagreen:2e8b57,seashell:fff5ee,sienna:a0522d,silver:c0c0c0,skyblue:87ceeb,slateblue:6a5acd," +
+    "slategray:708090,slategrey:708090,snow:fffafa,springgreen:00ff7f,steelblue:4682b4,tan:d2b48c,teal:008080,thistle:d8bfd8," +
+    "tomato:ff6347,turquoise:40e0d0,violet:ee82ee,wheat:f5deb3,white:ffffff,whitesmoke:f5f5f5,yellow:ffff00,yellowgreen:9acd32";
+
+let named: Map<string, string> | null = null;
+
+/**
+ * Parses `#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`, `rgb()`/`rgba()` and CSS named colours (plus
+ * `transparent`) into 0..1 channels. Returns `null` for anything else.
+ */
+export function parseColor(css: string): RGBA | null {
+    let s = css.trim();
+    if (/^[a-z]+$/i.test(s)) {
+        const name = s.toLowerCase();
+        if (name === "transparent") return [0, 0, 0, 0];
+        named ??= new Map(NAMED.split(",").map(pair => pair.split(":") as [string, string]));
+        const hex = named.get(name);
+        if (!hex) return null;
+        s = `#${hex}`;
+    }
+    if (s.startsWith("#")) {
+        const h = s.slice(1);
+        if (!/^[0-9a-f]+$/i.test(h)) return null;
+        if (h.length === 3 || h.length === 4) {
+            const c = (i: number) => parseInt(h[i]! + h[i]!, 16) / 255;
+            return [c(0), c(1), c(2), h.length === 4 ? c(3) : 1];
+        }
+        if (h.length === 6 || h.length === 8) {
+            const c = (i: number) => parseInt(h.slice(i, i + 2), 16) / 255;
+            return [c(0), c(2), c(4), h.length === 8 ? c(6) : 1];
+        }
+        return null;
+    }
+
+    const m = s.match(/^rgba?\(([^)]+)\)$/i);
+    if (!m || !m[1]) return null;
+    const parts = m[1].split(/[\s,/]+/).filter(Boolean).map(p => p.endsWith("%") ? parseFloat(p) * 2.55 : parseFloat(p));
+    if (parts.length < 3 || parts.slice(0, 3).some(v => !Number.isFinite(v))) return null;
+    const alphaRaw = m[1].split(/[\s,/]+/).filter(Boolean)[3];
+    const a = alphaRaw == null ? 1 : alphaRaw.endsWith("%") ? parseFloat(alphaRaw) / 100 : parseFloat(alphaRaw);
+
+    return [parts[0]! / 255, parts[1]! / 255, parts[2]! / 255, Number.isFinite(a) ? a : 1];
+}
+
+/** Default sequential ramp (light to dark blue). */
+export const DEFAULT_RAMP = ["#f7fbff", "#c6dbef", "#6baed6", "#2171b5", "#08306b"];
+
+/**
+ * Creates a linear colour scale over `domain` interpolating between evenly spaced `stops`.
+ * Values outside the domain are clamped; the result is an `rgba()` string.
+ */
+export function createColorScale(domain: [number, number], stops: ReadonlyArray<string> = DEFAULT_RAMP): (v: number) => string {
+    const rgba = stops.map(s => parseColor(s) ?? [0, 0, 0, 1] as RGBA);
+    const [d0, d1] = domain;
+    const span = d1 - d0;
+
+    return (v: number) => {
+        if (rgba.length === 0) return "rgba(0,0,0,0)";
+        const t = span > 0 && Number.isFinite(v) ? Math.min(1, Math.max(0, (v - d0) / span)) : 0;
+        const pos = t * (rgba.length - 1);
+        const i = Math.min(rgba.length - 2, Math.floor(pos));
+        const a = rgba[Math.max(0, i)]!, b = rgba[Math.max(0, i + 1)] ?? a;
+        const f = rgba.length === 1 ? 0 : pos - Math.max(0, i);
+        const ch = (k: number) => a[k]! + (b[k]! - a[k]!) * f;
+
+        return `rgba(${Math.round(ch(0) * 255)},${Math.round(ch(1) * 255)},${Math.round(ch(2) * 255)},${+ch(3).toFixed(3)})`;
+    };
+}
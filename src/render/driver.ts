@@ -8,9 +8,22 @@ export interface RendererConfig {
 
 export interface Rect { x: number; y: number; w: number; h: number; i: number }
 
-export interface Driver {
-    kind: RenderDriver;
-    init(canvas: HTMLCanvasElement): Promise<void> | void;
+/** Draws rects on a `Target`; canvas drivers by default, `SVGDriver` on an SVG element. */
+export interface Driver<Target = HTMLCanvasElement, Kind extends string = RenderDriver> {
+    kind: Kind;
+    init(target: Target): Promise<void> | void;
     render(rects: Rect[], color: (i: number) => string): void;
     destroy(): void;
 }
+
+/** A canvas drawn by the driver `createRenderer` chose; it outlives driver switches. */
+export interface Renderer {
+    /** Driver in use. */
+    readonly kind: RenderDriver;
+    /** Canvas being drawn; replaced by a fresh element when a lost WebGL context falls back to Canvas2D. */
+    readonly canvas: HTMLCanvasElement;
+    /** Draws a frame; it is kept and redrawn after a driver switch or context restore. */
+    render(rects: Rect[], color: (i: number) => string): void;
+    /** Releases the driver; later `render` calls are ignored. */
+    destroy(): void;
+}
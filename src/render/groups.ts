@@ -0,0 +1,80 @@
+// src/render/groups.ts
+import { parseColor } from "./color.js";
+import type { Rect } from "./driver.js";
+
+export type GroupLayout = "stacked" | "overlay" | "dodge";
+
+/** Default categorical palette for groups. */
+export const GROUP_PALETTE = ["#4a90e2", "#f5a623", "#7ed321", "#d0021b", "#9013fe", "#50e3c2", "#8b572a", "#b8e986"];
+
+/**
+ * Splits per-bin rects (which give each bin's x and width) into one rect per group and bin.
+ *
+ * - stacked: groups are stacked bottom-up in group order.
+ * - overlay: every group spans the full bin from the baseline; later groups draw on top.
+ * - dodge: the bin is divided into side-by-side columns, one per group.
+ *
+ * `values[g][b]` is group g's measure in bin b; `yToPx` maps a measure value to pixels.
+ * The returned `Rect.i` encodes the pair as `g * binCount + b` (see `groupRectSlot`).
+ */
+export function layoutGroupedBars(
+    base: ReadonlyArray<Rect>,
+    values: ReadonlyArray<ReadonlyArray<number>>,
+    layout: GroupLayout,
+    yToPx: (v: number) => number
+): Rect[] {
+    const n = base.length, g = values.length;
+    const rects: Rect[] = [];
+    const y0 = yToPx(0);
+
+    for (let b = 0; b < n; b++) {
+        const r = base[b]!;
+        let acc = 0;
+        for (let k = 0; k < g; k++) {
+            const v = values[k]![b] ?? 0;
+            const i = k * n + b;
+            if (layout === "stacked") {
+                const top = yToPx(acc + v), bottom = yToPx(acc);
+                rects.push({ i, x: r.x, y: Math.min(top, bottom), w: r.w, h: Math.abs(bottom - top) });
+                acc += v;
+            } else if (layout === "dodge") {
+                const w = r.w / g, top = yToPx(v);
+                rects.push({ i, x: r.x + k * w, y: Math.min(top, y0), w, h: Math.abs(y0 - top) });
+            } else {
+                const top = yToPx(v);
+                rects.push({ i, x: r.x, y: Math.min(top, y0), w: r.w, h: Math.abs(y0 - top) });
+            }
+        }
+    }
+
+    return rects;
+}
+
+/** Decodes `Rect.i` from `layoutGroupedBars`. */
+export function groupRectSlot(i: number, binCount: number) {
+    return { group: Math.floor(i / binCount), bin: i % binCount };
+}
+
+/** Largest value the y axis must show: per-bin sums when stacked, otherwise the largest single value. */
+export function groupedMax(values: ReadonlyArray<ReadonlyArray<number>>, layout: GroupLayout) {
+    let max = 0;
+    const n = values.reduce((m, v) => Math.max(m, v.length), 0);
+    for (let b = 0; b < n; b++) {
+        let sum = 0;
+        for (const v of values) {
+            const x = v[b] ?? 0;
+            sum += x;
+            if (layout !== "stacked" && x > max) max = x;
+        }
+        if (layout === "stacked" && sum > max) max = sum;
+    }
+    return max;
+}
+
+/** Colour for group `g`; overlaid groups are made semi-transparent so the ones below stay visible. */
+export function groupColor(g: number, layout: GroupLayout, palette: ReadonlyArray<string> | ((g: number) => string) = GROUP_PALETTE) {
+    const base = typeof palette === "function" ? palette(g) : palette[g % palette.length] ?? "#4a90e2";
+    if (layout !== "overlay") return base;
+    const rgba = parseColor(base);
+    return rgba ? `rgba(${Math.round(rgba[0] * 255)},${Math.round(rgba[1] * 255)},${Math.round(rgba[2] * 255)},${+(rgba[3] * 0.5).toFixed(3)})` : base;
+}
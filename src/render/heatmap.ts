@@ -0,0 +1,69 @@
+// src/render/heatmap.ts
+import type { Histogram2DResult, HistogramCell } from "../core/types.js";
+import { createColorScale } from "./color.js";
+import type { Rect } from "./driver.js";
+import { binExtents, extentsDomain } from "./layout.js";
+
+export type HeatmapMeasure = "count" | "percent" | "density";
+
+export interface HeatmapLayoutOptions {
+    width: number;
+    height: number;
+    padding?: { left: number; right: number; top: number; bottom: number };
+    /** Gap in pixels between neighbouring cells. */
+    gap?: number;
+}
+
+export interface HeatmapLayout {
+    /** One rect per cell; `Rect.i` is the cell index. Row 0 is drawn at the bottom. */
+    rects: Rect[];
+    xDomain: [number, number];
+    yDomain: [number, number];
+    xToPx: (x: number) => number;
+    yToPx: (y: number) => number;
+}
+
+/**
+ * Lays out the cells of a 2D histogram in pixel space. Under/overflow rows and columns are drawn
+ * as bands next to the finite domain.
+ */
+export function layoutHeatmap(result: Histogram2DResult<unknown>, options: HeatmapLayoutOptions): HeatmapLayout {
+    const { width, height, padding = { left: 48, right: 16, top: 12, bottom: 32 }, gap = 0 } = options;
+    const xe = binExtents(result.x.bins);
+    const ye = binExtents(result.y.bins);
+    const xDomain = extentsDomain(xe);
+    const yDomain = extentsDomain(ye);
+
+    const innerW = Math.max(1, width - padding.left - padding.right);
+    const innerH = Math.max(1, height - padding.top - padding.bottom);
+    const xToPx = (x: number) => padding.left + ((x - xDomain[0]) / (xDomain[1] - xDomain[0])) * innerW;
+    const yToPx = (y: number) => padding.top + (1 - (y - yDomain[0]) / (yDomain[1] - yDomain[0])) * innerH;
+
+    const rects = result.cells.map(c => {
+        const [x0, x1] = xe[c.ix]!, [y0, y1] = ye[c.iy]!;
+        const left = xToPx(x0), right = xToPx(x1), top = yToPx(y1), bottom = yToPx(y0);
+        return {
+            i: c.index,
+            x: left + gap / 2,
+            y: top + gap / 2,
+            w: Math.max(0, right - left - gap),
+            h: Math.max(0, bottom - top - gap),
+        };
+    });
+
+    return { rects, xDomain, yDomain, xToPx, yToPx };
+}
+
+/**
+ * Returns a fill colour per cell (indexed like `result.cells`), scaling `measure` linearly from 0 to its maximum.
+ */
+export function heatmapColors(
+    result: Histogram2DResult<unknown>,
+    options: { measure?: HeatmapMeasure; stops?: ReadonlyArray<string> } = {}
+): string[] {
+    const { measure = "count", stops } = options;
+    const value = (c: HistogramCell) => c[measure];
+    const max = result.cells.reduce((m, c) => Math.max(m, value(c)), 0);
+    const scale = createColorScale([0, max || 1], stops);
+    return result.cells.map(c => scale(value(c)));
+}
@@ -0,0 +1,102 @@
+// src/render/layout.ts
+import type { HistogramBin } from "../core/types.js";
+import type { Rect } from "./driver.js";
+
+/**
+ * Finite value-space extent of each bin, for mapping bins to pixels.
+ *
+ * Under/overflow bins (and bins with an infinite explicit edge) are drawn with their reported `width`
+ * when finite, otherwise with the median finite width, next to their finite edge.
+ */
+export function binExtents(bins: ReadonlyArray<Pick<HistogramBin, "start" | "end" | "width">>): Array<[number, number]> {
+    const finiteWidths = bins.filter(b => isFinite(b.start) && isFinite(b.end)).map(b => b.end - b.start).sort((a, b) => a - b);
+    const fallback = finiteWidths.length ? finiteWidths[finiteWidths.length >> 1]! : 1;
+
+    return bins.map(b => {
+        const w = isFinite(b.width) && b.width > 0 ? b.width : fallback;
+        if (isFinite(b.start) && isFinite(b.end)) return [b.start, b.end];
+        if (isFinite(b.start)) return [b.start, b.start + w];
+        if (isFinite(b.end)) return [b.end - w, b.end];
+        return [0, w];
+    });
+}
+
+/**
+ * Overall [min, max] of a set of extents; [0, 1] when empty.
+ */
+export function extentsDomain(extents: ReadonlyArray<[number, number]>): [number, number] {
+    if (extents.length === 0) return [0, 1];
+    let lo = Number.POSITIVE_INFINITY, hi = Number.NEGATIVE_INFINITY;
+    for (const [a, b] of extents) { if (a < lo) lo = a; if (b > hi) hi = b; }
+    return hi > lo ? [lo, hi] : [lo, lo + 1];
+}
+
+export interface BarLayoutOptions {
+    width: number;
+    height: number;
+    padding?: { left: number; right: number; top: number; bottom: number };
+    /** Fraction of each bin's width left empty on both sides, clamped to [0, 0.5] (default 0.1). */
+    barPadding?: number;
+    /** Value at the top of the plot (default: the largest value, or 1 when none is positive). */
+    yMax?: number;
+}
+
+export interface BarLayout {
+    /** One rect per bin; `Rect.i` is the bin index. */
+    rects: Rect[];
+    /** Pixel [left, right] of each bin's whole slot, padding included. */
+    columns: Array<[number, number]>;
+    xDomain: [number, number];
+    yDomain: [number, number];
+    /** Plot area in pixels. */
+    plot: { left: number; top: number; right: number; bottom: number };
+    xToPx: (x: number) => number;
+    yToPx: (v: number) => number;
+}
+
+/**
+ * Lays out one bar per bin, `values[i]` high, in pixel space. Bars keep their own (possibly unequal)
+ * widths; under/overflow bins are drawn as bands next to the finite domain (see `binExtents`).
+ */
+export function layoutBars(
+    bins: ReadonlyArray<Pick<HistogramBin, "start" | "end" | "width">>,
+    values: ReadonlyArray<number>,
+    options: BarLayoutOptions
+): BarLayout {
+    const { width, height, padding = { left: 48, right: 16, top: 12, bottom: 32 }, barPadding = 0.1 } = options;
+    const extents = binExtents(bins);
+    const xDomain = extentsDomain(extents);
+    const top = options.yMax ?? values.reduce((m, v) => Math.max(m, v), 0);
+    const yDomain: [number, number] = [0, top > 0 ? top : 1];
+
+    const plot = {
+        left: padding.left,
+        top: padding.top,
+        right: Math.max(padding.left + 1, width - padding.right),
+        bottom: Math.max(padding.top + 1, height - padding.bottom),
+    };
+    const xToPx = (x: number) => plot.left + ((x - xDomain[0]) / (xDomain[1] - xDomain[0])) * (plot.right - plot.left);
+    const yToPx = (v: number) => plot.top + (1 - v / yDomain[1]) * (plot.bottom - plot.top);
+
+    const pad = Math.min(0.5, Math.max(0, barPadding));
+    const y0 = yToPx(0);
+    const columns = extents.map(([a, b]): [number, number] => [xToPx(a), xToPx(b)]);
+    const rects = columns.map(([left, right], i) => {
+        const inset = (right - left) * pad;
+        const y1 = yToPx(values[i] ?? 0);
+        return { i, x: left + inset, y: Math.min(y0, y1), w: Math.max(0, right - left - 2 * inset), h: Math.abs(y1 - y0) };
+    });
+
+    return { rects, columns, xDomain, yDomain, plot, xToPx, yToPx };
+}
+
+/** Bin whose column contains pixel (x, y) inside the plot area, or null. */
+export function hitBar(layout: Pick<BarLayout, "columns" | "plot">, x: number, y: number): number | null {
+    const { plot, columns } = layout;
+    if (y < plot.top || y > plot.bottom) return null;
+    for (let i = 0; i < columns.length; i++) {
+        const [left, right] = columns[i]!;
+        if (x >= left && x <= right) return i;
+    }
+    return null;
+}
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+// src/render/select.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRenderer, driverOrder, RendererUnavailableError } from "./select.js";
+
+/** A WebGL2 context whose methods do nothing, enough for `createWebGL2Driver` to initialise. */
+function fakeGL(canvas: HTMLCanvasElement) {
+    const own: Record<string | symbol, unknown> = { canvas };
+    return new Proxy(own, {
+        get(t, p) {
+            if (p in t) return t[p];
+            if (typeof p === "string" && /^[A-Z0-9_]+$/.test(p)) return 0;
+            return (..._: unknown[]) =>
+                p === "getProgramParameter" ? true
+                    : p === "isContextLost" ? false
+                        : typeof p === "string" && (p.startsWith("create") || p === "getUniformLocation") ? {} : undefined;
+        },
+    }) as unknown as WebGL2RenderingContext;
+}
+
+describe("createRenderer", () => {
+    const ctx = { fillStyle: "", clearRect: vi.fn(), fillRect: vi.fn() };
+    /** Whether new canvases offer WebGL2; a canvas keeps the first kind of context it gave out, as in browsers. */
+    let webgl = false;
+    let canvas: HTMLCanvasElement;
+
+    beforeEach(() => {
+        const given = new WeakMap<HTMLCanvasElement, unknown>();
+        vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(function (this: HTMLCanvasElement, type: string) {
+            if (!given.has(this)) {
+                const c = type === "2d" ? ctx : type === "webgl2" && webgl ? fakeGL(this) : null;
+                if (!c) return null;
+                given.set(this, c);
+            }
+            const c = given.get(this);
+            return (type === "2d") === (c === ctx) ? c : null;
+        } as HTMLCanvasElement["getContext"]);
+        canvas = document.createElement("canvas");
+        document.body.appendChild(canvas);
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+        vi.restoreAllMocks();
+        ctx.fillRect.mockClear();
+        webgl = false;
+    });
+
+    it("orders drivers by preference within what require allows", () => {
+        expect(driverOrder({})).toEqual(["webgl2", "webgpu", "canvas2d"]);
+        expect(driverOrder({ prefer: "canvas2d" })).toEqual(["canvas2d", "webgl2", "webgpu"]);
+        expect(driverOrder({ require: "gpu" })).toEqual(["webgl2", "webgpu"]);
+        expect(driverOrder({ require: "cpu-only" })).toEqual(["canvas2d"]);
+    });
+
+    it("falls back to Canvas2D when WebGL2 is unavailable", () => {
+        const onDriverChange = vi.fn();
+        const r = createRenderer(canvas, { onDriverChange });
+        expect(r.kind).toBe("canvas2d");
+        expect(onDriverChange).toHaveBeenCalledWith("canvas2d");
+
+        r.render([{ x: 0, y: 0, w: 10, h: 10, i: 0 }], () => "red");
+        expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 10, 10);
+    });
+
+    it("throws RendererUnavailableError listing every attempt when the GPU is required", () => {
+        let error: unknown;
+        try { createRenderer(canvas, { require: "gpu" }); } catch (e) { error = e; }
+        expect(error).toBeInstanceOf(RendererUnavailableError);
+        expect((error as RendererUnavailableError).attempts).toEqual([
+            { driver: "webgl2", reason: "WebGL2 not available" },
+            { driver: "webgpu", reason: "not implemented" },
+        ]);
+    });
+
+    it("switches a lost WebGL2 context to Canvas2D on a fresh canvas and redraws", () => {
+        webgl = true;
+        const onDriverChange = vi.fn();
+        const r = createRenderer(canvas, { onDriverChange });
+        expect(r.kind).toBe("webgl2");
+        r.render([{ x: 1, y: 2, w: 3, h: 4, i: 0 }], () => "red");
+
+        canvas.dispatchEvent(new Event("webglcontextlost", { cancelable: true }));
+        expect(r.kind).toBe("canvas2d");
+        expect(r.canvas).not.toBe(canvas);
+        expect(r.canvas.isConnected).toBe(true);
+        expect(canvas.isConnected).toBe(false);
+        expect(onDriverChange.mock.calls).toEqual([["webgl2"], ["canvas2d"]]);
+        expect(ctx.fillRect).toHaveBeenCalledWith(1, 2, 3, 4);
+    });
+
+    it("waits for a restore instead of falling back when the GPU is required", () => {
+        webgl = true;
+        const r = createRenderer(canvas, { require: "gpu" });
+        canvas.dispatchEvent(new Event("webglcontextlost", { cancelable: true }));
+        expect(r.kind).toBe("webgl2");
+        expect(r.canvas).toBe(canvas);
+    });
+
+    it("ignores frames after destroy", () => {
+        const r = createRenderer(canvas);
+        r.destroy();
+        r.render([{ x: 0, y: 0, w: 1, h: 1, i: 0 }], () => "red");
+        expect(ctx.fillRect).not.toHaveBeenCalled();
+    });
+});
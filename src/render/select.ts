@@ -0,0 +1,133 @@
+// src/render/select.ts
+import { createCanvas2DDriver } from "./canvas2d.js";
+import type { Driver, Rect, RenderDriver, Renderer, RendererConfig, RenderRequire } from "./driver.js";
+import { createWebGL2Driver } from "./webgl2.js";
+
+const GPU: Record<RenderDriver, boolean> = { webgpu: true, webgl2: true, canvas2d: false };
+const FACTORIES: Partial<Record<RenderDriver, () => Driver>> = { webgl2: createWebGL2Driver, canvas2d: createCanvas2DDriver };
+
+/**
+ * Thrown by `createRenderer` when no driver allowed by `require` could be initialised; `attempts`
+ * lists each driver tried and why it failed.
+ */
+export class RendererUnavailableError extends Error {
+    readonly require: RenderRequire;
+    readonly attempts: ReadonlyArray<{ driver: RenderDriver; reason: string }>;
+
+    constructor(require: RenderRequire, attempts: ReadonlyArray<{ driver: RenderDriver; reason: string }>) {
+        super(`No renderer satisfies require "${require}": ${attempts.map(a => `${a.driver} (${a.reason})`).join(", ") || "no driver allowed"}.`);
+        this.name = "RendererUnavailableError";
+        this.require = require;
+        this.attempts = attempts;
+    }
+}
+
+/** Driver kinds to try, `prefer` (default "webgl2") first, limited to those `require` (default "any") allows. */
+export function driverOrder(config: RendererConfig): RenderDriver[] {
+    const require = config.require ?? "any";
+    const kinds: RenderDriver[] = [config.prefer ?? "webgl2", "webgl2", "webgpu", "canvas2d"];
+    return kinds
+        .filter((k, i) => kinds.indexOf(k) === i)
+        .filter(k => require === "gpu" ? GPU[k] : require === "cpu-only" ? !GPU[k] : true);
+}
+
+/**
+ * Draws on `canvas` with the first driver in `driverOrder(config)` whose `init` succeeds, reporting it
+ * through `onDriverChange`.
+ *
+ * A lost WebGL context is handled without remounting: with `require: "gpu"` the renderer waits for
+ * `webglcontextrestored` and rebuilds the program; otherwise it switches to Canvas2D right away. A canvas
+ * that had a WebGL context cannot give a 2D one, so the switch replaces `canvas` in the DOM with a fresh
+ * clone; read `renderer.canvas` for the current element. The last frame is redrawn after every switch.
+ *
+ * @throws RendererUnavailableError when no allowed driver can be initialised.
+ */
+export function createRenderer(canvas: HTMLCanvasElement, config: RendererConfig = {}): Renderer {
+    const require = config.require ?? "any";
+    let current = canvas;
+    let frame: { rects: Rect[]; color: (i: number) => string } | null = null;
+    let lost = false;
+    let destroyed = false;
+
+    const start = (kinds: ReadonlyArray<RenderDriver>): Driver => {
+        const attempts: { driver: RenderDriver; reason: string }[] = [];
+        for (const kind of kinds) {
+            const make = FACTORIES[kind];
+            if (!make) { attempts.push({ driver: kind, reason: "not implemented" }); continue; }
+            const d = make();
+            try {
+                const pending = d.init(current);
+                if (pending) pending.catch(() => { if (driver === d) fallBack(); });
+                return d;
+            } catch (e) {
+                d.destroy();
+                attempts.push({ driver: kind, reason: e instanceof Error ? e.message : String(e) });
+            }
+        }
+        throw new RendererUnavailableError(require, attempts);
+    };
+
+    const use = (d: Driver) => {
+        driver = d;
+        lost = false;
+        if (d.kind === "webgl2") {
+            current.addEventListener("webglcontextlost", onLost);
+            current.addEventListener("webglcontextrestored", onRestored);
+        }
+        config.onDriverChange?.(d.kind);
+        if (frame) d.render(frame.rects, frame.color);
+    };
+
+    const release = () => {
+        current.removeEventListener("webglcontextlost", onLost);
+        current.removeEventListener("webglcontextrestored", onRestored);
+        driver.destroy();
+    };
+
+    /** Moves to the next CPU driver on a fresh canvas; stays blank when none is allowed. */
+    const fallBack = () => {
+        lost = true;
+        if (require === "gpu") return;
+        release();
+        const next = current.cloneNode(false) as HTMLCanvasElement;
+        current.replaceWith(next);
+        current = next;
+        try { use(start(driverOrder(config).filter(k => !GPU[k]))); } catch { /* stay blank */ }
+    };
+
+    function onLost(e: Event) {
+        e.preventDefault(); // lets the browser fire webglcontextrestored
+        lost = true;
+        if (require !== "gpu") fallBack();
+    }
+
+    function onRestored() {
+        try {
+            driver.destroy();
+            driver.init(current);
+            lost = false;
+            if (frame) driver.render(frame.rects, frame.color);
+        } catch {
+            fallBack();
+        }
+    }
+
+    let driver = start(driverOrder(config));
+    use(driver);
+
+    return {
+        get kind() { return driver.kind; },
+        get canvas() { return current; },
+        render(rects, color) {
+            if (destroyed) return;
+            frame = { rects, color };
+            if (!lost) driver.render(rects, color);
+        },
+        destroy() {
+            if (destroyed) return;
+            destroyed = true;
+            frame = null;
+            release();
+        },
+    };
+}
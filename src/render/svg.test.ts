@@ -0,0 +1,51 @@
+// src/render/svg.test.ts
+import { describe, expect, it } from "vitest";
+import { computeHistogram } from "../core/engine.js";
+import { createSVGDriver, renderHistogramToSVG } from "./svg.js";
+
+describe("renderHistogramToSVG", () => {
+    const result = computeHistogram({
+        data: [1, 2, 2, 3, 3, 3, 4, 4, 5, 7],
+        domain: [0, 8],
+        binning: { mode: "binCount", binCount: 4 },
+        uncertainty: true,
+    });
+
+    it("renders a stable document", () => {
+        const svg = renderHistogramToSVG(result, { width: 320, height: 200, title: "Latency <ms>", errorBars: true });
+        expect(svg).toMatchSnapshot();
+    });
+
+    it("is deterministic and escapes text", () => {
+        const options = { title: `"a" & 'b'`, theme: { barFill: "#123456" } };
+        const svg = renderHistogramToSVG(result, options);
+        expect(renderHistogramToSVG(result, options)).toBe(svg);
+        expect(svg).toContain("<title>&quot;a&quot; &amp; &#39;b&#39;</title>");
+        expect(svg.match(/<rect [^>]*fill="#123456"/g)).toHaveLength(result.bins.length);
+    });
+
+    it("draws groups with their own colours", () => {
+        const grouped = computeHistogram({
+            data: [1, 2, 3, 5, 6, 7].map((v, i) => ({ v, g: i % 2 ? "a" : "b" })),
+            x: d => d.v,
+            groupBy: d => d.g,
+            domain: [0, 8],
+            binning: { mode: "binCount", binCount: 4 },
+        });
+        const svg = renderHistogramToSVG(grouped, { theme: { groupFill: ["red", "blue"] } });
+        expect(svg).toContain('fill="red"');
+        expect(svg).toContain('fill="blue"');
+        expect(renderHistogramToSVG(grouped, { grouped: false, theme: { groupFill: ["red", "blue"] } })).not.toContain('fill="red"');
+    });
+});
+
+describe("createSVGDriver", () => {
+    it("keeps markup without a target", () => {
+        const driver = createSVGDriver();
+        driver.init(null);
+        driver.render([{ x: 0.004, y: 1.5, w: -2, h: 3.333, i: 7 }], () => "red");
+        expect(driver.markup()).toBe('<rect x="0" y="1.5" width="0" height="3.33" fill="red" data-i="7"/>');
+        driver.destroy();
+        expect(driver.markup()).toBe("");
+    });
+});
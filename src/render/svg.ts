@@ -0,0 +1,111 @@
+// src/render/svg.ts
+import type { HistogramResult } from "../core/types.js";
+import { CHART_PADDING, chartFill, layoutChart } from "./chart.js";
+import type { ChartOptions, ChartTheme } from "./chart.js";
+import type { Driver, Rect } from "./driver.js";
+
+/** Writes bars as `<rect>` markup into an SVG element, or only keeps it when there is none (e.g. in Node). */
+export interface SVGDriver extends Driver<Element | null, "svg"> {
+    /** `<rect>` elements of the last frame. */
+    markup(): string;
+}
+
+export function createSVGDriver(): SVGDriver {
+    let target: Element | null = null;
+    let out = "";
+
+    return {
+        kind: "svg",
+        init(t) { target = t; },
+        render(items: Rect[], color: (i: number) => string) {
+            out = items.map(r =>
+                `<rect x="${num(r.x)}" y="${num(r.y)}" width="${num(Math.max(0, r.w))}" height="${num(Math.max(0, r.h))}" fill="${escape(color(r.i))}" data-i="${r.i}"/>`
+            ).join("");
+            if (target) target.innerHTML = out;
+        },
+        markup() { return out; },
+        destroy() { if (target) target.innerHTML = ""; target = null; out = ""; },
+    };
+}
+
+export interface SVGChartOptions extends Omit<ChartOptions, "width" | "height" | "groups" | "padding"> {
+    /** Size in pixels (defaults 600 × 400, as `HistogramView`). */
+    width?: number;
+    height?: number;
+    /** Drawn above the plot and used as the accessible name. */
+    title?: string;
+    /** Draw `result.groups` instead of the overall bars when present (default true). */
+    grouped?: boolean;
+    theme?: ChartTheme & { background?: string; titleColor?: string };
+}
+
+/**
+ * Renders a result as a standalone SVG document string with bars, error bars, axes, tick labels and
+ * an optional title, using the same layout and theme options as `HistogramView`.
+ *
+ * Pure and deterministic: no DOM, no clock, coordinates rounded to 2 decimals, so the output suits
+ * snapshot tests, emailed reports and PDFs, or a server-rendered first paint that the client view
+ * replaces once mounted.
+ */
+export function renderHistogramToSVG<T>(result: HistogramResult<T>, options: SVGChartOptions = {}): string {
+    const { width = 600, height = 400, title, grouped = true, theme = {}, ...chartOptions } = options;
+    const groups = grouped && result.groups?.length ? result.groups : undefined;
+    const padding = title ? { ...CHART_PADDING, top: CHART_PADDING.top + 20 } : CHART_PADDING;
+
+    const { layout, rects, intervals, xTicks, yTicks } = layoutChart(result.bins, { ...chartOptions, width, height, groups, padding });
+    const { plot, xToPx, yToPx } = layout;
+    const axis = escape(theme.axisColor ?? "#888");
+
+    const driver = createSVGDriver();
+    driver.init(null);
+    driver.render(rects, chartFill(theme, groups ? chartOptions.groupLayout ?? "stacked" : null, result.bins.length));
+
+    const errorBars = (intervals ?? []).map((ci, i) => {
+        const r = layout.rects[i]; if (!ci || !r) return "";
+        const cx = r.x + r.w / 2, cap = Math.min(4, r.w / 4), y0 = yToPx(ci[0]), y1 = yToPx(ci[1]);
+        return line(cx, y0, cx, y1) + line(cx - cap, y0, cx + cap, y0) + line(cx - cap, y1, cx + cap, y1);
+    }).join("");
+
+    const xAxis = xTicks.map(t => {
+        const x = xToPx(t.value);
+        return line(x, plot.bottom, x, plot.bottom + 4) + text(x, plot.bottom + 15, "middle", t.label);
+    }).join("");
+    const yAxis = yTicks.map(t => {
+        const y = yToPx(t.value);
+        return line(plot.left - 4, y, plot.left, y) + text(plot.left - 6, y + 3, "end", t.label);
+    }).join("");
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}" height="${num(height)}" viewBox="0 0 ${num(width)} ${num(height)}"`,
+        ` font-family="${escape(theme.fontFamily ?? "sans-serif")}" font-size="10" role="img"${title ? ` aria-label="${escape(title)}"` : ""}>`,
+        title ? `<title>${escape(title)}</title>` : "",
+        theme.background ? `<rect width="100%" height="100%" fill="${escape(theme.background)}"/>` : "",
+        `<g data-layer="bars">${driver.markup()}</g>`,
+        errorBars ? `<g data-layer="error-bars" stroke="${escape(theme.errorBarColor ?? "#333")}">${errorBars}</g>` : "",
+        `<g data-layer="axes" stroke="${axis}" fill="${axis}">`,
+        line(plot.left, plot.bottom, plot.right, plot.bottom),
+        line(plot.left, plot.top, plot.left, plot.bottom),
+        `<g data-axis="x">${xAxis}</g><g data-axis="y">${yAxis}</g></g>`,
+        title
+            ? `<text x="${num(width / 2)}" y="18" text-anchor="middle" font-size="13" fill="${escape(theme.titleColor ?? "#333")}">${escape(title)}</text>`
+            : "",
+        "</svg>",
+    ].join("");
+}
+
+function line(x1: number, y1: number, x2: number, y2: number) {
+    return `<line x1="${num(x1)}" y1="${num(y1)}" x2="${num(x2)}" y2="${num(y2)}"/>`;
+}
+
+function text(x: number, y: number, anchor: "middle" | "end", label: string) {
+    return `<text x="${num(x)}" y="${num(y)}" text-anchor="${anchor}" stroke="none">${escape(label)}</text>`;
+}
+
+/** Rounded to 2 decimals without trailing zeros or "-0". */
+function num(v: number) {
+    return String(+v.toFixed(2) || 0);
+}
+
+function escape(s: string) {
+    return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
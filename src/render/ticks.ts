@@ -0,0 +1,72 @@
+// src/render/ticks.ts
+import type { HistogramBin } from "../core/types.js";
+
+export interface AxisTick {
+    value: number;
+    label: string;
+}
+
+/** Tick step of about (hi - lo) / count, rounded to 1, 2 or 5 × 10^k. */
+export function tickStep(lo: number, hi: number, count: number) {
+    const raw = (hi - lo) / Math.max(1, count);
+    if (!(raw > 0) || !Number.isFinite(raw)) return 1;
+    const mag = 10 ** Math.floor(Math.log10(raw));
+    const e = raw / mag;
+    return (e >= 7.07 ? 10 : e >= 3.16 ? 5 : e >= 1.41 ? 2 : 1) * mag;
+}
+
+/** Multiples of `tickStep(lo, hi, count)` inside [lo, hi]. */
+export function linearTicks(lo: number, hi: number, count: number): number[] {
+    if (!(hi >= lo) || !Number.isFinite(lo) || !Number.isFinite(hi)) return [];
+    if (hi === lo) return [lo];
+    const step = tickStep(lo, hi, count);
+    const out: number[] = [];
+    for (let k = Math.ceil(lo / step), last = Math.floor(hi / step); k <= last; k++) out.push(+(k * step).toPrecision(12));
+    return out;
+}
+
+/** `hi` rounded up to a multiple of its tick step, so the axis ends on a tick. */
+export function niceUpper(hi: number, count: number) {
+    if (!(hi > 0) || !Number.isFinite(hi)) return 1;
+    const step = tickStep(0, hi, count);
+    return +(Math.ceil(hi / step) * step).toPrecision(12);
+}
+
+/** Formats a tick with as many decimals as its step needs. */
+export function formatTick(v: number, step: number) {
+    if (v !== 0 && (Math.abs(v) >= 1e6 || Math.abs(v) < 1e-4)) return v.toExponential(1).replace(".0e", "e");
+    return v.toFixed(Math.max(0, Math.min(10, -Math.floor(Math.log10(step) + 1e-9))));
+}
+
+/**
+ * Ticks for a histogram's x axis: category keys at bin centres, time labels at bin starts (every few
+ * bins, so about `count` remain), otherwise round values over the finite edges. Under/overflow bins
+ * get no ticks.
+ */
+export function xAxisTicks(bins: ReadonlyArray<HistogramBin<unknown> & { key?: string }>, count: number): AxisTick[] {
+    if (bins.length === 0) return [];
+
+    if (bins.some(b => b.key !== undefined || b.labels)) {
+        const stride = Math.max(1, Math.ceil(bins.length / Math.max(1, count)));
+        const out: AxisTick[] = [];
+        for (let i = 0; i < bins.length; i += stride) {
+            const b = bins[i]!;
+            if (b.key !== undefined) out.push({ value: b.center, label: b.key });
+            else if (b.labels) out.push({ value: b.start, label: b.labels.start });
+        }
+        return out;
+    }
+
+    let lo = Number.POSITIVE_INFINITY, hi = Number.NEGATIVE_INFINITY;
+    for (const b of bins) {
+        for (const v of [b.start, b.end]) if (Number.isFinite(v)) { if (v < lo) lo = v; if (v > hi) hi = v; }
+    }
+    const step = tickStep(lo, hi, count);
+    return linearTicks(lo, hi, count).map(value => ({ value, label: formatTick(value, step) }));
+}
+
+/** Ticks from 0 to `top` for a y axis laid out with `niceUpper`. */
+export function yAxisTicks(top: number, count: number): AxisTick[] {
+    const step = tickStep(0, top, count);
+    return linearTicks(0, top, count).map(value => ({ value, label: formatTick(value, step) }));
+}
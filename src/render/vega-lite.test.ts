@@ -0,0 +1,63 @@
+// src/render/vega-lite.test.ts
+import { describe, expect, it } from "vitest";
+import { computeHistogram } from "../core/engine.js";
+import { histogramToVegaLite } from "./vega-lite.js";
+
+interface Layer {
+    data: { values: Record<string, unknown>[] };
+    mark: { type: string };
+    encoding: Record<string, { type?: string; stack?: null }>;
+}
+
+const layers = (spec: Record<string, unknown>) => spec.layer as Layer[];
+
+describe("histogramToVegaLite", () => {
+    const data = [-4, 1, 2, 2, 3, 3, 3, 4, 9];
+
+    it("inlines one row per bin with finite extents for the open bins", () => {
+        const r = computeHistogram({ data, domain: [0, 5], overflow: true, binning: { mode: "binWidth", binWidth: 1 } });
+        const spec = histogramToVegaLite(r, { title: "t", width: "container" });
+        expect(spec.$schema).toBe("https://vega.github.io/schema/vega-lite/v5.json");
+        expect(spec).toMatchObject({ title: "t", width: "container" });
+        expect(spec).not.toHaveProperty("height");
+
+        const [bars] = layers(spec);
+        const rows = bars!.data.values;
+        expect(rows).toHaveLength(r.bins.length);
+        expect(rows.map(row => row.value)).toEqual(r.bins.map(b => b.count));
+        expect(rows[0]).toMatchObject({ range: "−∞ – 0", x1: 0 });
+        expect(rows[rows.length - 1]).toMatchObject({ range: "5 – ∞", x0: 5 });
+        for (const row of rows) expect(Number.isFinite(row.x0) && Number.isFinite(row.x1)).toBe(true);
+        expect(bars!.encoding.x!.type).toBe("quantitative");
+    });
+
+    it("scales the KDE layer to the bars and skips it for cumulative fields", () => {
+        const r = computeHistogram({ data: data.slice(1, -1), kde: true, binning: { mode: "binWidth", binWidth: 1 } });
+        const line = layers(histogramToVegaLite(r))[1]!;
+        expect(line.mark.type).toBe("line");
+        expect(line.data.values[3]!.y).toBeCloseTo(r.kde!.density[3]! * r.stats.totalWeight * r.binWidth, 12);
+        expect(layers(histogramToVegaLite(r, { field: "density" }))[1]!.data.values[3]!.y).toBe(r.kde!.density[3]);
+        expect(layers(histogramToVegaLite(r, { field: "cumulativeCount" }))).toHaveLength(1);
+        expect(layers(histogramToVegaLite(r, { kde: false }))).toHaveLength(1);
+    });
+
+    it("colours groups and unstacks them for the overlay layout", () => {
+        const r = computeHistogram({ data, groupBy: (_, i) => i % 2 ? "a" : "b", binning: { mode: "binCount", binCount: 3 } });
+        const [stacked] = layers(histogramToVegaLite(r));
+        expect(stacked!.data.values).toHaveLength(2 * r.bins.length);
+        expect(stacked!.encoding.color).toEqual({ field: "group", type: "nominal", title: "group" });
+        expect(stacked!.encoding.y!.stack).toBeUndefined();
+        expect(layers(histogramToVegaLite(r, { groupLayout: "overlay" }))[0]!.encoding.y!.stack).toBeNull();
+    });
+
+    it("uses a temporal axis and the bin labels for time bins", () => {
+        const day = 86_400_000;
+        const r = computeHistogram({
+            data: [0, 0.5, 1.2, 2.7].map(d => Date.UTC(2024, 0, 1) + d * day),
+            binning: { mode: "time", interval: "day", timeZone: "UTC" },
+        });
+        const [bars] = layers(histogramToVegaLite(r));
+        expect(bars!.encoding.x!.type).toBe("temporal");
+        expect(bars!.data.values.map(row => row.range)).toEqual(["2024-01-01 – 2024-01-02", "2024-01-02 – 2024-01-03", "2024-01-03 – 2024-01-04"]);
+    });
+});
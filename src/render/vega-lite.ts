@@ -0,0 +1,117 @@
+// src/render/vega-lite.ts
+import { binFieldValues } from "../core/csv.js";
+import type { BinField, HistogramBin, HistogramResult } from "../core/types.js";
+import type { GroupLayout } from "./groups.js";
+import { binExtents } from "./layout.js";
+
+/** A Vega-Lite v5 top-level spec as plain JSON. */
+export type VegaLiteSpec = Record<string, unknown>;
+
+export interface VegaLiteOptions {
+    /** Bar height (default "count"). */
+    field?: BinField;
+    title?: string;
+    width?: number | "container";
+    height?: number | "container";
+    /** How group bars share a bin when the result has groups (default "stacked"). */
+    groupLayout?: Exclude<GroupLayout, "dodge">;
+    /** Layer the result's KDE as a line scaled to `field` (default true; skipped for cumulative fields). */
+    kde?: boolean;
+}
+
+interface Row {
+    index: number;
+    x0: number;
+    x1: number;
+    range: string;
+    value: number;
+    group?: string;
+}
+
+/**
+ * Builds a self-contained Vega-Lite spec (data inlined) charting the result's bins, so the same
+ * histogram can be shown in Jupyter, Observable or the Vega editor.
+ *
+ * Under/overflow bins are drawn with a finite width next to their finite edge, as in `HistogramView`;
+ * the tooltip's `range` shows the open interval. Time-binned results use a temporal x axis.
+ */
+export function histogramToVegaLite<T>(result: HistogramResult<T>, options: VegaLiteOptions = {}): VegaLiteSpec {
+    const field = options.field ?? "count";
+    const grouped = !!result.groups?.length;
+    const temporal = result.bins.some(b => b.labels);
+    const extents = binExtents(result.bins);
+
+    const rowsOf = (bins: ReadonlyArray<HistogramBin<T>>, total: number, group?: string): Row[] => {
+        const values = binFieldValues(bins, field, total);
+        return bins.map((b, i) => ({
+            index: b.index,
+            x0: extents[i]![0],
+            x1: extents[i]![1],
+            range: b.labels ? `${b.labels.start} – ${b.labels.end}` : `${edge(b.start)} – ${edge(b.end)}`,
+            value: values[i]!,
+            ...(group !== undefined ? { group } : {}),
+        }));
+    };
+
+    const rows = grouped
+        ? result.groups!.flatMap(g => rowsOf(g.bins, g.stats.totalWeight, g.key))
+        : rowsOf(result.bins, result.stats.totalWeight);
+
+    const overlay = grouped && options.groupLayout === "overlay";
+    const bars = {
+        data: { values: rows },
+        mark: { type: "bar", ...(overlay ? { opacity: 0.5 } : {}) },
+        encoding: {
+            x: {
+                field: "x0",
+                type: temporal ? "temporal" : "quantitative",
+                ...(temporal ? {} : { bin: { binned: true } }),
+                title: "value",
+            },
+            x2: { field: "x1" },
+            y: { field: "value", type: "quantitative", title: field, ...(overlay ? { stack: null } : {}) },
+            ...(grouped ? { color: { field: "group", type: "nominal", title: "group" } } : {}),
+            tooltip: [
+                ...(grouped ? [{ field: "group", type: "nominal" }] : []),
+                { field: "range", type: "nominal", title: "bin" },
+                { field: "value", type: "quantitative", title: field },
+            ],
+        },
+    };
+
+    const layer: unknown[] = [bars];
+    const scale = kdeScale(result, field);
+    if (result.kde && options.kde !== false && scale !== null) {
+        const { x, density } = result.kde;
+        layer.push({
+            data: { values: x.map((v, i) => ({ x: v, y: density[i]! * scale })) },
+            mark: { type: "line" },
+            encoding: {
+                x: { field: "x", type: temporal ? "temporal" : "quantitative" },
+                y: { field: "y", type: "quantitative" },
+            },
+        });
+    }
+
+    return {
+        $schema: "https://vega.github.io/schema/vega-lite/v5.json",
+        ...(options.title !== undefined ? { title: options.title } : {}),
+        ...(options.width !== undefined ? { width: options.width } : {}),
+        ...(options.height !== undefined ? { height: options.height } : {}),
+        layer,
+    };
+}
+
+/** Factor taking KDE density to the bars' scale, or null for cumulative fields. */
+function kdeScale(result: HistogramResult<unknown>, field: BinField) {
+    switch (field) {
+        case "count": return result.stats.totalWeight * result.binWidth;
+        case "percent": return result.binWidth * 100;
+        case "density": return 1;
+        default: return null;
+    }
+}
+
+function edge(v: number) {
+    return v === Number.NEGATIVE_INFINITY ? "−∞" : v === Number.POSITIVE_INFINITY ? "∞" : String(v);
+}
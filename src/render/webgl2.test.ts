@@ -0,0 +1,83 @@
+// src/render/webgl2.test.ts
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Rect } from "./driver.js";
+import { createWebGL2Driver } from "./webgl2.js";
+
+type Call = [name: string, args: unknown[]];
+
+/** A WebGL2 context on a 200 × 100 canvas that records every method call and does nothing else. */
+function recordingCanvas() {
+    const calls: Call[] = [];
+    const canvas = { width: 200, height: 100, getContext: () => gl } as unknown as HTMLCanvasElement;
+    const gl = new Proxy({ canvas } as Record<string | symbol, unknown>, {
+        get(t, p) {
+            if (p in t) return t[p];
+            if (typeof p === "string" && /^[A-Z0-9_]+$/.test(p)) return 0;
+            return (...args: unknown[]) => {
+                calls.push([String(p), args]);
+                if (p === "getProgramParameter") return true;
+                if (p === "isContextLost") return false;
+                return typeof p === "string" && (p.startsWith("create") || p === "getUniformLocation") ? {} : undefined;
+            };
+        },
+    });
+    return { canvas, calls };
+}
+
+/** `bufferSubData` calls as [buffer, dstByteOffset, srcOffset, length], buffer being the typed array's kind. */
+function uploads(calls: Call[]) {
+    return calls.filter(([name]) => name === "bufferSubData").map(([, [, dst, data, src, length]]) =>
+        [data instanceof Float32Array ? "rects" : "colors", dst, src, length]);
+}
+
+const bars = (n: number): Rect[] => Array.from({ length: n }, (_, i) => ({ x: i * 10, y: 10, w: 8, h: 50, i }));
+
+describe("createWebGL2Driver", () => {
+    let gl: ReturnType<typeof recordingCanvas>;
+    const driver = createWebGL2Driver();
+
+    beforeEach(() => {
+        gl = recordingCanvas();
+        driver.init(gl.canvas);
+        driver.render(bars(3), () => "red");
+    });
+
+    it("uploads the first frame whole and draws one instance per rect", () => {
+        expect(uploads(gl.calls)).toEqual([["rects", 0, 0, 12], ["colors", 0, 0, 12]]);
+        expect(gl.calls.find(([name]) => name === "drawArraysInstanced")?.[1]).toEqual([0, 0, 4, 3]);
+
+        const colors = gl.calls.filter(([name]) => name === "bufferSubData").map(([, args]) => args[2]).find(d => d instanceof Uint8Array);
+        expect(Array.from((colors as Uint8Array).subarray(0, 4))).toEqual([255, 0, 0, 255]);
+    });
+
+    it("uploads nothing for an unchanged frame", () => {
+        gl.calls.length = 0;
+        driver.render(bars(3), () => "red");
+        expect(uploads(gl.calls)).toEqual([]);
+    });
+
+    it("uploads only the instances that changed", () => {
+        gl.calls.length = 0;
+        driver.render(bars(3), i => i === 1 ? "#00ff00" : "red");
+        expect(uploads(gl.calls)).toEqual([["colors", 4, 4, 4]]);
+
+        gl.calls.length = 0;
+        const moved = bars(3); moved[2] = { ...moved[2]!, h: 20 };
+        driver.render(moved, i => i === 1 ? "#00ff00" : "red");
+        expect(uploads(gl.calls)).toEqual([["rects", 32, 8, 4]]);
+    });
+
+    it("uploads one span when the changes are fragmented", () => {
+        driver.render(bars(100), () => "red");
+        gl.calls.length = 0;
+        driver.render(bars(100), i => i % 2 ? "blue" : "red");
+        expect(uploads(gl.calls)).toEqual([["colors", 4, 4, 99 * 4]]);
+    });
+
+    it("grows the buffers and re-uploads everything past their capacity", () => {
+        gl.calls.length = 0;
+        driver.render(bars(100), () => "red");
+        expect(gl.calls.filter(([name]) => name === "bufferData").map(([, args]) => args[1])).toEqual([128 * 16, 128 * 4]);
+        expect(uploads(gl.calls)).toEqual([["rects", 0, 0, 400], ["colors", 0, 0, 400]]);
+    });
+});
@@ -1,53 +1,184 @@
 // src/render/webgl2.ts
+import { parseColor } from "./color.js";
 import type { Driver, Rect } from "./driver.js";
 
+/** Colour for strings `parseColor` rejects: the default bar fill. */
+const FALLBACK = (0xe2904a | (0xff << 24)) >>> 0;
+/** Colour strings remembered before the cache is cleared. */
+const COLOR_CACHE_SIZE = 4096;
+/** More changed runs than this and the whole changed range is uploaded in one call. */
+const MAX_RUNS = 32;
+
+/**
+ * Draws every rect as an instance of one unit quad: per-instance `[x, y, w, h]` floats and packed
+ * RGBA bytes live in persistent buffers that grow as needed. Each frame is diffed against the last,
+ * so only changed instances are uploaded; a hover that recolours one bar sends 4 bytes. Colour strings
+ * are parsed once and cached. `init` after a context loss rebuilds everything.
+ */
 export function createWebGL2Driver(): Driver {
     let gl: WebGL2RenderingContext | null = null;
-    let program: WebGLProgram | null = null;
+    let state: GLState | null = null;
+    const colors = new Map<string, number>();
+
+    // CPU copies of the instance buffers, compared against each new frame.
+    let capacity = 0;
+    let count = 0;
+    let rects = new Float32Array(0);
+    let rgba = new Uint32Array(0);
+
+    const colorOf = (css: string) => {
+        let c = colors.get(css);
+        if (c === undefined) {
+            if (colors.size >= COLOR_CACHE_SIZE) colors.clear();
+            const p = parseColor(css);
+            c = p ? pack(p) : FALLBACK;
+            colors.set(css, c);
+        }
+        return c;
+    };
+
     return {
         kind: "webgl2",
         init(canvas) {
             gl = canvas.getContext("webgl2", { antialias: true, premultipliedAlpha: true }) as WebGL2RenderingContext | null;
             if (!gl) throw new Error("WebGL2 not available");
-            program = compile(gl);
+            state = setup(gl);
+            capacity = 0; count = 0;
         },
         render(items: Rect[], color) {
-            const g = gl!; g.viewport(0, 0, g.canvas.width, g.canvas.height);
-            g.clearColor(0, 0, 0, 0); g.clear(g.COLOR_BUFFER_BIT); g.useProgram(program!);
-            const res = g.getUniformLocation(program!, "u_resolution")!; g.uniform2f(res, g.canvas.width, g.canvas.height);
-            const pos = g.getAttribLocation(program!, "a_pos"); const col = g.getAttribLocation(program!, "a_color");
-            const data: number[] = [];
-            for (const r of items) {
-                const rgba = parse(color(r.i));
-                const x = r.x, y = r.y, w = r.w, h = r.h;
-                data.push(
-                    x, y, ...rgba, x + w, y, ...rgba, x + w, y + h, ...rgba,
-                    x, y, ...rgba, x + w, y + h, ...rgba, x, y + h, ...rgba
-                );
+            const g = gl!, s = state!;
+            const n = items.length;
+
+            let full = false;
+            if (n > capacity) {
+                capacity = Math.max(64, 2 ** Math.ceil(Math.log2(n)));
+                const nextRects = new Float32Array(capacity * 4); nextRects.set(rects.subarray(0, count * 4)); rects = nextRects;
+                const nextRgba = new Uint32Array(capacity); nextRgba.set(rgba.subarray(0, count)); rgba = nextRgba;
+                g.bindBuffer(g.ARRAY_BUFFER, s.rectBuffer); g.bufferData(g.ARRAY_BUFFER, rects.byteLength, g.DYNAMIC_DRAW);
+                g.bindBuffer(g.ARRAY_BUFFER, s.colorBuffer); g.bufferData(g.ARRAY_BUFFER, rgba.byteLength, g.DYNAMIC_DRAW);
+                full = true;
+            }
+
+            const rectRuns = new Runs(), colorRuns = new Runs();
+            for (let k = 0; k < n; k++) {
+                const r = items[k]!, o = k * 4, fresh = k >= count;
+                // compared at float32 precision, as stored
+                const x = Math.fround(r.x), y = Math.fround(r.y), w = Math.fround(Math.max(0, r.w)), h = Math.fround(Math.max(0, r.h));
+                if (fresh || rects[o] !== x || rects[o + 1] !== y || rects[o + 2] !== w || rects[o + 3] !== h) {
+                    rects[o] = x; rects[o + 1] = y; rects[o + 2] = w; rects[o + 3] = h;
+                    rectRuns.mark(k);
+                }
+                const c = colorOf(color(r.i));
+                if (fresh || rgba[k] !== c) { rgba[k] = c; colorRuns.mark(k); }
             }
-            const buf = g.createBuffer()!; g.bindBuffer(g.ARRAY_BUFFER, buf);
-            g.bufferData(g.ARRAY_BUFFER, new Float32Array(data), g.DYNAMIC_DRAW);
-            const stride = 6 * 4; // x,y,r,g,b,a float32
-            g.enableVertexAttribArray(pos); g.vertexAttribPointer(pos, 2, g.FLOAT, false, stride, 0);
-            g.enableVertexAttribArray(col); g.vertexAttribPointer(col, 4, g.FLOAT, false, stride, 8);
-            g.drawArrays(g.TRIANGLES, 0, data.length / 6);
-            g.deleteBuffer(buf);
+            count = n;
+
+            if (full) { rectRuns.all(n); colorRuns.all(n); }
+            upload(g, s.rectBuffer, rects, 4, rectRuns);
+            upload(g, s.colorBuffer, new Uint8Array(rgba.buffer), 4, colorRuns);
+
+            g.viewport(0, 0, g.canvas.width, g.canvas.height);
+            g.clearColor(0, 0, 0, 0); g.clear(g.COLOR_BUFFER_BIT);
+            if (n === 0) return;
+            g.useProgram(s.program);
+            if (s.width !== g.canvas.width || s.height !== g.canvas.height) {
+                s.width = g.canvas.width; s.height = g.canvas.height;
+                g.uniform2f(s.resolution, s.width, s.height);
+            }
+            g.enable(g.BLEND); g.blendFunc(g.ONE, g.ONE_MINUS_SRC_ALPHA);
+            g.bindVertexArray(s.vao);
+            g.drawArraysInstanced(g.TRIANGLE_STRIP, 0, 4, n);
+            g.bindVertexArray(null);
+        },
+        destroy() {
+            if (gl && state && !gl.isContextLost()) {
+                gl.deleteBuffer(state.quadBuffer); gl.deleteBuffer(state.rectBuffer); gl.deleteBuffer(state.colorBuffer);
+                gl.deleteVertexArray(state.vao); gl.deleteProgram(state.program);
+            }
+            gl = null; state = null;
         },
-        destroy() { gl = null; program = null; },
+    };
+}
+
+interface GLState {
+    program: WebGLProgram;
+    resolution: WebGLUniformLocation;
+    vao: WebGLVertexArrayObject;
+    quadBuffer: WebGLBuffer;
+    rectBuffer: WebGLBuffer;
+    colorBuffer: WebGLBuffer;
+    /** Size last written to `u_resolution`; -1 forces the first write. */
+    width: number;
+    height: number;
+}
+
+/** Instance indices to upload, merged into contiguous runs as they are marked in ascending order. */
+class Runs {
+    starts: number[] = [];
+    ends: number[] = [];
+
+    mark(k: number) {
+        const last = this.ends.length - 1;
+        if (last >= 0 && this.ends[last] === k) this.ends[last] = k + 1;
+        else { this.starts.push(k); this.ends.push(k + 1); }
+    }
+
+    all(n: number) { this.starts = n ? [0] : []; this.ends = n ? [n] : []; }
+}
+
+/** Uploads the marked instances of `data` (`stride` elements each), or their whole span when fragmented. */
+function upload(gl: WebGL2RenderingContext, buffer: WebGLBuffer, data: Float32Array | Uint8Array, stride: number, runs: Runs) {
+    if (runs.starts.length === 0) return;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    const send = (start: number, end: number) =>
+        gl.bufferSubData(gl.ARRAY_BUFFER, start * stride * data.BYTES_PER_ELEMENT, data, start * stride, (end - start) * stride);
+    if (runs.starts.length > MAX_RUNS) send(runs.starts[0]!, runs.ends[runs.ends.length - 1]!);
+    else for (let r = 0; r < runs.starts.length; r++) send(runs.starts[r]!, runs.ends[r]!);
+}
+
+/** RGBA channels as one little-endian uint32, so its bytes read r, g, b, a. */
+function pack([r, g, b, a]: [number, number, number, number]) {
+    const byte = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 255);
+    return (byte(r) | (byte(g) << 8) | (byte(b) << 16) | (byte(a) << 24)) >>> 0;
+}
+
+function setup(gl: WebGL2RenderingContext): GLState {
+    const program = compile(gl);
+    const vao = gl.createVertexArray()!;
+    gl.bindVertexArray(vao);
+
+    const quadBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(0); gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    const rectBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, rectBuffer);
+    gl.enableVertexAttribArray(1); gl.vertexAttribPointer(1, 4, gl.FLOAT, false, 0, 0); gl.vertexAttribDivisor(1, 1);
+
+    const colorBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
+    gl.enableVertexAttribArray(2); gl.vertexAttribPointer(2, 4, gl.UNSIGNED_BYTE, true, 0, 0); gl.vertexAttribDivisor(2, 1);
+
+    gl.bindVertexArray(null);
+    return {
+        program, resolution: gl.getUniformLocation(program, "u_resolution")!, vao,
+        quadBuffer, rectBuffer, colorBuffer, width: -1, height: -1,
     };
 }
 
 function compile(gl: WebGL2RenderingContext) {
     const vsSrc = `#version 300 es
 precision highp float;
-layout(location=0) in vec2 a_pos;
-layout(location=1) in vec4 a_color;
+layout(location=0) in vec2 a_corner;
+layout(location=1) in vec4 a_rect;
+layout(location=2) in vec4 a_color;
 uniform vec2 u_resolution;
 out vec4 v_color;
 void main(){
-  vec2 ndc = vec2((a_pos.x / u_resolution.x) * 2.0 - 1.0, 1.0 - (a_pos.y / u_resolution.y) * 2.0);
-  gl_Position = vec4(ndc, 0.0, 1.0);
-  v_color = a_color;
+  vec2 p = a_rect.xy + a_corner * a_rect.zw;
+  gl_Position = vec4((p.x / u_resolution.x) * 2.0 - 1.0, 1.0 - (p.y / u_resolution.y) * 2.0, 0.0, 1.0);
+  v_color = vec4(a_color.rgb * a_color.a, a_color.a);
 }`;
     const fsSrc = `#version 300 es
 precision highp float;
@@ -56,17 +187,11 @@ out vec4 outColor;
 void main(){ outColor = v_color; }`;
     const vs = gl.createShader(gl.VERTEX_SHADER)!; gl.shaderSource(vs, vsSrc); gl.compileShader(vs);
     const fs = gl.createShader(gl.FRAGMENT_SHADER)!; gl.shaderSource(fs, fsSrc); gl.compileShader(fs);
-    const p = gl.createProgram()!; gl.attachShader(p, vs); gl.attachShader(p, fs);
-    gl.bindAttribLocation(p, 0, "a_pos"); gl.bindAttribLocation(p, 1, "a_color"); gl.linkProgram(p);
-    gl.deleteShader(vs); gl.deleteShader(fs); return p;
-}
-
-function parse(css: string): [number, number, number, number] {
-    if (css.startsWith("#")) {
-        const h = css.slice(1); const r = parseInt(h.slice(0, 2), 16) / 255, g = parseInt(h.slice(2, 4), 16) / 255, b = parseInt(h.slice(4, 6), 16) / 255;
-        const a = h.length >= 8 ? parseInt(h.slice(6, 8), 16) / 255 : 1; return [r, g, b, a];
+    const p = gl.createProgram()!; gl.attachShader(p, vs); gl.attachShader(p, fs); gl.linkProgram(p);
+    gl.deleteShader(vs); gl.deleteShader(fs);
+    if (!gl.getProgramParameter(p, gl.LINK_STATUS)) {
+        const log = gl.getProgramInfoLog(p); gl.deleteProgram(p);
+        throw new Error(`WebGL2 program failed to link: ${log ?? "unknown error"}`);
     }
-    const m = css.match(/rgba?\(([^)]+)\)/); if (!m || !m[1]) return [0.29, 0.56, 0.89, 1];
-    const [r = 0, g = 0, b = 0, a = "1"] = m[1]!.split(",").map(s => parseFloat(s.trim()));
-    return [r / 255, g / 255, b / 255, Number.isFinite(a as number) ? (a as number) : 1];
+    return p;
 }
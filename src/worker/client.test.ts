@@ -0,0 +1,34 @@
+// src/worker/client.test.ts
+import { MessageChannel } from "node:worker_threads";
+import { describe, expect, it } from "vitest";
+import { computeHistogram } from "../core/engine.js";
+import { createHistogramWorker } from "./client.js";
+import { exposeHistogramWorker } from "./host.js";
+import type { MessagePortLike } from "./protocol.js";
+
+describe("createHistogramWorker", () => {
+    const channel = new MessageChannel();
+    const stop = exposeHistogramWorker(channel.port2 as unknown as MessagePortLike);
+    const worker = createHistogramWorker(channel.port1 as unknown as MessagePortLike);
+    const rows = Array.from({ length: 500 }, (_, i) => ({ v: (i * 31) % 97, w: 1 + (i % 3) }));
+
+    it("matches computeHistogram over a message port", async () => {
+        const cfg = { data: rows, x: (r: { v: number }) => r.v, weight: (r: { w: number }) => r.w, binning: { mode: "binCount", binCount: 12 } as const };
+        const result = await worker.compute(cfg);
+        const direct = computeHistogram(cfg);
+
+        expect(result.bins.map(b => [b.start, b.end, b.count, b.items])).toEqual(direct.bins.map(b => [b.start, b.end, b.count, b.items]));
+        expect(result.stats.mean).toBeCloseTo(direct.stats.mean, 12);
+    });
+
+    it("rejects an aborted request and terminates cleanly", async () => {
+        const controller = new AbortController();
+        const pending = worker.compute({ data: rows.map(r => r.v) }, { signal: controller.signal });
+        controller.abort();
+        await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+
+        worker.terminate();
+        stop();
+        channel.port1.close();
+    });
+});
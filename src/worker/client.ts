@@ -0,0 +1,175 @@
+// src/worker/client.ts
+import { computeFromValues, profileInput } from "../core/engine.js";
+import { extractValuesAndWeights } from "../core/engine.helpers.js";
+import { attachSamples, dropPackedItems } from "../core/items.js";
+import type { HistogramDiagnostic, HistogramLogicConfig, HistogramResult } from "../core/types.js";
+import { checkConfig } from "../core/validate.js";
+import {
+    listen,
+    pickWorkerOptions,
+    type HistogramWorkerResponse,
+    type MessagePortLike
+} from "./protocol.js";
+
+export interface ComputeOptions {
+    /** Aborting rejects the pending promise with an `AbortError` and drops the request if it has not started. */
+    signal?: AbortSignal;
+}
+
+export interface HistogramWorker {
+    compute<T>(cfg: HistogramLogicConfig<T>, options?: ComputeOptions): Promise<HistogramResult<T>>;
+    /** Rejects all pending requests and terminates the underlying worker when it supports it. */
+    terminate(): void;
+}
+
+export interface AsyncComputeOptions extends ComputeOptions {
+    /** Worker to run on; without one, the computation is deferred to a macrotask on the current thread. */
+    worker?: HistogramWorker;
+}
+
+interface Pending {
+    resolve: (r: HistogramResult<unknown>) => void;
+    reject: (e: unknown) => void;
+    cleanup: () => void;
+}
+
+/**
+ * Wraps a worker running `exposeHistogramWorker` (Web Worker or Node `worker_threads`).
+ *
+ * Accessors run on the calling thread: values and weights are extracted into `Float64Array` columns,
+ * which are transferred (not copied) to the worker together with the cloneable config fields.
+ * Typed-array input owned by the caller is copied once so it is never detached. Bin samples are
+ * drawn on the calling thread, which holds the original items.
+ *
+ * @example
+ * ```ts
+ * const worker = createHistogramWorker(new Worker(new URL("./histogram.worker.js", import.meta.url), { type: "module" }));
+ * const result = await worker.compute({ data, binning: { mode: "binCount", binCount: 50 } }, { signal });
+ * ```
+ */
+export function createHistogramWorker(port: MessagePortLike): HistogramWorker {
+    let nextId = 1;
+    const pending = new Map<number, Pending>();
+
+    const unlisten = listen(port, data => {
+        const msg = data as HistogramWorkerResponse;
+        const p = pending.get(msg?.id);
+        if (!p) return;
+        pending.delete(msg.id);
+        p.cleanup();
+        if (msg.type === "result") p.resolve(msg.result);
+        else p.reject(new Error(msg.message));
+    });
+
+    return {
+        compute<T>(cfg: HistogramLogicConfig<T>, options: ComputeOptions = {}) {
+            const { signal } = options;
+            if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+            let problems: HistogramDiagnostic[];
+            try {
+                problems = checkConfig(cfg);
+            } catch (e) {
+                return Promise.reject(e);
+            }
+
+            const { xs, ws, warnings, borrowed, groups, ys, rows, dropped } = extractValuesAndWeights(cfg);
+            // Copied before the columns are transferred away.
+            const sampling = cfg.sample ? { rows: (rows ?? Float64Array.from(xs)) as ArrayLike<T>, ws: Float64Array.from(ws) } : null;
+            const xa = transferable(xs, borrowed);
+            const wa = transferable(ws, borrowed);
+            const ya = cfg.profile && ys ? Float64Array.from(ys) : null;
+            const id = nextId++;
+
+            return new Promise<HistogramResult<T>>((resolve, reject) => {
+                const onAbort = () => {
+                    if (!pending.delete(id)) return;
+                    port.postMessage({ type: "cancel", id });
+                    reject(abortReason(signal!));
+                };
+                signal?.addEventListener("abort", onAbort, { once: true });
+
+                pending.set(id, {
+                    resolve: r => resolve(withSamples({ ...r, dropped } as HistogramResult<T>, cfg, sampling)),
+                    reject,
+                    cleanup: () => signal?.removeEventListener("abort", onAbort),
+                });
+
+                port.postMessage(
+                    {
+                        type: "compute", id, xs: xa, ws: wa, options: pickWorkerOptions(cfg), warnings: [...problems, ...warnings],
+                        ...(groups ? { groups } : {}),
+                        ...(ya ? { profile: { ys: ya, median: cfg.profile?.median ?? false } } : {}),
+                    },
+                    ya ? [xa.buffer, wa.buffer, ya.buffer] : [xa.buffer, wa.buffer]
+                );
+            });
+        },
+        terminate() {
+            unlisten();
+            for (const p of pending.values()) { p.cleanup(); p.reject(new Error("Histogram worker terminated")); }
+            pending.clear();
+            port.terminate?.();
+        },
+    };
+}
+
+/**
+ * Computes a histogram without blocking the caller: on `options.worker` when given, otherwise
+ * in a later macrotask on the current thread. Honours `options.signal` until the result is delivered.
+ */
+export function computeHistogramAsync<T>(
+    cfg: HistogramLogicConfig<T>,
+    options: AsyncComputeOptions = {}
+): Promise<HistogramResult<T>> {
+    const { worker, signal } = options;
+    if (worker) return worker.compute(cfg, signal ? { signal } : {});
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+    return new Promise((resolve, reject) => {
+        const onAbort = () => { clearTimeout(timer); reject(abortReason(signal!)); };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            try {
+                const problems = checkConfig(cfg);
+                const { xs, ws, warnings, groups, ys, rows, dropped } = extractValuesAndWeights(cfg);
+                const result = computeFromValues<T>(
+                    xs, ws, cfg, [...problems, ...warnings], groups, profileInput(cfg, ys), (rows ?? xs) as ArrayLike<T>
+                );
+                result.dropped = dropped;
+                resolve(result);
+            } catch (e) {
+                reject(e);
+            }
+        }, 0);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/** Attaches the samples a worker result left to the calling thread (see `computeFromValues`). */
+function withSamples<T>(
+    result: HistogramResult<T>,
+    cfg: HistogramLogicConfig<T>,
+    sampling: { rows: ArrayLike<T>; ws: ArrayLike<number> } | null
+): HistogramResult<T> {
+    if (!sampling || !cfg.sample || result.bins.length === 0) return result;
+    attachSamples(result, sampling.rows, sampling.ws, cfg.sample);
+    if (cfg.items === "none") dropPackedItems(result);
+    return result;
+}
+
+/**
+ * Returns a `Float64Array` whose whole buffer may be transferred: extracted arrays are reused,
+ * caller-owned (borrowed) or partial views are copied so the caller's data is never detached.
+ */
+function transferable(a: ArrayLike<number>, borrowed: boolean): Float64Array {
+    if (!borrowed && a instanceof Float64Array && a.byteOffset === 0 && a.byteLength === a.buffer.byteLength
+        && a.buffer instanceof ArrayBuffer) {
+        return a;
+    }
+    return Float64Array.from(a);
+}
+
+function abortReason(signal: AbortSignal): unknown {
+    return signal.reason ?? new DOMException("The operation was aborted.", "AbortError");
+}
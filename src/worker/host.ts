@@ -0,0 +1,69 @@
+// src/worker/host.ts
+import { computeFromValues } from "../core/engine.js";
+import {
+    listen,
+    type HistogramWorkerRequest,
+    type HistogramWorkerResponse,
+    type MessagePortLike
+} from "./protocol.js";
+
+/**
+ * Serves histogram requests from `createHistogramWorker` inside a worker.
+ *
+ * Requests are queued and drained in a later macrotask, so a cancel that arrives right behind a
+ * superseded request drops it before any work is done. A request that has started runs to completion;
+ * its result is then ignored by the client.
+ *
+ * @param port The worker's message port: `self` in a Web Worker (default), `parentPort` in Node.
+ * @returns A function that stops listening.
+ *
+ * @example
+ * ```ts
+ * // histogram.worker.ts
+ * import { exposeHistogramWorker } from "@lokrain/histogram";
+ * exposeHistogramWorker();
+ *
+ * // Node: exposeHistogramWorker(parentPort!);
+ * ```
+ */
+export function exposeHistogramWorker(port: MessagePortLike = globalThis as unknown as MessagePortLike): () => void {
+    const queue: Extract<HistogramWorkerRequest, { type: "compute" }>[] = [];
+    let scheduled = false;
+
+    const drain = () => {
+        scheduled = false;
+        const req = queue.shift();
+        if (!req) return;
+        if (queue.length > 0) schedule();
+
+        let msg: HistogramWorkerResponse;
+        const transfer: ArrayBufferLike[] = [];
+        try {
+            const result = computeFromValues(req.xs, req.ws, req.options, req.warnings, req.groups, req.profile);
+            for (const p of [result.packedItems, ...(result.groups ?? []).map(g => g.packedItems)]) {
+                if (p) transfer.push(p.indices.buffer, p.offsets.buffer);
+            }
+            msg = { type: "result", id: req.id, result };
+        } catch (e) {
+            msg = { type: "error", id: req.id, message: e instanceof Error ? e.message : String(e) };
+        }
+        port.postMessage(msg, transfer);
+    };
+
+    const schedule = () => {
+        if (scheduled) return;
+        scheduled = true;
+        setTimeout(drain, 0);
+    };
+
+    return listen(port, data => {
+        const req = data as HistogramWorkerRequest;
+        if (req?.type === "compute") {
+            queue.push(req);
+            schedule();
+        } else if (req?.type === "cancel") {
+            const at = queue.findIndex(q => q.id === req.id);
+            if (at >= 0) queue.splice(at, 1);
+        }
+    });
+}
@@ -0,0 +1,64 @@
+// src/worker/protocol.ts
+import type { NumericHistogramOptions } from "../core/engine.js";
+import type { HistogramDiagnostic, HistogramLogicConfig, HistogramResult } from "../core/types.js";
+
+/** Config fields that survive structured cloning (accessors stay on the calling thread). */
+export type WorkerHistogramOptions = NumericHistogramOptions;
+
+export type HistogramWorkerRequest =
+    | {
+        type: "compute"; id: number; xs: Float64Array; ws: Float64Array;
+        options: WorkerHistogramOptions; warnings: HistogramDiagnostic[];
+        /** Extracted `groupBy` keys, aligned with `xs`. */
+        groups?: (string | null)[];
+        /** Extracted `profile` values, aligned with `xs`. */
+        profile?: { ys: Float64Array; median: boolean };
+    }
+    | { type: "cancel"; id: number };
+
+export type HistogramWorkerResponse =
+    | { type: "result"; id: number; result: HistogramResult }
+    | { type: "error"; id: number; message: string };
+
+/**
+ * The subset of a Web `Worker`/`DedicatedWorkerGlobalScope` or a Node `worker_threads` `Worker`/`parentPort`
+ * used by the client and host. Web-style `addEventListener` is preferred; Node EventEmitter `on` is the fallback.
+ */
+export interface MessagePortLike {
+    postMessage(message: unknown, transfer?: Transferable[]): void;
+    addEventListener?(type: "message", listener: (event: { data: unknown }) => void): void;
+    removeEventListener?(type: "message", listener: (event: { data: unknown }) => void): void;
+    on?(event: "message", listener: (data: unknown) => void): unknown;
+    off?(event: "message", listener: (data: unknown) => void): unknown;
+    terminate?(): unknown;
+}
+
+/**
+ * Subscribes to messages on either port flavour; returns the unsubscribe function.
+ */
+export function listen(port: MessagePortLike, handler: (data: unknown) => void): () => void {
+    if (port.addEventListener) {
+        const l = (event: { data: unknown }) => handler(event.data);
+        port.addEventListener("message", l);
+        return () => port.removeEventListener?.("message", l);
+    }
+    if (port.on) {
+        port.on("message", handler);
+        return () => { port.off?.("message", handler); };
+    }
+    throw new Error("Port supports neither addEventListener nor on");
+}
+
+const OPTION_KEYS = [
+    "domain", "binning", "edgeRule", "overflow", "measure", "quantiles", "quantileMethod", "variance", "kde", "uncertainty",
+    "items", "sample", "strict",
+] as const satisfies ReadonlyArray<keyof WorkerHistogramOptions>;
+
+/**
+ * Copies the cloneable fields of a config, leaving out data and accessors.
+ */
+export function pickWorkerOptions<T>(cfg: HistogramLogicConfig<T>): WorkerHistogramOptions {
+    const out: Record<string, unknown> = {};
+    for (const k of OPTION_KEYS) if (cfg[k] !== undefined) out[k] = cfg[k];
+    return out as WorkerHistogramOptions;
+}